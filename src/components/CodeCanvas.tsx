@@ -1,4 +1,4 @@
-import React, { useEffect, useCallback, useRef, useState } from 'react';
+import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import ReactFlow, { 
   Background, 
   Controls, 
@@ -12,40 +12,109 @@ import ReactFlow, {
   useViewport,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { FileStructure, useFileStore, Drawing } from '../store/useFileStore';
+import { FileStructure, useFileStore, Drawing, SavedFlow } from '../store/useFileStore';
 import { GitVisualizer } from './GitVisualizer/GitVisualizer';
 import { FileNode } from './FileNode';
 import { FlowEdge } from './FlowEdge';
+import { CrossTierEdge } from './CrossTierEdge';
 import { DrawingNode } from './DrawingNode';
-import { PenTool, MousePointer2, Eraser, Circle, Square, Minus, Type, Hand, Link as LinkIcon, Search, X, ChevronLeft, ChevronRight, Mic, FolderTree, Maximize2, ChevronDown, MessageSquare, GitBranch } from 'lucide-react';
+import { TypeNode } from './TypeNode';
+import { PenTool, MousePointer2, Eraser, Circle, Square, Minus, Type, Hand, Link as LinkIcon, Search, X, ChevronLeft, ChevronRight, Mic, FolderTree, Maximize2, ChevronDown, MessageSquare, GitBranch, ClipboardList, FileJson, Boxes, Flame, Thermometer, Split, Clock, Activity, ShieldCheck, Pause, Play, StepBack, StepForward, Redo2, ArrowUpFromLine, Layers, Workflow, Bookmark, Users, StickyNote, ChevronsDown, CloudDownload } from 'lucide-react';
 import { useCollaboration } from '../hooks/useCollaboration';
-import { CodeSearchEngine } from '../services/searchEngine';
+import { CodeSearchEngine, ContentMatch, ScoreBreakdown, SearchResult } from '../services/searchEngine';
+import { githubCacheScope, restoreSearchIndex, roomCacheScope, saveSearchIndex } from '../services/analysisCache';
+import { useUnfetchedSearch } from '../hooks/useUnfetchedSearch';
+import { isStructuredQuery, parseSearchQuery, runSearchQuery } from '../services/searchQuery';
 import { useVoiceRecognition } from '../hooks/useVoiceRecognition';
 import { FileTreeView } from './FileTreeView';
 import { Chat } from './Chat';
 import { FullscreenTreeView } from './FullscreenTreeView';
+import { UsageReportPanel } from './UsageReportPanel';
+import { HotspotsPanel } from './HotspotsPanel';
+import { SequenceDiagramPanel } from './SequenceDiagramPanel';
+import { SavedFlowsPanel } from './SavedFlowsPanel';
+import { FlowSummaryDialog, limitReasonLabels } from './FlowSummaryDialog';
+import { buildOpenApiDocument, serializeOpenApiDocument, OpenApiFormat } from '../services/openApiExport';
+import { useExplanationStore } from '../store/useExplanationStore';
+import { buildTypeGraph, layoutTypeGraph, TYPE_NODE_WIDTH } from '../services/typeGraph';
 import { resolveOverlaps, areNodesReady } from '../utils/overlapResolver';
+import { findFunction, resolveSymbol } from '../utils/moduleResolver';
+import { matchRequest } from '../utils/clientRequests';
+import { parseRuntimeTrace, traceToFlowPath } from '../services/runtimeTrace';
+import { CoverageMap, findUncoveredFunctions, parseCoverageReport } from '../services/coverageReport';
+import { buildSequenceDiagram } from '../services/sequenceDiagram';
+import {
+  ALL_PATHS,
+  BranchChoices,
+  DEFAULT_FLOW_LIMITS,
+  FlowEdgeMode,
+  FlowLimits,
+  FlowStart,
+  FlowStep,
+  callDepths,
+  callStackAt,
+  continueFromBranch,
+  executedLinesAt,
+  findQueuedTasks,
+  findTrack,
+  generateFlowPath,
+  isBranchDecided,
+  summarizeFlow,
+} from '../services/flowTracer';
 
 const nodeTypes = {
   fileNode: FileNode,
   drawingNode: DrawingNode,
+  typeNode: TypeNode,
 };
 
 const edgeTypes = {
   flowEdge: FlowEdge,
+  crossTierEdge: CrossTierEdge,
 };
 
-type FlowStep = 
-  | { type: 'highlight-def'; file: string; func: string }
-  | { type: 'highlight-call'; file: string; line: number }
-  | { type: 'highlight-return'; file: string; lines: number[] }
-  | { type: 'highlight-endpoint'; file: string; line: number }
-  | { type: 'animate-edge'; fromFile: string; toFile: string; fromLine: number; toFunc: string }
-  | { type: 'return-edge'; fromFile: string; toFile: string; fromFunc: string; toLine: number }
-  | { type: 'execute-line'; file: string; line: number }
-  | { type: 'animate-edge-with-dot'; fromFile: string; toFile: string; fromLine: number; toFunc: string }
-  | { type: 'return-edge-with-dot'; fromFile: string; toFile: string; fromFunc: string; toLine: number }
-  | { type: 'prepare-return'; file: string; func: string };
+// Flow edge colour by how the call hands over control
+const FLOW_EDGE_COLORS: Record<FlowEdgeMode | 'sync', string> = {
+  sync: '#22d3ee',
+  await: '#4ade80',
+  callback: '#38bdf8',
+  deferred: '#a78bfa',
+  event: '#facc15',
+  recursion: '#fb7185',
+};
+
+// A result stepped through with next/previous; line hits come from file contents
+interface SearchHit {
+  type: 'file' | 'function' | 'line';
+  path: string;
+  functionName?: string;
+  line?: number;
+  column?: number;
+  snippet?: string;
+  breakdown?: ScoreBreakdown; // How a ranked file or function scored
+  unfetched?: boolean; // In a file of an unselected segment, not on the canvas yet
+}
+
+// The search index is saved for the next visit once changes settle
+const INDEX_SAVE_DELAY_MS = 2000;
+
+const foundMessage = (count: number) => (count === 1 ? 'Found 1 result' : `Found ${count} results`);
+
+// Unranked hits (structured queries, uncovered functions) keep their order
+const byScore = (a: SearchHit, b: SearchHit) => (b.breakdown?.total ?? 0) - (a.breakdown?.total ?? 0);
+
+// Debug tooltip of the result counter
+const scoreTooltip = (hit: SearchHit | undefined) => {
+  const b = hit?.breakdown;
+  if (!b) return undefined;
+  return [
+    `score ${b.total.toFixed(2)}`,
+    `bm25 ${b.bm25.toFixed(2)} (${b.terms.join(', ')})`,
+    `proximity +${b.proximity.toFixed(2)}`,
+    `usage +${b.usage.toFixed(2)}`,
+    `recency +${b.recency.toFixed(2)}`,
+  ].join('\n');
+};
 
 interface CodeCanvasProps {
   files: FileStructure[];
@@ -59,7 +128,7 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [selectedFunction, setSelectedFunction] = useState<string | null>(null);
-  const { drawings, addDrawing, setDrawings, githubContext } = useFileStore();
+  const { drawings, addDrawing, setDrawings, githubContext, savedFlows, setSavedFlows } = useFileStore();
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentPath, setCurrentPath] = useState<{x:number, y:number}[]>([]);
   const { screenToFlowPosition, setCenter } = useReactFlow();
@@ -78,6 +147,28 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
   const [executedLines, setExecutedLines] = useState<Map<string, Set<number>>>(new Map());
   const [flowSpeed, setFlowSpeed] = useState(0.5);
   const [dotProgress, setDotProgress] = useState(0);
+  const [isAskingAtBranches, setIsAskingAtBranches] = useState(true);
+  const [isFlowPaused, setIsFlowPaused] = useState(false);
+  const [isCallStackOpen, setIsCallStackOpen] = useState(true);
+  const [isSequenceOpen, setIsSequenceOpen] = useState(false);
+  // Breakpoint lines by file
+  const [breakpoints, setBreakpoints] = useState<Map<string, Set<number>>>(new Map());
+  // Step playback last resumed or stepped to, so its own breakpoint doesn't stop it again
+  const resumedAtRef = useRef(-1);
+  const flowStartRef = useRef<FlowStart | null>(null);
+  const [flowLimits, setFlowLimits] = useState<FlowLimits>(DEFAULT_FLOW_LIMITS);
+  // A flow being summarized before it plays; start is null for recorded traces
+  const [pendingFlow, setPendingFlow] = useState<{ title: string; start: FlowStart | null; steps: FlowStep[] } | null>(null);
+  // Saved flow being played, and whether its playback is driven for the room or followed from it
+  const [playingFlowId, setPlayingFlowId] = useState<string | null>(null);
+  const [flowSync, setFlowSync] = useState<'drive' | 'follow' | null>(null);
+  const [isSavedFlowsOpen, setIsSavedFlowsOpen] = useState(false);
+  const [isSaveFlowOpen, setIsSaveFlowOpen] = useState(false);
+  const [saveFlowTitle, setSaveFlowTitle] = useState('');
+  // Room playback this client stopped following, so the driver's next step doesn't pull it back in
+  const leftPlaybackRef = useRef<string | null>(null);
+  const autoStartedFlowRef = useRef(false);
+  const traceInputRef = useRef<HTMLInputElement>(null);
   const animationFrameRef = useRef<number | null>(null);
 
   const [isSpacePressed, setIsSpacePressed] = useState(false);
@@ -88,9 +179,32 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
   const [highlightedFiles, setHighlightedFiles] = useState<Set<string>>(new Set());
   const [highlightedFunctions, setHighlightedFunctions] = useState<Map<string, string[]>>(new Map());
   const [searchMessage, setSearchMessage] = useState('');
-  const [searchResults, setSearchResults] = useState<Array<{type: 'file' | 'function', path: string, functionName?: string, line?: number}>>([]); 
+  const [searchResults, setSearchResults] = useState<SearchHit[]>([]); 
   const [currentResultIndex, setCurrentResultIndex] = useState(0);
+  const [isCaseSensitive, setIsCaseSensitive] = useState(false);
+  const [isRegexSearch, setIsRegexSearch] = useState(false);
+  // Lines of file contents matching the search, by file
+  const [searchLines, setSearchLines] = useState<Map<string, Set<number>>>(new Map());
   const searchEngineRef = useRef<CodeSearchEngine>(new CodeSearchEngine());
+  // The file last clicked or jumped to; search ranks results near it higher
+  const nearPathRef = useRef<string | undefined>(undefined);
+  // Where the search index is cached between visits: per GitHub repo, else per room
+  const indexCacheScopeRef = useRef<string | null>(null);
+  const isRestoringIndexRef = useRef(false);
+  const indexSaveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  // Also search GitHub files outside the selected segments
+  const [isSearchingUnfetched, setIsSearchingUnfetched] = useState(false);
+  const {
+    unfetched,
+    progress: unfetchedProgress,
+    error: unfetchedError,
+    searchPaths: searchUnfetchedPaths,
+    searchContents: searchUnfetchedContents,
+    cancel: cancelUnfetchedSearch,
+    openFile: openUnfetchedFile,
+  } = useUnfetchedSearch();
+  // A hit whose file was just added to the canvas, focused once its node is measured
+  const focusAfterOpenRef = useRef<SearchHit | null>(null);
   
   // Voice Search State
   const [inputMode, setInputMode] = useState<'text' | 'voice'>('text');
@@ -107,6 +221,22 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
   
   // Git Visualizer State
   const [isGitVisualizerOpen, setIsGitVisualizerOpen] = useState(false);
+
+  // Usage Report State
+  const [isUsageReportOpen, setIsUsageReportOpen] = useState(false);
+
+  // OpenAPI Export State
+  const [isApiExportMenuOpen, setIsApiExportMenuOpen] = useState(false);
+
+  // Type Graph State
+  const [isTypeGraphOpen, setIsTypeGraphOpen] = useState(false);
+
+  // Complexity State
+  const [isHeatmapOn, setIsHeatmapOn] = useState(false);
+  const [coverage, setCoverage] = useState<CoverageMap | null>(null);
+  const [isUncoveredOnly, setIsUncoveredOnly] = useState(false);
+  const coverageInputRef = useRef<HTMLInputElement>(null);
+  const [isHotspotsOpen, setIsHotspotsOpen] = useState(false);
   
   // Overlap resolution state
   const overlapResolvedRef = useRef(false);
@@ -119,6 +249,14 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
       return () => document.removeEventListener('click', handleClickOutside);
     }
   }, [isTreeDropdownOpen]);
+
+  useEffect(() => {
+    const handleClickOutside = () => setIsApiExportMenuOpen(false);
+    if (isApiExportMenuOpen) {
+      document.addEventListener('click', handleClickOutside);
+      return () => document.removeEventListener('click', handleClickOutside);
+    }
+  }, [isApiExportMenuOpen]);
   
   useEffect(() => {
     const animals = ['Penguin', 'Badger', 'Capybara', 'Dolphin', 'Eagle', 'Fox', 'Giraffe', 'Hedgehog', 'Iguana', 'Jaguar', 'Koala', 'Lemur', 'Meerkat', 'Narwhal', 'Octopus', 'Panda', 'Quokka', 'Rabbit', 'Sloth', 'Tiger', 'Unicorn', 'Vulture', 'Walrus', 'Xerus', 'Yak', 'Zebra'];
@@ -132,6 +270,8 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
   }, []);
   
   useEffect(() => {
+      // A flow driven for the previous room plays on here alone, rather than in the next room
+      setFlowSync(prev => (prev === 'drive' ? null : prev));
       if (propRoomId) {
           setRoomId(propRoomId);
       } else {
@@ -143,7 +283,17 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
       }
   }, [propRoomId]);
 
-  const { addDrawingToYjs, updateDrawingInYjs, removeDrawingFromYjs } = useCollaboration(roomId);
+  const {
+    addDrawingToYjs,
+    updateDrawingInYjs,
+    removeDrawingFromYjs,
+    addFlowToYjs,
+    updateFlowInYjs,
+    removeFlowFromYjs,
+    playback,
+    clientId,
+    setPlaybackInYjs,
+  } = useCollaboration(roomId);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -299,170 +449,251 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
       }
   }, [isDrawing, tool, setDrawings, removeDrawingFromYjs]);
 
-  const resolveFunctionDefinition = useCallback((currentFile: FileStructure, funcName: string) => {
-      // Check local functions
-      if (currentFile.analysis?.functions.some(f => f.name === funcName)) {
-          return { file: currentFile.path, func: funcName };
-      }
-      
-      // Check imports
-      const importInfo = currentFile.analysis?.imports.find(i => 
-          i.namedImports.includes(funcName) || i.defaultImport === funcName
-      );
-      
-      if (importInfo) {
-          // Resolve module path to file path
-          // This is tricky without a real resolver, but we can try to match filenames
-          // import ... from './controllers/authController' -> authController.ts
-          const moduleName = importInfo.moduleSpecifier.split('/').pop(); // authController
-          const targetFile = files.find(f => f.name.startsWith(moduleName!));
-          if (targetFile) {
-              return { file: targetFile.path, func: funcName };
-          }
+  const resolveFunctionDefinition = useCallback((currentFile: FileStructure, funcName: string, receiver?: string, callerOwner?: string) => {
+      return resolveSymbol(files, currentFile, funcName, receiver, callerOwner);
+  }, [files]);
+
+  const startFlow = useCallback((steps: FlowStep[]) => {
+    setPlayingFlowId(null);
+    setFlowSync(null);
+    setIsSaveFlowOpen(false);
+    setFlowPath(steps);
+    setCurrentStepIndex(0);
+    setIsFlowPaused(false);
+    resumedAtRef.current = -1;
+    setIsPlayingFlow(true);
+    onFlowStateChange?.(true);
+    setSelectedFunction(null); // Clear selection to focus on flow
+  }, [onFlowStateChange]);
+
+  // Add initial prepare step for smooth zoom-out at start
+  const generateFlow = useCallback((start: FlowStart, limits: FlowLimits, choices: BranchChoices = {}): FlowStep[] => {
+    const pathSteps = generateFlowPath(files, start, choices, limits);
+    return pathSteps.length > 0 ? [{ type: 'prepare-return', file: start.file, func: start.name, funcLine: start.line }, ...pathSteps] : [];
+  }, [files]);
+
+  const handleTrackFlow = useCallback((name: string, path: string, type: 'func' | 'endpoint' = 'func', line?: number) => {
+    const start: FlowStart = { file: path, name, type, line };
+    const steps = generateFlow(start, flowLimits);
+    if (steps.length > 0) setPendingFlow({ title: name, start, steps });
+  }, [generateFlow, flowLimits]);
+
+  const handlePendingLimitsChange = (limits: FlowLimits) => {
+    setFlowLimits(limits);
+    if (pendingFlow?.start) setPendingFlow({ ...pendingFlow, steps: generateFlow(pendingFlow.start, limits) });
+  };
+
+  const playPendingFlow = () => {
+    if (!pendingFlow) return;
+    flowStartRef.current = pendingFlow.start;
+    startFlow(pendingFlow.steps);
+    setPendingFlow(null);
+  };
+
+  // Replay a recorded execution (.cpuprofile, V8 coverage or JSON-lines trace) instead of a guessed one
+  const handleImportTrace = useCallback(async (file: File) => {
+    try {
+      const steps = traceToFlowPath(files, parseRuntimeTrace(files, file.name, await file.text()));
+      if (steps.length === 0) {
+        alert(`Nothing recorded in ${file.name} ran in the loaded files`);
+        return;
       }
-      return null;
+      // Recorded flows have no branch points to re-generate from
+      setPendingFlow({ title: file.name, start: null, steps });
+    } catch (e) {
+      alert(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
   }, [files]);
 
-  const generateFlowPath = useCallback((startFile: string, startName: string, startType: 'func' | 'endpoint' = 'func') => {
-    const steps: FlowStep[] = [];
-    const visited = new Set<string>();
+  // lcov.info or Istanbul coverage-final.json, shaded onto the files it covers
+  const handleImportCoverage = useCallback(async (file: File) => {
+    try {
+      const report = parseCoverageReport(files, file.name, await file.text());
+      if (report.size === 0) {
+        alert(`None of the files in ${file.name} are loaded`);
+        return;
+      }
+      setCoverage(report);
+    } catch (e) {
+      alert(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [files]);
 
-    const traverse = (currentFile: string, currentFunc: string) => {
-      const key = `${currentFile}:${currentFunc}`;
-      if (visited.has(key)) return;
-      visited.add(key);
+  const onFileDragOver = useCallback((event: React.DragEvent) => {
+    if (event.dataTransfer.types.includes('Files')) event.preventDefault();
+  }, []);
 
-      const fileData = files.find(f => f.path === currentFile);
-      if (!fileData?.analysis) return;
-      const funcInfo = fileData.analysis.functions.find(f => f.name === currentFunc);
-      if (!funcInfo) return;
+  // Coverage reports are told apart from traces by their conventional names
+  const onFileDrop = useCallback((event: React.DragEvent) => {
+    const file = event.dataTransfer.files[0];
+    if (!file) return;
+    event.preventDefault();
+    if (/lcov|\.info$|coverage-final\.json$/i.test(file.name)) handleImportCoverage(file);
+    else handleImportTrace(file);
+  }, [handleImportCoverage, handleImportTrace]);
+
+  const currentStep = isPlayingFlow ? flowPath[currentStepIndex] : undefined;
+  const pendingBranch = isAskingAtBranches && currentStep?.type === 'branch' && !isBranchDecided(currentStep)
+    ? currentStep
+    : undefined;
+  const currentTrack = isPlayingFlow ? findTrack(flowPath, currentStepIndex) : undefined;
+  const playingFlow = playingFlowId ? savedFlows.find(f => f.id === playingFlowId) : undefined;
+  const currentNote = isPlayingFlow ? playingFlow?.notes[currentStepIndex] ?? '' : '';
+  const queuedTasks = isPlayingFlow ? findQueuedTasks(flowPath, currentStepIndex) : [];
+  const flowDepths = useMemo(() => callDepths(flowPath), [flowPath]);
+  const callStack = useMemo(
+    () => isPlayingFlow ? callStackAt(flowPath, currentStepIndex) : [],
+    [isPlayingFlow, flowPath, currentStepIndex]
+  );
 
-      // Execute line by line
-      for (let lineNum = funcInfo.startLine; lineNum <= funcInfo.endLine; lineNum++) {
-        const callAtLine = funcInfo.calls.find(c => c.line === lineNum);
-        
-        if (callAtLine) {
-          // Execute the line with the call
-          steps.push({ type: 'execute-line', file: currentFile, line: lineNum });
-          
-          // Find target file
-          const targetFile = files.find(f => 
-            f.analysis?.functions.some(func => func.name === callAtLine.name)
-          );
+  const sequenceDiagram = useMemo(
+    () => isPlayingFlow && isSequenceOpen ? buildSequenceDiagram(files, flowPath) : null,
+    [isPlayingFlow, isSequenceOpen, files, flowPath]
+  );
 
-          if (targetFile) {
-            // Animate edge with dot to target
-            steps.push({ 
-              type: 'animate-edge-with-dot', 
-              fromFile: currentFile, 
-              toFile: targetFile.path, 
-              fromLine: lineNum, 
-              toFunc: callAtLine.name 
-            });
+  const toggleBreakpoint = useCallback((path: string, line: number) => {
+    setBreakpoints(prev => {
+      const next = new Map(prev);
+      const lines = new Set(next.get(path));
+      if (lines.has(line)) lines.delete(line);
+      else lines.add(line);
+      if (lines.size > 0) next.set(path, lines);
+      else next.delete(path);
+      return next;
+    });
+  }, []);
 
-            // Recurse into called function
-            traverse(targetFile.path, callAtLine.name);
-            
-            // Prepare for return - smooth zoom out
-            steps.push({
-              type: 'prepare-return',
-              file: targetFile.path,
-              func: callAtLine.name
-            });
-            
-            // Return edge with dot back
-            steps.push({
-              type: 'return-edge-with-dot',
-              fromFile: targetFile.path,
-              toFile: currentFile,
-              fromFunc: callAtLine.name,
-              toLine: lineNum
-            });
-          }
-        } else {
-          // Regular line execution
-          steps.push({ type: 'execute-line', file: currentFile, line: lineNum });
-        }
+  // Jump to a step and hold there, with the highlighting it would have had when played through
+  const goToStep = useCallback((index: number) => {
+    if (index < 0 || index >= flowPath.length) return;
+    // Stepping a flow the room is following takes over driving it
+    if (flowSync === 'follow') setFlowSync('drive');
+    resumedAtRef.current = index;
+    setIsFlowPaused(true);
+    setExecutedLines(executedLinesAt(flowPath, index));
+    setCurrentStepIndex(index);
+  }, [flowPath, flowSync]);
+
+  const toggleFlowPause = useCallback(() => {
+    if (flowSync === 'follow') setFlowSync('drive');
+    if (isFlowPaused) resumedAtRef.current = currentStepIndex;
+    setIsFlowPaused(!isFlowPaused);
+  }, [isFlowPaused, currentStepIndex, flowSync]);
+
+  // First later step whose call depth satisfies isTarget; a breakpoint on the way stops it first
+  const stepUntil = useCallback((isTarget: (depth: number) => boolean) => {
+    for (let i = currentStepIndex + 1; i < flowPath.length; i++) {
+      const step = flowPath[i];
+      const isBreakpoint = step.type === 'execute-line' && breakpoints.get(step.file)?.has(step.line);
+      if (isTarget(flowDepths[i]) || isBreakpoint) {
+        goToStep(i);
+        return;
       }
-    };
+    }
+    goToStep(flowPath.length - 1);
+  }, [currentStepIndex, flowPath, flowDepths, breakpoints, goToStep]);
+
+  // Over a call: on to the next step back at this depth. Out: on to the caller.
+  const stepOver = useCallback(() => {
+    const depth = flowDepths[currentStepIndex];
+    stepUntil(d => d <= depth);
+  }, [flowDepths, currentStepIndex, stepUntil]);
+
+  const stepOut = useCallback(() => {
+    const depth = flowDepths[currentStepIndex];
+    stepUntil(d => d < depth);
+  }, [flowDepths, currentStepIndex, stepUntil]);
+
+  const panToLine = useCallback((file: string, line?: number) => {
+    const node = nodesRef.current.find(n => n.id === file);
+    if (!node) return;
+    const nodeWidth = node.width || 500;
+    const centerY = line !== undefined
+      ? node.position.y + (line - 1) * 20 + 100
+      : node.position.y + (node.height || 400) / 2;
+    setCenter(node.position.x + nodeWidth * 0.45, centerY, { duration: 500, zoom: 1.1 });
+  }, [setCenter]);
 
-    if (startType === 'endpoint') {
-        const fileData = files.find(f => f.path === startFile);
-        if (fileData?.analysis) {
-            const endpoint = fileData.analysis.endpoints.find(e => e.path === startName);
-            if (endpoint) {
-                // 1. Highlight Endpoint
-                steps.push({ type: 'highlight-endpoint', file: startFile, line: endpoint.line });
-                
-                // 2. Resolve Handler
-                const handlerLoc = resolveFunctionDefinition(fileData, endpoint.handler);
-                if (handlerLoc) {
-                    // 3. Animate Edge to Handler
-                    steps.push({
-                        type: 'animate-edge',
-                        fromFile: startFile,
-                        toFile: handlerLoc.file,
-                        fromLine: endpoint.line,
-                        toFunc: handlerLoc.func
-                    });
-                    
-                    // 4. Traverse Handler
-                    traverse(handlerLoc.file, handlerLoc.func);
-
-                    // 5. Highlight Returns in Handler (if any)
-                    const handlerFile = files.find(f => f.path === handlerLoc.file);
-                    const handlerFuncInfo = handlerFile?.analysis?.functions.find(f => f.name === handlerLoc.func);
-                    if (handlerFuncInfo && handlerFuncInfo.returns && handlerFuncInfo.returns.length > 0) {
-                        steps.push({
-                            type: 'highlight-return',
-                            file: handlerLoc.file,
-                            lines: handlerFuncInfo.returns
-                        });
-                    }
-
-                    // 6. Return Edge to Endpoint
-                    steps.push({
-                        type: 'return-edge',
-                        fromFile: handlerLoc.file,
-                        toFile: startFile,
-                        fromFunc: handlerLoc.func,
-                        toLine: endpoint.line
-                    });
-                    
-                    // 7. Highlight Endpoint again
-                    steps.push({ type: 'highlight-endpoint', file: startFile, line: endpoint.line });
-                }
-            }
-        }
+  // Replace the rest of the current track with the chosen option's continuation, or with one
+  // track per option for ALL_PATHS
+  const handleBranchChoice = useCallback((option: number) => {
+    const step = flowPath[currentStepIndex];
+    const start = flowStartRef.current;
+    if (step?.type !== 'branch' || !start) return;
+
+    const level = findTrack(flowPath, currentStepIndex)?.level ?? 0;
+    const trackEnd = flowPath.findIndex((s, i) => i > currentStepIndex && s.type === 'begin-track' && s.level <= level);
+    const rest = trackEnd === -1 ? [] : flowPath.slice(trackEnd);
+
+    let continuation: FlowStep[];
+    if (option === ALL_PATHS) {
+      const snapshot = Object.fromEntries([...executedLines].map(([file, lines]) => [file, [...lines]]));
+      continuation = step.options.flatMap((label, index): FlowStep[] => [
+        { type: 'begin-track', label, index, total: step.options.length, level: level + 1, executedLines: snapshot, queuedTasks: findQueuedTasks(flowPath, currentStepIndex) },
+        ...continueFromBranch(files, start, step, index, flowLimits),
+      ]);
     } else {
-        traverse(startFile, startName);
+      continuation = continueFromBranch(files, start, step, option, flowLimits);
     }
-    
-    return steps;
-  }, [files, resolveFunctionDefinition]);
 
-  const handleTrackFlow = useCallback((name: string, path: string, type: 'func' | 'endpoint' = 'func') => {
-    const pathSteps = generateFlowPath(path, name, type);
-    if (pathSteps.length > 0) {
-      // Add initial prepare step for smooth zoom-out at start
-      const stepsWithPrepare: FlowStep[] = [
-        { type: 'prepare-return', file: path, func: name },
-        ...pathSteps
-      ];
-      
-      setFlowPath(stepsWithPrepare);
-      setCurrentStepIndex(0);
-      setIsPlayingFlow(true);
-      onFlowStateChange?.(true);
-      setSelectedFunction(null); // Clear selection to focus on flow
-    }
-  }, [generateFlowPath, onFlowStateChange]);
+    const decided: FlowStep = { ...step, chosen: option, choices: { ...step.choices, [step.key]: option } };
+    setFlowPath([...flowPath.slice(0, currentStepIndex), decided, ...continuation, ...rest]);
+  }, [files, flowPath, currentStepIndex, executedLines, flowLimits]);
+
+  const flowCuts = useMemo(
+    () => flowPath.filter((s): s is Extract<FlowStep, { type: 'limit-reached' }> => s.type === 'limit-reached'),
+    [flowPath]
+  );
+  const pendingSummary = useMemo(() => pendingFlow && summarizeFlow(pendingFlow.steps), [pendingFlow]);
+
+  // Raise the limits that cut the flow and re-generate it with the branches chosen so far,
+  // resuming where it was first cut. Tracks of "all paths" collapse to their first path.
+  const handleExpandFlow = useCallback(() => {
+    const start = flowStartRef.current;
+    const firstCut = flowPath.findIndex(s => s.type === 'limit-reached');
+    if (!start || firstCut === -1) return;
+
+    const reasons = new Set(flowCuts.map(cut => cut.reason));
+    const limits: FlowLimits = {
+      maxDepth: flowLimits.maxDepth + (reasons.has('depth') ? DEFAULT_FLOW_LIMITS.maxDepth : 0),
+      maxRecursion: flowLimits.maxRecursion + (reasons.has('recursion') ? DEFAULT_FLOW_LIMITS.maxRecursion : 0),
+      maxSteps: flowLimits.maxSteps + (reasons.has('steps') ? DEFAULT_FLOW_LIMITS.maxSteps : 0),
+    };
+    const choices: BranchChoices = {};
+    flowPath.forEach(s => {
+      if (s.type === 'branch' && isBranchDecided(s)) choices[s.key] = Math.max(0, s.chosen);
+    });
+
+    const steps = generateFlow(start, limits, choices);
+    const index = Math.min(firstCut, steps.length - 1);
+    setFlowLimits(limits);
+    setFlowPath(steps);
+    resumedAtRef.current = index;
+    setExecutedLines(executedLinesAt(steps, index));
+    setCurrentStepIndex(index);
+  }, [flowPath, flowCuts, flowLimits, generateFlow]);
 
   // Animation Loop
   useEffect(() => {
     if (!isPlayingFlow || flowPath.length === 0) return;
 
     const step = flowPath[currentStepIndex];
+
+    // Hold on annotated steps of a saved flow until the note has been read
+    if (currentNote.trim() && !isFlowPaused && resumedAtRef.current !== currentStepIndex) {
+      setIsFlowPaused(true);
+      return;
+    }
+
+    // Paused playback still shows the step, then waits for the step controls
+    const advance = () => {
+      if (isFlowPaused) return;
+      if (currentStepIndex < flowPath.length - 1) {
+        setCurrentStepIndex(prev => prev + 1);
+      } else {
+        finishFlow();
+      }
+    };
     
     // Handle different step types
     if (step.type === 'execute-line') {
@@ -488,18 +719,40 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
         
         setCenter(centerX, centerY, { duration: 150 / flowSpeed, zoom: 1.1 });
       }
+
+      // Stop on a breakpoint, unless playback was just resumed from it
+      if (!isFlowPaused && breakpoints.get(step.file)?.has(step.line) && resumedAtRef.current !== currentStepIndex) {
+        setIsFlowPaused(true);
+        return;
+      }
       
       // Move to next step
       const timer = setTimeout(() => {
-        if (currentStepIndex < flowPath.length - 1) {
-          setCurrentStepIndex(prev => prev + 1);
-        } else {
-          finishFlow();
-        }
+        advance();
       }, 180 / flowSpeed);
       
       return () => clearTimeout(timer);
       
+    } else if (step.type === 'branch') {
+      const node = nodesRef.current.find(n => n.id === step.file);
+      if (node) {
+        const nodeWidth = node.width || 500;
+        setCenter(node.position.x + nodeWidth * 0.45, node.position.y + (step.line - 1) * 20 + 100, { duration: 150 / flowSpeed, zoom: 1.1 });
+      }
+      // Wait for the user to pick a path
+      if (isAskingAtBranches && !isBranchDecided(step)) return;
+
+    } else if (step.type === 'limit-reached') {
+      const node = nodesRef.current.find(n => n.id === step.file);
+      if (node) {
+        const nodeWidth = node.width || 500;
+        setCenter(node.position.x + nodeWidth * 0.45, node.position.y + (step.line - 1) * 20 + 100, { duration: 150 / flowSpeed, zoom: 1.1 });
+      }
+
+    } else if (step.type === 'begin-track') {
+      // Rewind the highlighting to where the paths split
+      setExecutedLines(new Map(Object.entries(step.executedLines).map(([file, lines]) => [file, new Set(lines)])));
+
     } else if (step.type === 'prepare-return') {
       // Smooth zoom out before returning or starting
       const node = nodesRef.current.find(n => n.id === step.file);
@@ -515,11 +768,7 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
       
       // Wait for zoom animation to complete with extra pause for smoothness
       const timer = setTimeout(() => {
-        if (currentStepIndex < flowPath.length - 1) {
-          setCurrentStepIndex(prev => prev + 1);
-        } else {
-          finishFlow();
-        }
+        advance();
       }, 700 / flowSpeed);
       
       return () => clearTimeout(timer);
@@ -549,10 +798,13 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
         // For calls, calculate target as function head; for returns, use center
         let targetCenterY = targetNode.position.y + targetHeight / 2;
         
-        if (!isReturn) {
+        if (!isReturn && step.type === 'animate-edge-with-dot' && step.toRouteLine) {
+          // Cross-tier calls land on the route declaration
+          targetCenterY = targetNode.position.y + (step.toRouteLine - 1) * 20 + 100;
+        } else if (!isReturn) {
           // For calls, aim for function head from the start
           const targetFileData = files.find(f => f.path === step.toFile);
-          const targetFunc = targetFileData?.analysis?.functions.find(f => f.name === step.toFunc);
+          const targetFunc = findFunction(targetFileData?.analysis?.functions || [], step.toFunc, step.type === 'animate-edge-with-dot' ? step.toFuncLine : undefined);
           if (targetFunc) {
             const firstLineOffset = (targetFunc.startLine - 1) * 20;
             targetCenterY = targetNode.position.y + firstLineOffset + 100;
@@ -597,20 +849,12 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
             if (isReturn) {
               // For returns, we're already at the right position, just continue
               setTimeout(() => {
-                if (currentStepIndex < flowPath.length - 1) {
-                  setCurrentStepIndex(prev => prev + 1);
-                } else {
-                  finishFlow();
-                }
+                advance();
               }, 300 / flowSpeed);
             } else {
               // For calls, we're already at function head, just pause briefly
               setTimeout(() => {
-                if (currentStepIndex < flowPath.length - 1) {
-                  setCurrentStepIndex(prev => prev + 1);
-                } else {
-                  finishFlow();
-                }
+                advance();
               }, 400 / flowSpeed);
             }
           }
@@ -628,18 +872,20 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
     
     // Fallback for other step types
     const timer = setTimeout(() => {
-      if (currentStepIndex < flowPath.length - 1) {
-        setCurrentStepIndex(prev => prev + 1);
-      } else {
-        finishFlow();
-      }
+      advance();
     }, 300 / flowSpeed);
     
     return () => clearTimeout(timer);
-  }, [isPlayingFlow, currentStepIndex, flowPath, flowSpeed]);
+  }, [isPlayingFlow, currentStepIndex, flowPath, flowSpeed, isAskingAtBranches, isFlowPaused, breakpoints, currentNote]);
   
   const finishFlow = () => {
+    if (flowSync === 'drive') setPlaybackInYjs(null);
+    if (flowSync === 'follow' && playback) leftPlaybackRef.current = `${playback.driver}:${playback.flowId}`;
+    setPlayingFlowId(null);
+    setFlowSync(null);
+    setIsSaveFlowOpen(false);
     setIsPlayingFlow(false);
+    setIsFlowPaused(false);
     onFlowStateChange?.(false);
     setCurrentStepIndex(0);
     setFlowPath([]);
@@ -647,6 +893,92 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
     setEdges(prev => prev.filter(e => !e.id.startsWith('flow-')));
   };
 
+  // Saved flows start with their branch points already decided, so nothing re-generates from start
+  const playSavedFlow = useCallback((flow: SavedFlow, forRoom: boolean) => {
+    flowStartRef.current = flow.start ?? null;
+    startFlow(flow.steps);
+    setPlayingFlowId(flow.id);
+    setFlowSync(forRoom && roomId ? 'drive' : null);
+    setIsSavedFlowsOpen(false);
+  }, [startFlow, roomId]);
+
+  const handleSaveFlow = () => {
+    const title = saveFlowTitle.trim();
+    if (!title) return;
+    const flow: SavedFlow = {
+      id: `flow-${Date.now()}`,
+      title,
+      steps: flowPath.map(step => step.type === 'branch' && !isBranchDecided(step)
+        ? { ...step, choices: { ...step.choices, [step.key]: step.chosen } }
+        : step),
+      notes: {},
+      start: flowStartRef.current ?? undefined,
+      createdBy: username,
+      createdAt: Date.now(),
+    };
+    setSavedFlows(prev => [...prev, flow]);
+    addFlowToYjs(flow);
+    setFlowPath(flow.steps);
+    setPlayingFlowId(flow.id);
+    setIsSaveFlowOpen(false);
+  };
+
+  const handleDeleteFlow = (id: string) => {
+    if (id === playingFlowId) finishFlow();
+    setSavedFlows(prev => prev.filter(f => f.id !== id));
+    removeFlowFromYjs(id);
+  };
+
+  const handleNoteChange = (note: string) => {
+    if (!playingFlow || (playingFlow.notes[currentStepIndex] ?? '') === note) return;
+    const notes = { ...playingFlow.notes, [currentStepIndex]: note };
+    if (!note.trim()) delete notes[currentStepIndex];
+    setSavedFlows(prev => prev.map(f => (f.id === playingFlow.id ? { ...f, notes } : f)));
+    updateFlowInYjs(playingFlow.id, { notes });
+  };
+
+  // Share where the driven playback is, so the rest of the room follows along
+  useEffect(() => {
+    if (flowSync !== 'drive' || !playingFlowId) return;
+    setPlaybackInYjs({ flowId: playingFlowId, stepIndex: currentStepIndex, isPaused: isFlowPaused, driverName: username });
+  }, [flowSync, playingFlowId, currentStepIndex, isFlowPaused, username, setPlaybackInYjs]);
+
+  // Follow someone else's playback: each of their steps is jumped to here, held paused. Flows
+  // played only on this screen aren't interrupted.
+  useEffect(() => {
+    if (!playback) {
+      leftPlaybackRef.current = null;
+      if (flowSync === 'follow') finishFlow();
+      return;
+    }
+    if (playback.driver === clientId || leftPlaybackRef.current === `${playback.driver}:${playback.flowId}`) return;
+    if (isPlayingFlow && flowSync === null) return;
+    const flow = savedFlows.find(f => f.id === playback.flowId);
+    if (!flow) return;
+
+    if (playingFlowId !== flow.id) {
+      flowStartRef.current = flow.start ?? null;
+      startFlow(flow.steps);
+      setPlayingFlowId(flow.id);
+    }
+    setFlowSync('follow');
+    const index = Math.min(playback.stepIndex, flow.steps.length - 1);
+    resumedAtRef.current = index;
+    setIsFlowPaused(true);
+    setExecutedLines(executedLinesAt(flow.steps, index));
+    setCurrentStepIndex(index);
+  }, [playback, clientId, savedFlows]);
+
+  // ?room=x&flow=id starts the saved flow once it has synced and the files are laid out
+  useEffect(() => {
+    if (autoStartedFlowRef.current || isPlayingFlow || !areNodesReady(nodes)) return;
+    const flowId = new URLSearchParams(window.location.search).get('flow');
+    const flow = flowId ? savedFlows.find(f => f.id === flowId) : undefined;
+    if (!flow) return;
+    autoStartedFlowRef.current = true;
+    playSavedFlow(flow, false);
+  }, [savedFlows, nodes, isPlayingFlow, playSavedFlow]);
+
   // Update Nodes and Edges based on current step
   useEffect(() => {
     if (!isPlayingFlow || flowPath.length === 0) {
@@ -679,22 +1011,41 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
       const sourceNode = currentNodes.find(n => n.id === step.fromFile);
       const targetNode = currentNodes.find(n => n.id === step.toFile);
       const isTargetRight = (sourceNode?.position.x || 0) < (targetNode?.position.x || 0);
+      // Calls within a file, recursion among them, loop round the left of the file
+      const isLoopBack = step.fromFile === step.toFile;
 
       const isReturn = step.type === 'return-edge-with-dot';
       
       let sourceHandle, targetHandle;
       let edgeId;
 
+      // Aliased imports are called under a different name than the definition
+      const callName = step.callName ?? (isReturn ? step.fromFunc : step.toFunc);
+
+      // Cross-tier steps attach to the route declaration instead of a function definition
+      const isCrossTier = step.type === 'animate-edge-with-dot' ? !!step.toRouteLine : !!step.fromRouteLine;
+
       if (isReturn) {
-         sourceHandle = `def-return-${step.fromFunc}-${isTargetRight ? 'right' : 'left'}`;
-         targetHandle = `call-return-${step.fromFunc}-${step.toLine}-${isTargetRight ? 'left' : 'right'}`;
+         sourceHandle = step.fromRouteLine
+           ? `route-out-${step.fromRouteLine}-${isTargetRight ? 'right' : 'left'}`
+           : `def-return-${step.fromFunc}-${isTargetRight ? 'right' : 'left'}`;
+         targetHandle = `call-return-${callName}-${step.toLine}-${isTargetRight ? 'left' : 'right'}`;
          edgeId = `flow-return-${step.fromFile}-${step.toFile}-${step.fromFunc}`;
       } else {
-         sourceHandle = `call-${step.toFunc}-${step.fromLine}-${isTargetRight ? 'right' : 'left'}`;
-         targetHandle = `def-${step.toFunc}-${isTargetRight ? 'left' : 'right'}`;
+         sourceHandle = `call-${callName}-${step.fromLine}-${isTargetRight ? 'right' : 'left'}`;
+         targetHandle = step.toRouteLine
+           ? `route-in-${step.toRouteLine}-${isTargetRight ? 'left' : 'right'}`
+           : `def-${step.toFunc}-${isTargetRight ? 'left' : 'right'}`;
          edgeId = `flow-call-${step.fromFile}-${step.toFile}-${step.toFunc}`;
       }
+      if (isLoopBack && !isCrossTier) {
+        sourceHandle = sourceHandle.replace(/-right$/, '-left');
+        targetHandle = targetHandle.replace(/-right$/, '-left');
+      }
       
+      const mode = step.type === 'animate-edge-with-dot' ? step.mode : undefined;
+      const color = isCrossTier ? '#fb923c' : isReturn ? '#e879f9' : FLOW_EDGE_COLORS[mode ?? 'sync'];
+
       setEdges(prev => {
         const filtered = prev.filter(e => !e.id.startsWith('flow-'));
         return [...filtered, {
@@ -705,14 +1056,20 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
           targetHandle,
           type: 'flowEdge',
           animated: false, 
-          data: { isReturning: isReturn, dotProgress },
+          data: {
+            isReturning: isReturn,
+            dotProgress,
+            label: mode === 'await' ? 'await' : step.type === 'animate-edge-with-dot' ? step.label : undefined,
+            dashed: mode === 'deferred' || mode === 'event',
+            loopBack: isLoopBack && !isCrossTier,
+          },
           style: { 
-              stroke: isReturn ? '#e879f9' : '#22d3ee',
+              stroke: color,
               strokeWidth: 3,
           }, 
           markerEnd: {
             type: MarkerType.ArrowClosed,
-            color: isReturn ? '#e879f9' : '#22d3ee',
+            color,
           },
         }];
       });
@@ -730,49 +1087,78 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
       const sourceFile = files.find(f => f.path === sourcePath);
       if (!sourceFile || !sourceFile.analysis) return [];
 
-      const targetFile = files.find(f => 
-        f.analysis?.functions.some(func => func.name === name)
-      );
+      const calls = sourceFile.analysis.functions.flatMap(f => f.calls.map(call => ({ call, owner: f.owner }))).filter(({ call }) => call.name === name);
+      
+      calls.forEach(({ call, owner }) => {
+        // HTTP and socket call sites link to the server side instead of a definition
+        const request = sourceFile.analysis!.requests?.find(r => r.line === call.line && r.callName === name);
+        if (request) {
+          matchRequest(files, request).forEach(target => {
+            const targetNode = currentNodes.find(n => n.id === target.file);
+            const isTargetRight = (sourceNode?.position.x || 0) < (targetNode?.position.x || 0);
+            const label = request.kind === 'socket' ? `emit ${request.target}` : `${request.method.toUpperCase()} ${request.target}`;
+
+            newEdges.push({
+              id: `edge-${sourcePath}-${target.file}-${name}-${call.line}-${target.line}`,
+              source: sourcePath,
+              target: target.file,
+              sourceHandle: `call-${name}-${call.line}-${isTargetRight ? 'right' : 'left'}`,
+              targetHandle: `route-in-${target.line}-${isTargetRight ? 'left' : 'right'}`,
+              type: 'crossTierEdge',
+              data: { label },
+              style: { stroke: '#fb923c', strokeWidth: 2, pointerEvents: 'none' },
+              markerEnd: {
+                type: MarkerType.ArrowClosed,
+                color: '#fb923c',
+              },
+            });
+          });
+          return;
+        }
+
+        // Each call site resolves separately: ns.fn() and fn() may target different modules
+        const target = resolveFunctionDefinition(sourceFile, name, call.receiver, owner);
+        if (!target) return;
 
-      if (targetFile) {
-        const targetNode = currentNodes.find(n => n.id === targetFile.path);
+        const targetNode = currentNodes.find(n => n.id === target.file);
         const isTargetRight = (sourceNode?.position.x || 0) < (targetNode?.position.x || 0);
 
-        const calls = sourceFile.analysis.functions.flatMap(f => f.calls).filter(c => c.name === name);
-        
-        calls.forEach(call => {
-          newEdges.push({
-            id: `edge-${sourcePath}-${targetFile.path}-${name}-${call.line}`,
-            source: sourcePath,
-            target: targetFile.path,
-            sourceHandle: `call-${name}-${call.line}-${isTargetRight ? 'right' : 'left'}`,
-            targetHandle: `def-${name}-${isTargetRight ? 'left' : 'right'}`,
-            animated: true,
-            style: { stroke: '#a855f7', strokeWidth: 2, pointerEvents: 'none' },
-            markerEnd: {
-              type: MarkerType.ArrowClosed,
-              color: '#a855f7',
-            },
-          });
+        newEdges.push({
+          id: `edge-${sourcePath}-${target.file}-${name}-${call.line}`,
+          source: sourcePath,
+          target: target.file,
+          sourceHandle: `call-${name}-${call.line}-${isTargetRight ? 'right' : 'left'}`,
+          targetHandle: `def-${target.func}-${isTargetRight ? 'left' : 'right'}`,
+          animated: true,
+          style: { stroke: '#a855f7', strokeWidth: 2, pointerEvents: 'none' },
+          markerEnd: {
+            type: MarkerType.ArrowClosed,
+            color: '#a855f7',
+          },
         });
-      }
+      });
     } else if (type === 'def') {
+       // sourcePath is the def file here
+       const defNode = currentNodes.find(n => n.id === sourcePath); 
+
        files.forEach(f => {
            if (!f.analysis) return;
-           const calls = f.analysis.functions.flatMap(func => func.calls).filter(c => c.name === name);
+           // Only call sites that actually resolve to this definition, under any local alias
+           const calls = f.analysis.functions.flatMap(func => func.calls.filter(c => {
+               const target = resolveFunctionDefinition(f, c.name, c.receiver, func.owner);
+               return target?.file === sourcePath && target.func === name;
+           }));
            
            if (calls.length > 0) {
                const callerNode = currentNodes.find(n => n.id === f.path);
-               // sourcePath is the def file here
-               const defNode = currentNodes.find(n => n.id === sourcePath); 
                const isDefRight = (callerNode?.position.x || 0) < (defNode?.position.x || 0);
 
                calls.forEach(call => {
                    newEdges.push({
-                       id: `edge-${f.path}-${sourcePath}-${name}-${call.line}`,
+                       id: `edge-${f.path}-${sourcePath}-${call.name}-${call.line}`,
                        source: f.path,
                        target: sourcePath,
-                       sourceHandle: `call-${name}-${call.line}-${isDefRight ? 'right' : 'left'}`,
+                       sourceHandle: `call-${call.name}-${call.line}-${isDefRight ? 'right' : 'left'}`,
                        targetHandle: `def-${name}-${isDefRight ? 'left' : 'right'}`,
                        animated: true,
                        style: { stroke: '#3b82f6', strokeWidth: 2, pointerEvents: 'none' },
@@ -786,43 +1172,124 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
        });
     }
     return newEdges;
-  }, [files]);
+  }, [files, resolveFunctionDefinition]);
+
 
 
+  const currentSearchHit = searchResults[currentResultIndex] as SearchHit | undefined;
+  const activeSearchHit = currentSearchHit?.type === 'line' ? currentSearchHit : undefined;
 
   const handleSearch = useCallback(() => {
-    if (!searchQuery.trim()) {
+    const uncovered = isUncoveredOnly && coverage ? findUncoveredFunctions(files, coverage) : null;
+    cancelUnfetchedSearch();
+    if (!searchQuery.trim() && !uncovered) {
       setSearchMessage('');
       setHighlightedFiles(new Set());
       setHighlightedFunctions(new Map());
+      setSearchLines(new Map());
       return;
     }
 
     // Search directly with user input (no parsing)
-    const searchTerm = searchQuery.trim().toLowerCase();
+    const query = searchQuery.trim();
+    const searchTerm = query.toLowerCase();
+    // "quoted" text is matched exactly; regexes and phrases only search file contents
+    const isPhrase = !isRegexSearch && query.length > 2 && query.startsWith('"') && query.endsWith('"');
     
-    if (!searchTerm) {
+    if (!searchTerm && !uncovered) {
       setSearchMessage('Please enter a search term');
       return;
     }
 
     // Search for both files and functions by default
-    const results = searchEngineRef.current.search(searchTerm, 'both');
+    let results: SearchResult = { files: [], functions: [] };
+    let lineMatches: ContentMatch[] = [];
+    if (query && !isRegexSearch && isStructuredQuery(query)) {
+      // kind:endpoint method:post, path:src/services AND NOT calls:fetch, ...
+      try {
+        const matches = runSearchQuery(files, parseSearchQuery(query));
+        results = {
+          files: matches.flatMap(m => m.type === 'file' ? [{ path: m.path, name: m.path.split('/').pop() || m.path, score: 0 }] : []),
+          functions: matches.flatMap(m => m.type === 'function' ? [{ name: m.name, file: m.path, line: m.line, score: 0 }] : []),
+        };
+        // Endpoints are highlighted by their declaration line
+        lineMatches = matches.flatMap(m => m.type === 'endpoint'
+          ? [{ file: m.path, line: m.line, column: 1, length: 0, snippet: m.label }]
+          : []);
+      } catch (e) {
+        setSearchMessage(e instanceof Error ? e.message : String(e));
+        setSearchResults([]);
+        return;
+      }
+    } else if (searchTerm && !isRegexSearch && !isPhrase) {
+      results = searchEngineRef.current.search(searchTerm, 'both', { nearPath: nearPathRef.current });
+    }
+
+    if (query && !uncovered && (isRegexSearch || !isStructuredQuery(query))) {
+      try {
+        lineMatches = searchEngineRef.current.searchContent(isPhrase ? query.slice(1, -1) : query, {
+          mode: isRegexSearch ? 'regex' : isPhrase ? 'phrase' : 'words',
+          caseSensitive: isCaseSensitive,
+        });
+      } catch (e) {
+        setSearchMessage(e instanceof Error ? e.message : String(e));
+        setSearchResults([]);
+        return;
+      }
+    }
+
+    // Files outside the selected segments: paths match now, contents once fetched. Their hits
+    // come after those on the canvas, so adding content hits doesn't move the current result.
+    const includesUnfetched = isSearchingUnfetched && unfetched.length > 0 && !!query && !uncovered
+      && (isRegexSearch || !isStructuredQuery(query));
+    const unfetchedPathHits: SearchHit[] = includesUnfetched && !isRegexSearch
+      ? searchUnfetchedPaths(query).map(path => ({ type: 'file', path, unfetched: true }))
+      : [];
+    const startUnfetchedContentSearch = () => {
+      if (!includesUnfetched) return;
+      searchUnfetchedContents(isPhrase ? query.slice(1, -1) : query, {
+        mode: isRegexSearch ? 'regex' : isPhrase ? 'phrase' : 'words',
+        caseSensitive: isCaseSensitive,
+      }, matches => setSearchResults(prev => [
+        ...prev.filter(hit => !(hit.unfetched && hit.type === 'line')),
+        ...matches.map((m): SearchHit => ({ type: 'line', path: m.file, line: m.line, column: m.column, snippet: m.snippet, unfetched: true })),
+      ]));
+    };
+
+    // Only functions none of whose lines ran; all of them without a search term
+    if (uncovered) {
+      const uncoveredKeys = new Set(uncovered.map(func => `${func.file}:${func.name}`));
+      results = {
+        files: [],
+        functions: searchTerm
+          ? results.functions.filter(func => uncoveredKeys.has(`${func.file}:${func.name}`))
+          : uncovered.map(func => ({ ...func, score: 0 })),
+      };
+    }
     
-    const totalResults = results.files.length + results.functions.length;
+    const totalResults = results.files.length + results.functions.length + lineMatches.length + unfetchedPathHits.length;
     
     if (totalResults === 0) {
-      setSearchMessage(`No matches found for "${searchTerm}"`);
+      setSearchMessage(searchTerm ? `No matches found for "${searchTerm}"` : 'No uncovered functions');
       setHighlightedFiles(new Set());
       setHighlightedFunctions(new Map());
+      setSearchLines(new Map());
       setSearchResults([]);
+      startUnfetchedContentSearch();
       return;
     }
 
     // Update highlighted files
-    const fileSet = new Set(results.files.map(f => f.path));
+    const fileSet = new Set([...results.files.map(f => f.path), ...lineMatches.map(m => m.file)]);
     setHighlightedFiles(fileSet);
 
+    const lineMap = new Map<string, Set<number>>();
+    lineMatches.forEach(match => {
+      if (!lineMap.has(match.file)) lineMap.set(match.file, new Set());
+      lineMap.get(match.file)!.add(match.line);
+    });
+    setSearchLines(lineMap);
+
     // Update highlighted functions
     const funcMap = new Map<string, string[]>();
     results.functions.forEach(func => {
@@ -833,55 +1300,49 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
     });
     setHighlightedFunctions(funcMap);
 
-    // Store results for navigation (combine files and functions)
-    const allResults: Array<{type: 'file' | 'function', path: string, functionName?: string, line?: number}> = [];
-    
-    // Add file results
-    results.files.forEach(f => {
-      allResults.push({ type: 'file', path: f.path });
-    });
-    
-    // Add function results
-    results.functions.forEach(func => {
-      allResults.push({ 
-        type: 'function', 
-        path: func.file, 
+    // Store results for navigation (files and functions by score)
+    const allResults: SearchHit[] = [
+      ...results.files.map((f): SearchHit => ({ type: 'file', path: f.path, breakdown: f.breakdown })),
+      ...results.functions.map((func): SearchHit => ({
+        type: 'function',
+        path: func.file,
         functionName: func.name,
-        line: func.line 
-      });
+        line: func.line,
+        breakdown: func.breakdown,
+      })),
+    ].sort(byScore);
+
+    // Add line results from file contents
+    lineMatches.forEach(match => {
+      allResults.push({ type: 'line', path: match.file, line: match.line, column: match.column, snippet: match.snippet });
     });
+    allResults.push(...unfetchedPathHits);
     
     setSearchResults(allResults);
     setCurrentResultIndex(0);
+    startUnfetchedContentSearch();
 
     // Set message with count
-    const fileCount = results.files.length;
-    const funcCount = results.functions.length;
-    const totalCount = fileCount + funcCount;
-    
-    if (totalCount === 1) {
-      setSearchMessage('Found 1 result');
-    } else {
-      setSearchMessage(`Found ${totalCount} results`);
-    }
+    setSearchMessage(foundMessage(allResults.length));
 
     // Navigate to first result
     if (allResults.length > 0) {
       navigateToResult(0, allResults);
     }
-  }, [searchQuery, setCenter]);
+  }, [searchQuery, setCenter, isUncoveredOnly, coverage, files, isCaseSensitive, isRegexSearch, isSearchingUnfetched, unfetched, searchUnfetchedPaths, searchUnfetchedContents, cancelUnfetchedSearch]);
 
-  const navigateToResult = useCallback((index: number, results: Array<{type: 'file' | 'function', path: string, functionName?: string, line?: number}>) => {
+  const navigateToResult = useCallback((index: number, results: SearchHit[]) => {
     const result = results[index];
     const targetNode = nodesRef.current.find(n => n.type === 'fileNode' && n.id === result.path);
+    nearPathRef.current = result.path;
     
     if (targetNode) {
       const nodeWidth = targetNode.width || 500;
       const centerX = targetNode.position.x + nodeWidth * 0.45;
       
       let centerY;
-      if (result.type === 'function' && result.line) {
-        // For functions, focus on the function's line
+      if (result.type !== 'file' && result.line) {
+        // For functions and content hits, focus on the line
         const lineOffset = (result.line - 1) * 20; // Approximate line height
         centerY = targetNode.position.y + lineOffset + 100;
       } else {
@@ -908,13 +1369,43 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
   }, [currentResultIndex, searchResults, navigateToResult]);
 
   const handleClearSearch = useCallback(() => {
+    cancelUnfetchedSearch();
     setSearchQuery('');
     setSearchMessage('');
     setHighlightedFiles(new Set());
     setHighlightedFunctions(new Map());
+    setSearchLines(new Map());
     setSearchResults([]);
     setCurrentResultIndex(0);
-  }, []);
+  }, [cancelUnfetchedSearch]);
+
+  // Add the file of an unfetched hit to the canvas; its hits then highlight like any other
+  const handleOpenUnfetchedHit = useCallback(async (hit: SearchHit) => {
+    try {
+      await openUnfetchedFile(hit.path);
+    } catch (e) {
+      console.error(`Failed to add ${hit.path}`, e);
+      alert(`Failed to add ${hit.path}: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    const lines = searchResults.filter(h => h.path === hit.path && h.type === 'line').map(h => h.line!);
+    setSearchResults(prev => prev.map(h => (h.path === hit.path ? { ...h, unfetched: undefined } : h)));
+    setHighlightedFiles(prev => new Set(prev).add(hit.path));
+    if (lines.length > 0) setSearchLines(prev => new Map(prev).set(hit.path, new Set(lines)));
+    focusAfterOpenRef.current = hit;
+  }, [openUnfetchedFile, searchResults]);
+
+  useEffect(() => {
+    const hit = focusAfterOpenRef.current;
+    if (!hit || !nodes.some(n => n.type === 'fileNode' && n.id === hit.path && n.width)) return;
+    focusAfterOpenRef.current = null;
+    navigateToResult(0, [hit]);
+  }, [nodes, navigateToResult]);
+
+  // Content hits in unfetched files arrive after the search has set its message
+  useEffect(() => {
+    if (searchResults.some(hit => hit.unfetched && hit.type === 'line')) setSearchMessage(foundMessage(searchResults.length));
+  }, [searchResults]);
 
   // Voice command handler
   const handleVoiceCommand = useCallback((transcript: string) => {
@@ -950,13 +1441,14 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
     
     // Execute search with voice input
     const searchTerm = transcript.trim().toLowerCase();
-    const results = searchEngineRef.current.search(searchTerm, 'both');
+    const results = searchEngineRef.current.search(searchTerm, 'both', { nearPath: nearPathRef.current });
     const totalResults = results.files.length + results.functions.length;
     
     if (totalResults === 0) {
       setSearchMessage(`No matches found for "${transcript}"`);
       setHighlightedFiles(new Set());
       setHighlightedFunctions(new Map());
+      setSearchLines(new Map());
       setSearchResults([]);
       setTimeout(() => setVoiceStatus('ready'), 500);
       return;
@@ -974,16 +1466,17 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
       funcMap.get(func.file)!.push(func.name);
     });
     setHighlightedFunctions(funcMap);
+    setSearchLines(new Map());
     
-    const allResults: Array<{type: 'file' | 'function', path: string, functionName?: string, line?: number}> = [];
-    results.files.forEach(f => allResults.push({ type: 'file', path: f.path }));
-    results.functions.forEach(func => allResults.push({ type: 'function', path: func.file, functionName: func.name, line: func.line }));
+    const allResults: SearchHit[] = [
+      ...results.files.map((f): SearchHit => ({ type: 'file', path: f.path, breakdown: f.breakdown })),
+      ...results.functions.map((func): SearchHit => ({ type: 'function', path: func.file, functionName: func.name, line: func.line, breakdown: func.breakdown })),
+    ].sort(byScore);
     
     setSearchResults(allResults);
     setCurrentResultIndex(0);
     
-    const totalCount = totalResults;
-    setSearchMessage(totalCount === 1 ? 'Found 1 result' : `Found ${totalCount} results`);
+    setSearchMessage(foundMessage(totalResults));
     
     if (allResults.length > 0) {
       navigateToResult(0, allResults);
@@ -1040,6 +1533,7 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
 
   const handleClick = useCallback((name: string, type: 'def' | 'call', sourcePath: string) => {
     setSelectedFunction(name);
+    nearPathRef.current = sourcePath;
     const newEdges = createEdges(name, type, sourcePath);
     setEdges(prev => [...prev.filter(e => !e.id.startsWith('edge-')), ...newEdges]);
   }, [createEdges, setEdges]);
@@ -1098,9 +1592,56 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
     }
   }, [setCenter]);
 
+  // Handle entry click from usage report or type graph - navigate to the line in its file node
+  const handleNavigateToLine = useCallback((path: string, line: number) => {
+    const targetNode = nodesRef.current.find(n => n.type === 'fileNode' && n.id === path);
+    if (targetNode) {
+      const nodeWidth = targetNode.width || 500;
+      const centerX = targetNode.position.x + nodeWidth * 0.45;
+      const centerY = targetNode.position.y + (line - 1) * 20 + 100; // Approximate line height
+
+      setHighlightedFiles(new Set([path]));
+      setTimeout(() => setHighlightedFiles(new Set()), 2000);
+
+      setCenter(centerX, centerY, { duration: 500, zoom: 1.1 });
+    }
+  }, [setCenter]);
+
+  // Download an OpenAPI skeleton of every detected endpoint, with saved endpoint explanations as descriptions
+  const handleExportOpenApi = useCallback((format: OpenApiFormat) => {
+    const title = githubContext ? `${githubContext.owner}/${githubContext.repo}` : 'API';
+    const spec = buildOpenApiDocument(files, useExplanationStore.getState().endpointExplanations, title);
+    const blob = new Blob([serializeOpenApiDocument(spec, format)], {
+      type: format === 'json' ? 'application/json' : 'application/yaml',
+    });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `openapi.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setIsApiExportMenuOpen(false);
+  }, [files, githubContext]);
+
   // Track previous files for incremental index updates
   const prevFilesRef = useRef<FileStructure[]>([]);
 
+  indexCacheScopeRef.current = githubContext
+    ? githubCacheScope(githubContext.owner, githubContext.repo)
+    : roomId ? roomCacheScope(roomId) : null;
+
+  const scheduleIndexSave = useCallback(() => {
+    clearTimeout(indexSaveTimerRef.current);
+    indexSaveTimerRef.current = setTimeout(() => {
+      const scope = indexCacheScopeRef.current;
+      // A save during a restore would record the index being replaced
+      if (scope && !isRestoringIndexRef.current) saveSearchIndex(scope, searchEngineRef.current, prevFilesRef.current);
+    }, INDEX_SAVE_DELAY_MS);
+  }, []);
+
+  useEffect(() => () => clearTimeout(indexSaveTimerRef.current), []);
+
   useEffect(() => {
     if (files.length === 0) {
       prevFilesRef.current = [];
@@ -1109,11 +1650,12 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
 
     // Incremental search index updates
     const prevFiles = prevFilesRef.current;
+    const isFirstLoad = prevFiles.length === 0;
     const prevFilePaths = new Set(prevFiles.map(f => f.path));
     const currentFilePaths = new Set(files.map(f => f.path));
 
-    // Detect new files (added)
-    const addedFiles = files.filter(f => !prevFilePaths.has(f.path));
+    // Detect new files (added); on the first load the index is set up at once below
+    const addedFiles = isFirstLoad ? [] : files.filter(f => !prevFilePaths.has(f.path));
     addedFiles.forEach(file => {
       searchEngineRef.current.addFileToIndex(file);
     });
@@ -1138,9 +1680,18 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
       searchEngineRef.current.updateFileInIndex(file);
     });
 
-    // If this is the first load (no previous files), build entire index
-    if (prevFiles.length === 0) {
+    // If this is the first load (no previous files), restore the index saved for the repo, or build it
+    const scope = indexCacheScopeRef.current;
+    if (isFirstLoad && scope) {
+      isRestoringIndexRef.current = true;
+      restoreSearchIndex(scope, searchEngineRef.current, () => prevFilesRef.current).finally(() => {
+        isRestoringIndexRef.current = false;
+        scheduleIndexSave();
+      });
+    } else if (isFirstLoad) {
       searchEngineRef.current.buildIndex(files);
+    } else if (addedFiles.length + removedFilePaths.length + updatedFiles.length > 0) {
+      scheduleIndexSave();
     }
 
     // Update the ref for next comparison
@@ -1149,6 +1700,7 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
     setNodes((prevNodes) => {
       const existingFileNodes = prevNodes.filter(n => n.type === 'fileNode');
       const drawingNodes = prevNodes.filter(n => n.type === 'drawingNode');
+      const typeNodes = prevNodes.filter(n => n.type === 'typeNode');
 
       // Helper function to check if two nodes overlap
       const checkOverlap = (pos1: {x: number, y: number}, pos2: {x: number, y: number}, minDistance: number = 800) => {
@@ -1229,14 +1781,72 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
             selectedFunction: selectedFunction,
             onContentChange: onFileUpdate,
             isHighlighted: highlightedFiles.has(file.path),
-            highlightedFunctions: highlightedFunctions.get(file.path) || []
+            highlightedFunctions: highlightedFunctions.get(file.path) || [],
+            searchLines: searchLines.get(file.path),
+            activeSearchLine: activeSearchHit?.path === file.path ? activeSearchHit.line : null,
+            showHeatmap: isHeatmapOn,
+            coverage: coverage?.get(file.path),
+            breakpoints: breakpoints.get(file.path),
+            onToggleBreakpoint: toggleBreakpoint
           },
         };
       });
       
-      return [...newFileNodes, ...drawingNodes];
+      return [...newFileNodes, ...typeNodes, ...drawingNodes];
+    });
+  }, [files, setNodes, handleHover, handleLeave, handleClick, handleTrackFlow, selectedFunction, onFileUpdate, highlightedFiles, highlightedFunctions, searchLines, activeSearchHit, isHeatmapOn, coverage, breakpoints, toggleBreakpoint, scheduleIndexSave]);
+
+  // Type graph: type nodes laid out to the right of the file graph
+  useEffect(() => {
+    if (!isTypeGraphOpen) {
+      setNodes(prev => prev.filter(n => n.type !== 'typeNode'));
+      setEdges(prev => prev.filter(e => !e.id.startsWith('type-')));
+      return;
+    }
+
+    const graph = buildTypeGraph(files);
+    const fileNodes = nodesRef.current.filter(n => n.type === 'fileNode');
+    const origin = {
+      x: fileNodes.reduce((max, n) => Math.max(max, n.position.x + (n.width || 500)), 0) + 400,
+      y: fileNodes.reduce((min, n) => Math.min(min, n.position.y), Infinity),
+    };
+    const positions = layoutTypeGraph(graph, { x: origin.x, y: Number.isFinite(origin.y) ? origin.y : 0 });
+
+    setNodes(prev => {
+      const existing = new Map(prev.filter(n => n.type === 'typeNode').map(n => [n.id, n]));
+      const typeNodes = graph.nodes.map(node => ({
+        id: `type-${node.id}`,
+        type: 'typeNode',
+        // Keep positions of types the user already moved
+        position: existing.get(`type-${node.id}`)?.position ?? positions.get(node.id) ?? origin,
+        style: { width: TYPE_NODE_WIDTH, zIndex: 5 },
+        data: { file: node.file, type: node.type, onNavigate: handleNavigateToLine },
+      }));
+      return [...prev.filter(n => n.type !== 'typeNode'), ...typeNodes];
     });
-  }, [files, setNodes, handleHover, handleLeave, handleClick, handleTrackFlow, selectedFunction, onFileUpdate, highlightedFiles, highlightedFunctions]);
+
+    const edgeStyles = {
+      extends: { stroke: '#60a5fa', strokeWidth: 2 },
+      implements: { stroke: '#34d399', strokeWidth: 2, strokeDasharray: '6 4' },
+      reference: { stroke: '#6b7280', strokeWidth: 1.5 },
+    };
+    const typeEdges: Edge[] = graph.edges.map(edge => ({
+      id: `type-${edge.source}->${edge.target}:${edge.kind}`,
+      source: `type-${edge.source}`,
+      target: `type-${edge.target}`,
+      sourceHandle: 'type-out',
+      targetHandle: 'type-in',
+      label: edge.kind === 'reference' ? edge.fields.join(', ') || undefined : edge.kind,
+      labelStyle: { fill: '#d1d5db', fontSize: 10, fontFamily: 'monospace' },
+      labelBgStyle: { fill: '#1e1e1e' },
+      style: { ...edgeStyles[edge.kind], pointerEvents: 'none' },
+      markerEnd: {
+        type: edge.kind === 'reference' ? MarkerType.Arrow : MarkerType.ArrowClosed,
+        color: edgeStyles[edge.kind].stroke,
+      },
+    }));
+    setEdges(prev => [...prev.filter(e => !e.id.startsWith('type-')), ...typeEdges]);
+  }, [isTypeGraphOpen, files, setNodes, setEdges, handleNavigateToLine]);
 
   return (
     <div 
@@ -1335,6 +1945,154 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
             <LinkIcon size={18} />
             <span className="hidden md:inline">Share</span>
           </button>
+          <button
+            onClick={() => setIsUsageReportOpen(!isUsageReportOpen)}
+            className={`px-3 md:px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 ${
+              isUsageReportOpen
+                ? 'bg-amber-600 border-amber-500 text-white'
+                : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+            }`}
+            title="Unused exports and uncalled functions"
+          >
+            <ClipboardList size={18} />
+            <span className="hidden md:inline">Report</span>
+          </button>
+          <button
+            onClick={() => setIsTypeGraphOpen(!isTypeGraphOpen)}
+            className={`px-3 md:px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 ${
+              isTypeGraphOpen
+                ? 'bg-sky-600 border-sky-500 text-white'
+                : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+            }`}
+            title="Classes, interfaces and types with their relationships"
+          >
+            <Boxes size={18} />
+            <span className="hidden md:inline">Types</span>
+          </button>
+          <button
+            onClick={() => setIsHeatmapOn(!isHeatmapOn)}
+            className={`px-3 md:px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 ${
+              isHeatmapOn
+                ? 'bg-orange-600 border-orange-500 text-white'
+                : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+            }`}
+            title="Shade function bodies by cyclomatic complexity"
+          >
+            <Thermometer size={18} />
+            <span className="hidden md:inline">Heatmap</span>
+          </button>
+          <button
+            onClick={() => setIsHotspotsOpen(!isHotspotsOpen)}
+            className={`px-3 md:px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 ${
+              isHotspotsOpen
+                ? 'bg-red-600 border-red-500 text-white'
+                : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+            }`}
+            title="Most complex and most changed functions"
+          >
+            <Flame size={18} />
+            <span className="hidden md:inline">Hotspots</span>
+          </button>
+          <button
+            onClick={() => setIsSavedFlowsOpen(!isSavedFlowsOpen)}
+            className={`px-3 md:px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 ${
+              isSavedFlowsOpen
+                ? 'bg-cyan-600 border-cyan-500 text-white'
+                : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+            }`}
+            title="Flows saved in this room"
+          >
+            <Bookmark size={18} />
+            <span className="hidden md:inline">Flows</span>
+          </button>
+          <button
+            onClick={() => traceInputRef.current?.click()}
+            className="px-3 md:px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"
+            title="Replay a recorded run: .cpuprofile, V8 coverage JSON or JSON lines of {file, func, line, event}. Files can also be dropped on the canvas."
+          >
+            <Activity size={18} />
+            <span className="hidden md:inline">Trace</span>
+          </button>
+          <div className="flex items-center">
+            <button
+              onClick={() => coverageInputRef.current?.click()}
+              className={`px-3 md:px-4 py-2 border transition-colors flex items-center gap-2 ${
+                coverage
+                  ? 'rounded-l-lg bg-emerald-600 border-emerald-500 text-white'
+                  : 'rounded-lg bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+              }`}
+              title="Shade lines from an lcov.info or coverage-final.json report"
+            >
+              <ShieldCheck size={18} />
+              <span className="hidden md:inline">Coverage</span>
+            </button>
+            {coverage && (
+              <button
+                onClick={() => {
+                  setCoverage(null);
+                  setIsUncoveredOnly(false);
+                }}
+                className="px-2 py-2 rounded-r-lg border border-l-0 border-emerald-500 bg-emerald-700 text-white hover:bg-emerald-800 transition-colors"
+                title="Clear coverage"
+              >
+                <X size={18} />
+              </button>
+            )}
+          </div>
+          <input
+            ref={coverageInputRef}
+            type="file"
+            accept=".info,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImportCoverage(file);
+              e.target.value = '';
+            }}
+          />
+          <input
+            ref={traceInputRef}
+            type="file"
+            accept=".cpuprofile,.json,.jsonl,.ndjson"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImportTrace(file);
+              e.target.value = '';
+            }}
+          />
+          <div className="relative" onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => setIsApiExportMenuOpen(!isApiExportMenuOpen)}
+              className={`px-3 md:px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 ${
+                isApiExportMenuOpen
+                  ? 'bg-green-600 border-green-500 text-white'
+                  : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+              }`}
+              title="Export detected endpoints as OpenAPI"
+            >
+              <FileJson size={18} />
+              <span className="hidden md:inline">OpenAPI</span>
+              <ChevronDown size={14} className={`transition-transform ${isApiExportMenuOpen ? 'rotate-180' : ''}`} />
+            </button>
+            {isApiExportMenuOpen && (
+              <div className="absolute top-full left-0 mt-1 bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden z-50 min-w-[180px] animate-in fade-in slide-in-from-top-1 duration-150">
+                {(['yaml', 'json'] as const).map((format, index) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExportOpenApi(format)}
+                    className={`w-full px-4 py-2.5 flex items-center gap-3 hover:bg-gray-700 transition-colors text-left ${index > 0 ? 'border-t border-gray-700' : ''}`}
+                  >
+                    <FileJson size={16} className="text-green-400" />
+                    <div>
+                      <div className="text-sm text-white">openapi.{format}</div>
+                      <div className="text-xs text-gray-500">OpenAPI 3.1 {format.toUpperCase()}</div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           {githubContext && (
             <button
               onClick={() => setIsGitVisualizerOpen(true)}
@@ -1417,6 +2175,71 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
             userSelect: 'none'
           }}
         >
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => goToStep(currentStepIndex - 1)}
+              disabled={currentStepIndex === 0}
+              className="p-1.5 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+              title="Step back"
+            >
+              <StepBack size={16} />
+            </button>
+            <button
+              onClick={toggleFlowPause}
+              className={`p-1.5 rounded transition-colors ${isFlowPaused ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+              title={isFlowPaused ? 'Resume' : 'Pause'}
+            >
+              {isFlowPaused ? <Play size={16} /> : <Pause size={16} />}
+            </button>
+            <button
+              onClick={() => goToStep(currentStepIndex + 1)}
+              disabled={currentStepIndex >= flowPath.length - 1}
+              className="p-1.5 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+              title="Step into: the next step"
+            >
+              <StepForward size={16} />
+            </button>
+            <button
+              onClick={stepOver}
+              className="p-1.5 rounded text-gray-300 hover:bg-gray-700 transition-colors"
+              title="Step over: run the current call through"
+            >
+              <Redo2 size={16} />
+            </button>
+            <button
+              onClick={stepOut}
+              className="p-1.5 rounded text-gray-300 hover:bg-gray-700 transition-colors"
+              title="Step out: on to the caller"
+            >
+              <ArrowUpFromLine size={16} />
+            </button>
+            <button
+              onClick={() => setIsCallStackOpen(!isCallStackOpen)}
+              className={`p-1.5 rounded transition-colors ${isCallStackOpen ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+              title="Call stack"
+            >
+              <Layers size={16} />
+            </button>
+            <button
+              onClick={() => setIsSequenceOpen(!isSequenceOpen)}
+              className={`p-1.5 rounded transition-colors ${isSequenceOpen ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+              title="Sequence diagram of the flow, exportable as Mermaid or PlantUML"
+            >
+              <Workflow size={16} />
+            </button>
+            {!playingFlowId && (
+              <button
+                onClick={() => {
+                  setSaveFlowTitle(flowStartRef.current?.name ?? '');
+                  setIsSaveFlowOpen(!isSaveFlowOpen);
+                }}
+                className={`p-1.5 rounded transition-colors ${isSaveFlowOpen ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                title={roomId ? 'Save this flow into the room' : 'Save this flow'}
+              >
+                <Bookmark size={16} />
+              </button>
+            )}
+          </div>
           <span className="text-white text-sm">Flow Speed:</span>
           <input 
             type="range" 
@@ -1428,6 +2251,38 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
             className="w-32 accent-blue-500 cursor-pointer"
           />
           <span className="text-white text-sm font-mono">{flowSpeed}x</span>
+          <button
+            onClick={() => setIsAskingAtBranches(!isAskingAtBranches)}
+            className={`flex items-center gap-1.5 px-2 py-1 rounded text-sm transition-colors ${isAskingAtBranches ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+            title="Pause at if/else, switch, loops and try/catch to choose a path; otherwise the first path is taken"
+          >
+            <Split size={14} />
+            Ask at branches
+          </button>
+          {flowCuts.length > 0 && flowStartRef.current && !playingFlowId && (
+            <button
+              onClick={handleExpandFlow}
+              className="flex items-center gap-1.5 px-2 py-1 rounded text-sm text-amber-300 border border-amber-500/60 hover:bg-amber-500/20 transition-colors"
+              title={`Cut by ${[...new Set(flowCuts.map(cut => limitReasonLabels[cut.reason]))].join(', ')}; raise the limits and continue from the first cut`}
+            >
+              <ChevronsDown size={14} />
+              Expand further
+            </button>
+          )}
+          {playingFlow && (
+            <span
+              className="text-xs text-cyan-300 max-w-[200px] truncate flex items-center gap-1"
+              title={flowSync === 'follow' && playback ? `Following ${playback.driverName}; step or pause to take over` : playingFlow.title}
+            >
+              {flowSync && <Users size={12} className="shrink-0" />}
+              {flowSync === 'follow' && playback ? `${playback.driverName}: ` : ''}{playingFlow.title}
+            </span>
+          )}
+          {currentTrack && (
+            <span className="text-xs text-amber-300 font-mono max-w-[200px] truncate" title={currentTrack.label}>
+              Path {currentTrack.index + 1}/{currentTrack.total}: {currentTrack.label}
+            </span>
+          )}
           <button
             onClick={finishFlow}
             className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-sm cursor-pointer"
@@ -1437,6 +2292,129 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
         </div>
       )}
 
+      {isPlayingFlow && isSaveFlowOpen && (
+        <div className="absolute z-50 right-4 top-36 md:top-20 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 flex flex-col gap-2" style={{ userSelect: 'none' }}>
+          <div className="flex items-center gap-2 text-sm text-gray-200">
+            <Bookmark size={14} />
+            Save flow
+          </div>
+          <input
+            autoFocus
+            value={saveFlowTitle}
+            onChange={(e) => setSaveFlowTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSaveFlow();
+              if (e.key === 'Escape') setIsSaveFlowOpen(false);
+            }}
+            placeholder="Title"
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={handleSaveFlow}
+            disabled={!saveFlowTitle.trim()}
+            className="px-2 py-1.5 rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white text-xs transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      {isPlayingFlow && playingFlow && (
+        <div className="absolute z-50 right-4 top-36 md:top-20 w-72 bg-gray-800 border border-cyan-500/60 rounded-lg shadow-xl p-3 flex flex-col gap-2">
+          <div className="flex items-center gap-2 text-sm text-cyan-300">
+            <StickyNote size={14} />
+            Step {currentStepIndex + 1} of {flowPath.length}
+          </div>
+          <textarea
+            key={`${playingFlow.id}-${currentStepIndex}-${currentNote}`}
+            defaultValue={currentNote}
+            onBlur={(e) => handleNoteChange(e.target.value)}
+            placeholder="Note for this step; playback stops on steps with notes"
+            rows={3}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-100 outline-none focus:border-cyan-500 resize-y"
+          />
+        </div>
+      )}
+
+      {isPlayingFlow && pendingBranch && (
+        <div className="absolute z-50 right-4 top-36 md:top-20 w-72 bg-gray-800 border border-amber-500/60 rounded-lg shadow-xl p-3 flex flex-col gap-2" style={{ userSelect: 'none' }}>
+          <div className="flex items-center gap-2 text-sm text-amber-300">
+            <Split size={14} />
+            <span className="truncate" title={`${pendingBranch.file}:${pendingBranch.line}`}>
+              Branch at {pendingBranch.file.split('/').pop()}:{pendingBranch.line}
+            </span>
+          </div>
+          {pendingBranch.options.map((label, index) => (
+            <button
+              key={index}
+              onClick={() => handleBranchChoice(index)}
+              className="text-left px-2 py-1.5 rounded bg-gray-700 hover:bg-blue-600 text-gray-100 text-xs font-mono truncate transition-colors"
+              title={label}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={() => handleBranchChoice(ALL_PATHS)}
+            className="px-2 py-1.5 rounded border border-amber-500/60 text-amber-300 hover:bg-amber-500/20 text-xs transition-colors"
+            title="Play each path in turn as a separate track"
+          >
+            All paths
+          </button>
+        </div>
+      )}
+
+      {isPlayingFlow && isCallStackOpen && callStack.length > 0 && (
+        <div className="absolute z-50 left-16 top-36 md:top-20 w-64 max-h-[50vh] overflow-y-auto bg-gray-800/95 border border-gray-700 rounded-lg shadow-xl p-3 flex flex-col gap-1 text-xs" style={{ userSelect: 'none' }}>
+          <div className="flex items-center gap-2 text-sm text-gray-200 mb-1">
+            <Layers size={14} />
+            Call stack
+          </div>
+          {[...callStack].reverse().map((frame, index) => (
+            <button
+              key={`${callStack.length - index}-${frame.file}-${frame.func}`}
+              onClick={() => panToLine(frame.file, frame.line)}
+              className={`text-left px-2 py-1 rounded font-mono transition-colors ${
+                index === 0 ? 'bg-blue-600/30 text-blue-100' : 'text-gray-300 hover:bg-gray-700'
+              }`}
+              title={`${frame.file}${frame.line !== undefined ? `:${frame.line}` : ''}`}
+            >
+              <div className="truncate">{frame.func}</div>
+              <div className="truncate text-[10px] text-gray-500">
+                {frame.file.split('/').pop()}{frame.line !== undefined ? `:${frame.line}` : ''}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isPlayingFlow && queuedTasks.length > 0 && (
+        <div className="absolute z-50 left-16 bottom-4 w-64 bg-gray-800/95 border border-violet-500/60 rounded-lg shadow-xl p-3 flex flex-col gap-2 text-xs" style={{ userSelect: 'none' }}>
+          <div className="flex items-center gap-2 text-sm text-violet-300">
+            <Clock size={14} />
+            Queued callbacks
+          </div>
+          {(['microtask', 'task'] as const).map(queue => {
+            const queued = queuedTasks.filter(t => t.queue === queue);
+            if (queued.length === 0) return null;
+            return (
+              <div key={queue} className="flex flex-col gap-1">
+                <span className="text-gray-400 uppercase tracking-wide text-[10px]">{queue === 'microtask' ? 'Microtasks' : 'Tasks'}</span>
+                {queued.map(task => (
+                  <span
+                    key={task.id}
+                    className="px-2 py-1 rounded bg-gray-700 text-gray-100 font-mono truncate"
+                    title={`${task.file}:${task.line}`}
+                  >
+                    {task.label}
+                  </span>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {isDrawing && (
         <div className="absolute right-4 top-1/2 -translate-y-1/2 z-10 bg-gray-800 border border-gray-700 rounded-lg p-1.5 flex flex-col gap-2 shadow-xl max-h-[90vh] overflow-y-auto scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
             {/* Drawing Tools - Vertical */}
@@ -1574,6 +2552,8 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
         onNodeClick={onNodeClick}
         onNodeMouseEnter={onNodeMouseEnter}
         onNodeDragStop={onNodeDragStop}
+        onDragOver={onFileDragOver}
+        onDrop={onFileDrop}
         panOnDrag={isSpacePressed || tool === 'hand' ? true : (isDrawing && tool !== 'select' ? [1, 2] : true)}
         selectionOnDrag={!isDrawing && !isSpacePressed && tool !== 'hand'}
         panOnScroll={true}
@@ -1643,6 +2623,7 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
         onFileClick={handleTreeFileClick}
         isOpen={isTreeViewOpen}
         onClose={() => setIsTreeViewOpen(false)}
+        coverage={coverage}
       />
 
       {/* Fullscreen Tree View */}
@@ -1653,6 +2634,53 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
         onClose={() => setIsFullscreenTreeOpen(false)}
       />
 
+      {/* Usage Report */}
+      <UsageReportPanel
+        files={files}
+        isOpen={isUsageReportOpen}
+        onClose={() => setIsUsageReportOpen(false)}
+        onNavigate={handleNavigateToLine}
+      />
+
+      {/* Complexity Hotspots */}
+      {sequenceDiagram && (
+        <SequenceDiagramPanel
+          diagram={sequenceDiagram}
+          currentStepIndex={currentStepIndex}
+          onClose={() => setIsSequenceOpen(false)}
+          onGoToStep={goToStep}
+        />
+      )}
+
+      {pendingFlow && pendingSummary && (
+        <FlowSummaryDialog
+          title={pendingFlow.title}
+          summary={pendingSummary}
+          limits={pendingFlow.start ? flowLimits : null}
+          flowSpeed={flowSpeed}
+          onLimitsChange={handlePendingLimitsChange}
+          onPlay={playPendingFlow}
+          onCancel={() => setPendingFlow(null)}
+        />
+      )}
+
+      <SavedFlowsPanel
+        flows={savedFlows}
+        roomId={roomId}
+        playingFlowId={playingFlowId}
+        isOpen={isSavedFlowsOpen}
+        onClose={() => setIsSavedFlowsOpen(false)}
+        onPlay={playSavedFlow}
+        onDelete={handleDeleteFlow}
+      />
+
+      <HotspotsPanel
+        files={files}
+        isOpen={isHotspotsOpen}
+        onClose={() => setIsHotspotsOpen(false)}
+        onNavigate={handleNavigateToLine}
+      />
+
       {/* Search Input Bar with Tabs */}
       <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center">
         {/* Tab Switcher - Compact */}
@@ -1679,6 +2707,59 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
           </button>
         </div>
 
+        {(unfetchedProgress || unfetchedError) && (
+          <div className="mb-2 max-w-[600px] w-[90vw] bg-gray-900/95 border border-gray-700 rounded px-3 py-1.5 text-xs flex items-center gap-2">
+            <CloudDownload size={14} className="text-sky-400 shrink-0" />
+            {unfetchedProgress ? (
+              <>
+                <span className="text-gray-300 shrink-0">
+                  {unfetchedProgress.rateLimitedUntil
+                    ? `Waiting for the GitHub rate limit until ${new Date(unfetchedProgress.rateLimitedUntil).toLocaleTimeString()}`
+                    : `Searching unfetched files ${unfetchedProgress.done} / ${unfetchedProgress.total}${
+                      unfetchedProgress.skipped ? ` (${unfetchedProgress.skipped} failed)` : ''}`}
+                </span>
+                <div className="flex-1 h-1 bg-gray-700 rounded overflow-hidden">
+                  <div className="h-full bg-sky-500 transition-all" style={{ width: `${(unfetchedProgress.done / unfetchedProgress.total) * 100}%` }} />
+                </div>
+                <button
+                  onClick={cancelUnfetchedSearch}
+                  className="p-0.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors"
+                  title="Stop fetching; matches so far stay"
+                >
+                  <X size={14} />
+                </button>
+              </>
+            ) : (
+              <span className="text-amber-300 truncate" title={unfetchedError!}>{unfetchedError}</span>
+            )}
+          </div>
+        )}
+
+        {currentSearchHit && (currentSearchHit.type === 'line' || currentSearchHit.unfetched) && (
+          <div
+            className="mb-2 max-w-[600px] w-[90vw] bg-gray-900/95 border border-gray-700 rounded px-3 py-1.5 text-xs font-mono flex items-center gap-2"
+            title={currentSearchHit.type === 'line' ? `${currentSearchHit.path}:${currentSearchHit.line}:${currentSearchHit.column}` : currentSearchHit.path}
+          >
+            {currentSearchHit.type === 'line' ? (
+              <span className="text-amber-300 shrink-0">
+                {currentSearchHit.path.split('/').pop()}:{currentSearchHit.line}:{currentSearchHit.column}
+              </span>
+            ) : (
+              <span className="text-sky-300 truncate">{currentSearchHit.path}</span>
+            )}
+            <span className="text-gray-300 truncate">{currentSearchHit.snippet ?? 'not on the canvas'}</span>
+            {currentSearchHit.unfetched && (
+              <button
+                onClick={() => handleOpenUnfetchedHit(currentSearchHit)}
+                className="ml-auto shrink-0 px-2 py-0.5 rounded bg-sky-600 hover:bg-sky-700 text-white font-sans transition-colors"
+                title="Fetch this file from GitHub and add it to the canvas"
+              >
+                Add to canvas
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Content based on mode */}
         {inputMode === 'text' ? (
           <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-2xl flex items-center gap-2 p-2 w-[90vw] max-w-[600px]">
@@ -1692,9 +2773,54 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
                   handleSearch();
                 }
               }}
-              placeholder='Search files or functions: "login", "auth", "getLaunches"...'
+              placeholder={isRegexSearch
+                ? 'Regular expression over file contents: process\\.env\\.\\w+'
+                : 'Search: login, "exact phrase", kind:endpoint method:post, path:src AND complexity:>10...'}
               className="flex-1 bg-transparent text-white text-sm outline-none placeholder-gray-500"
             />
+            <button
+              onClick={() => setIsCaseSensitive(!isCaseSensitive)}
+              className={`px-1.5 py-1 rounded text-xs font-mono transition-colors ${
+                isCaseSensitive ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+              }`}
+              title="Match case in file contents"
+            >
+              Aa
+            </button>
+            <button
+              onClick={() => setIsRegexSearch(!isRegexSearch)}
+              className={`px-1.5 py-1 rounded text-xs font-mono transition-colors ${
+                isRegexSearch ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+              }`}
+              title="Search file contents with a regular expression"
+            >
+              .*
+            </button>
+            {unfetched.length > 0 && (
+              <button
+                onClick={() => {
+                  if (isSearchingUnfetched) cancelUnfetchedSearch();
+                  setIsSearchingUnfetched(!isSearchingUnfetched);
+                }}
+                className={`px-1.5 py-1 rounded transition-colors ${
+                  isSearchingUnfetched ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+                }`}
+                title={`Also search the ${unfetched.length} files of unselected segments; their contents are fetched from GitHub in the background`}
+              >
+                <CloudDownload size={14} />
+              </button>
+            )}
+            {coverage && (
+              <button
+                onClick={() => setIsUncoveredOnly(!isUncoveredOnly)}
+                className={`px-2 py-1 rounded text-xs whitespace-nowrap transition-colors ${
+                  isUncoveredOnly ? 'bg-red-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+                }`}
+                title="Only functions none of whose lines ran; search with an empty query to list them all"
+              >
+                Uncovered
+              </button>
+            )}
             {searchQuery && (
               <button
                 onClick={handleClearSearch}
@@ -1719,7 +2845,7 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
                 >
                   <ChevronLeft size={18} />
                 </button>
-                <span className="text-xs text-gray-400 px-2">
+                <span className="text-xs text-gray-400 px-2" title={scoreTooltip(searchResults[currentResultIndex])}>
                   {currentResultIndex + 1} / {searchResults.length}
                 </span>
                 <button
@@ -1792,7 +2918,7 @@ const CodeCanvasContent: React.FC<CodeCanvasProps> = ({ files, onBack, onFileUpd
                     >
                       <ChevronLeft size={18} />
                     </button>
-                    <span className="text-xs text-gray-400 px-2">
+                    <span className="text-xs text-gray-400 px-2" title={scoreTooltip(searchResults[currentResultIndex])}>
                       {currentResultIndex + 1} / {searchResults.length}
                     </span>
                     <button
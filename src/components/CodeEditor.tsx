@@ -4,6 +4,7 @@ import { UploadScreen } from './UploadScreen';
 import { CodeCanvas } from './CodeCanvas';
 import { ConflictResolver } from './ConflictResolver';
 import { SegmentSwitcher } from './SegmentSwitcher';
+import { getLanguage } from '../utils/languageRegistry';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
 import { Download, Github, Loader2, GitPullRequest } from 'lucide-react';
@@ -191,16 +192,10 @@ export function CodeEditor() {
             };
           } else {
             const name = update.path.split('/').pop() || update.path;
-            const ext = name.split('.').pop();
-            const language = ext === 'ts' || ext === 'tsx' ? 'typescript' : 
-                             ext === 'js' || ext === 'jsx' ? 'javascript' :
-                             ext === 'css' ? 'css' :
-                             ext === 'html' ? 'html' : 'plaintext';
-
             newFiles.push({
               path: update.path,
               name,
-              language,
+              language: getLanguage(name),
               content: update.content,
               lastSyncedContent: update.content
             });
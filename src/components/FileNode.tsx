@@ -1,19 +1,18 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { Handle, Position, NodeProps, useReactFlow, useNodeId } from 'reactflow';
 import { FileCode, Edit2, Save, X, Play, Sparkles, BookOpen, Code, Loader2 } from 'lucide-react';
-import { FileAnalysis } from '../utils/codeAnalyzer';
+import { CallInfo, FileAnalysis } from '../utils/codeAnalyzer';
+import { endpointLabel } from '../utils/endpointDetectors';
 import { explainCode } from '../services/gemini';
 import { useExplanationStore } from '../store/useExplanationStore';
 import { useFileStore } from '../store/useFileStore';
 import { summarizeFunctions, FunctionSummary } from '../services/functionSummarizer';
+import { complexityLevel, ComplexityLevel } from '../services/hotspots';
+import { FileCoverage, LineCoverage } from '../services/coverageReport';
 import Editor from 'react-simple-code-editor';
+import { isAnalyzableLanguage } from '../utils/languageRegistry';
+import { getGrammar, highlight } from '../utils/syntaxHighlight';
 import Prism from 'prismjs';
-import 'prismjs/components/prism-typescript';
-import 'prismjs/components/prism-javascript';
-import 'prismjs/components/prism-jsx';
-import 'prismjs/components/prism-tsx';
-import 'prismjs/components/prism-json';
-import 'prismjs/components/prism-css';
 import 'prismjs/themes/prism-tomorrow.css'; // Import a dark theme for syntax highlighting
 
 interface FileNodeData {
@@ -26,7 +25,7 @@ interface FileNodeData {
   onLeave: () => void;
   onClick: (name: string, type: 'def' | 'call', path: string) => void;
   onContentChange: (path: string, newContent: string) => void;
-  onTrackFlow: (name: string, path: string, type?: 'func' | 'endpoint') => void;
+  onTrackFlow: (name: string, path: string, type?: 'func' | 'endpoint', line?: number) => void;
   selectedFunction?: string | null;
   activeFlowLine?: number | null;
   activeFlowFunction?: string | null;
@@ -34,6 +33,12 @@ interface FileNodeData {
   executedLines?: Set<number>;
   isHighlighted?: boolean;
   highlightedFunctions?: string[];
+  searchLines?: Set<number>; // Lines matching a content search
+  activeSearchLine?: number | null; // The one the search is on
+  showHeatmap?: boolean;
+  coverage?: FileCoverage;
+  breakpoints?: Set<number>;
+  onToggleBreakpoint?: (path: string, line: number) => void;
 }
 
 const tokenColors: Record<string, string> = {
@@ -53,6 +58,35 @@ const tokenColors: Record<string, string> = {
   'console': '#9cdcfe',
 };
 
+const heatmapClasses: Record<ComplexityLevel, string> = {
+  low: 'bg-green-500/5 border-l-2 border-green-500/40',
+  moderate: 'bg-yellow-500/10 border-l-2 border-yellow-500/50',
+  high: 'bg-orange-500/15 border-l-2 border-orange-500/60',
+  'very-high': 'bg-red-500/20 border-l-2 border-red-500/70',
+};
+
+const coverageClasses: Record<LineCoverage, string> = {
+  covered: 'bg-green-500/10 border-l-2 border-green-500/50',
+  partial: 'bg-yellow-500/10 border-l-2 border-yellow-500/60',
+  uncovered: 'bg-red-500/10 border-l-2 border-red-500/50',
+};
+
+// A file's line coverage, also shown in the file tree
+export const CoverageBadge: React.FC<{ percent: number }> = ({ percent }) => (
+  <span
+    className={`px-1.5 py-0.5 rounded border text-[10px] font-mono flex-shrink-0 ${
+      percent >= 80
+        ? 'bg-green-500/20 text-green-300 border-green-500/40'
+        : percent >= 50
+          ? 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40'
+          : 'bg-red-500/20 text-red-300 border-red-500/40'
+    }`}
+    title="Lines covered by tests"
+  >
+    {percent}%
+  </span>
+);
+
 const flattenTokens = (token: string | Prism.Token, parentType?: string): { text: string, type: string }[] => {
   if (typeof token === 'string') {
     return [{ text: token, type: parentType || 'plain' }];
@@ -84,7 +118,7 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
   
   // Determine effective view mode (local override or global)
   const viewMode = localViewMode ?? cachedRepoData?.viewMode ?? 'full';
-  const isCodeFile = ['typescript', 'javascript'].includes(data.language);
+  const isCodeFile = isAnalyzableLanguage(data.language);
   
   const nodeId = useNodeId();
   const { setNodes, getNode } = useReactFlow();
@@ -162,11 +196,7 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
     setIsEditing(false);
   };
 
-  const highlightCode = (code: string) => {
-    const lang = data.language === 'typescript' ? 'typescript' : data.language;
-    const grammar = Prism.languages[lang] || Prism.languages.javascript;
-    return Prism.highlight(code, grammar, lang);
-  };
+  const highlightCode = (code: string) => highlight(code, data.language);
 
   const renderSegment = (text: string, type: string, lineNumber: number, key: string) => {
     const trimmedText = text.trim();
@@ -175,7 +205,9 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
     
     const isFuncDef = data.analysis?.functions.find(f => f.name === trimmedText && f.startLine === lineNumber);
     const isFuncCall = data.analysis?.functions.flatMap(f => f.calls).find(c => c.name === trimmedText && c.line === lineNumber);
-    const isEndpoint = data.analysis?.endpoints?.find(e => e.path === cleanText && e.line === lineNumber);
+    // Several endpoints can share a token: router.route('/x').get(h).post(h2)
+    const tokenEndpoints = data.analysis?.endpoints?.filter(e => e.anchor === cleanText && e.line === lineNumber) || [];
+    const isEndpoint = tokenEndpoints[0];
 
     if (isEndpoint) {
         const isSelected = data.selectedFunction === cleanText;
@@ -184,7 +216,11 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
         return (
             <span key={key} className="relative inline-block">
               <span 
-                style={{ color: isActiveFlow ? '#22d3ee' : (tokenColors['string'] || '#ce9178') }}
+                style={{ color: isActiveFlow ? '#22d3ee' : (tokenColors[type] || tokenColors['string'] || '#ce9178') }}
+                title={tokenEndpoints.map(e => {
+                  const middleware = [...(e.mountedMiddleware || []), ...e.middleware].map(m => m.name);
+                  return `${endpointLabel(e)} (${e.framework})${middleware.length ? ` via ${middleware.join(' → ')}` : ''}`;
+                }).join('\n')}
                 className={`cursor-pointer rounded transition-all duration-500 relative z-10 ${
                   (isSelected || hoveredFunction === cleanText)
                     ? 'bg-green-500 text-white shadow-[0_0_0_2px_#22c55e,0_0_10px_rgba(34,197,94,0.8)]' 
@@ -211,19 +247,23 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
               </span>
               {isSelected && (
                 <div className="absolute -top-8 left-1/2 -translate-x-1/2 flex gap-1 z-50 animate-in fade-in slide-in-from-bottom-2">
+                    {tokenEndpoints.map(endpoint => (
+                      <button
+                        key={endpointLabel(endpoint)}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          data.onTrackFlow(endpointLabel(endpoint), data.path, 'endpoint');
+                        }}
+                        className="bg-gradient-to-r from-gray-900 to-black hover:from-black hover:to-gray-900 text-white border border-gray-700 text-xs font-bold px-3 py-1.5 rounded-full shadow-xl flex items-center gap-2 whitespace-nowrap"
+                      >
+                        <Play size={10} fill="currentColor" className="text-white" />
+                        {tokenEndpoints.length > 1 ? `Track ${endpoint.method.toUpperCase()}` : 'Track API'}
+                      </button>
+                    ))}
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        data.onTrackFlow(cleanText, data.path, 'endpoint');
-                      }}
-                      className="bg-gradient-to-r from-gray-900 to-black hover:from-black hover:to-gray-900 text-white border border-gray-700 text-xs font-bold px-3 py-1.5 rounded-full shadow-xl flex items-center gap-2 whitespace-nowrap"
-                    >
-                      <Play size={10} fill="currentColor" className="text-white" /> Track API
-                    </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleExplain('endpoint', cleanText);
+                        handleExplain('endpoint', endpointLabel(isEndpoint));
                       }}
                       className="bg-gradient-to-r from-purple-900 to-black hover:from-black hover:to-purple-900 text-white border border-purple-700 text-xs font-bold px-3 py-1.5 rounded-full shadow-xl flex items-center gap-2 whitespace-nowrap"
                     >
@@ -242,6 +282,7 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
         <span key={key} className="relative inline-block">
           <span 
             style={{ color: isActiveFlow ? '#22d3ee' : (tokenColors['function'] || '#dcdcaa') }}
+            title={`${isFuncDef.owner ? `${isFuncDef.owner}.${isFuncDef.name} (${isFuncDef.kind})\n` : ''}Complexity ${isFuncDef.metrics.cyclomatic} · nesting ${isFuncDef.metrics.nesting} · ${isFuncDef.metrics.params} params · ${isFuncDef.metrics.lines} lines`}
             className={`cursor-pointer rounded transition-all duration-500 relative z-10 ${
               isSearchHighlighted
                 ? 'bg-yellow-500/30 ring-2 ring-yellow-500 text-yellow-200 font-bold'
@@ -272,7 +313,7 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    data.onTrackFlow(trimmedText, data.path);
+                    data.onTrackFlow(trimmedText, data.path, 'func', isFuncDef.startLine);
                   }}
                   className="bg-gradient-to-r from-gray-900 to-black hover:from-black hover:to-gray-900 text-white border border-gray-700 text-xs font-bold px-3 py-1.5 rounded-full shadow-xl flex items-center gap-2 whitespace-nowrap"
                 >
@@ -329,8 +370,7 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
 
   const lines = useMemo(() => {
     if (isEditing) return [];
-    const grammar = Prism.languages[data.language === 'typescript' ? 'typescript' : data.language] || Prism.languages.javascript;
-    const tokens = Prism.tokenize(data.content, grammar);
+    const tokens = Prism.tokenize(data.content, getGrammar(data.language).grammar);
     const segments = tokens.flatMap(t => flattenTokens(t));
     
     const result: React.ReactNode[][] = [];
@@ -370,6 +410,18 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
     return lineNumber >= func.startLine && lineNumber <= func.endLine;
   };
 
+  // Complexity of the innermost function covering each line
+  const lineComplexity = useMemo(() => {
+    const complexity = new Map<number, number>();
+    if (!data.showHeatmap || !data.analysis) return complexity;
+    [...data.analysis.functions]
+      .sort((a, b) => (b.endLine - b.startLine) - (a.endLine - a.startLine))
+      .forEach(func => {
+        for (let line = func.startLine; line <= func.endLine; line++) complexity.set(line, func.metrics.cyclomatic);
+      });
+    return complexity;
+  }, [data.showHeatmap, data.analysis]);
+
   useEffect(() => {
     if (data.activeFlowLine && resizeRef.current) {
       // Scroll to line logic could go here if we had a ref to the container
@@ -385,6 +437,16 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
     const defs = data.analysis.functions.filter(f => f.startLine === lineNumber);
     const calls = data.analysis.functions.flatMap(f => f.calls).filter(c => c.line === lineNumber);
     const endpoints = data.analysis.endpoints?.filter(e => e.line === lineNumber) || [];
+    const socketHandlers = data.analysis.socketHandlers?.filter(h => h.line === lineNumber) || [];
+    // Client requests arrive at the route or listener declaration
+    const isRouteLine = endpoints.length > 0 || socketHandlers.length > 0;
+    // Middleware is referenced where the route or mount declares it, which may be another line
+    const middleware = [
+      ...(data.analysis.endpoints || []).flatMap(e => e.middleware),
+      ...(data.analysis.mounts || []).flatMap(m => m.middleware),
+    ]
+      .filter(m => m.line === lineNumber)
+      .filter((m, index, all) => all.findIndex(other => other.name === m.name) === index);
     
     return (
       <>
@@ -446,8 +508,64 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
             />
           </React.Fragment>
         ))}
-        {endpoints.map(e => (
-          <React.Fragment key={`endpoint-${e.method}-${e.path}`}>
+        {middleware.map((m: CallInfo) => (
+          <React.Fragment key={`middleware-${m.name}-${m.line}`}>
+            <Handle 
+              type="source" 
+              position={Position.Left} 
+              id={`call-${m.name}-${m.line}-left`} 
+              style={{ top: '50%', left: 0, transform: 'translate(-50%, -50%)', opacity: 0, width: 1, height: 1, pointerEvents: 'none' }} 
+            />
+            <Handle 
+              type="source" 
+              position={Position.Right} 
+              id={`call-${m.name}-${m.line}-right`} 
+              style={{ top: '50%', right: 0, transform: 'translate(50%, -50%)', opacity: 0, width: 1, height: 1, pointerEvents: 'none' }} 
+            />
+            <Handle 
+              type="target" 
+              position={Position.Left} 
+              id={`call-return-${m.name}-${m.line}-left`} 
+              style={{ top: '50%', left: 0, transform: 'translate(-50%, -50%)', opacity: 0, width: 1, height: 1, pointerEvents: 'none' }} 
+            />
+            <Handle 
+              type="target" 
+              position={Position.Right} 
+              id={`call-return-${m.name}-${m.line}-right`} 
+              style={{ top: '50%', right: 0, transform: 'translate(50%, -50%)', opacity: 0, width: 1, height: 1, pointerEvents: 'none' }} 
+            />
+          </React.Fragment>
+        ))}
+        {isRouteLine && (
+          <>
+            <Handle 
+              type="target" 
+              position={Position.Left} 
+              id={`route-in-${lineNumber}-left`} 
+              style={{ top: '50%', left: 0, transform: 'translate(-50%, -50%)', opacity: 0, width: 1, height: 1, pointerEvents: 'none' }} 
+            />
+            <Handle 
+              type="target" 
+              position={Position.Right} 
+              id={`route-in-${lineNumber}-right`} 
+              style={{ top: '50%', right: 0, transform: 'translate(50%, -50%)', opacity: 0, width: 1, height: 1, pointerEvents: 'none' }} 
+            />
+            <Handle 
+              type="source" 
+              position={Position.Left} 
+              id={`route-out-${lineNumber}-left`} 
+              style={{ top: '50%', left: 0, transform: 'translate(-50%, -50%)', opacity: 0, width: 1, height: 1, pointerEvents: 'none' }} 
+            />
+            <Handle 
+              type="source" 
+              position={Position.Right} 
+              id={`route-out-${lineNumber}-right`} 
+              style={{ top: '50%', right: 0, transform: 'translate(50%, -50%)', opacity: 0, width: 1, height: 1, pointerEvents: 'none' }} 
+            />
+          </>
+        )}
+        {[...endpoints, ...socketHandlers].filter((e, index, all) => all.findIndex(other => other.handler === e.handler) === index).map(e => (
+          <React.Fragment key={`endpoint-${e.handler}-${e.line}`}>
             {/* Source Handles for calling the handler */}
             <Handle 
               type="source" 
@@ -496,20 +614,20 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
             context = `Function: ${targetName} in ${data.path}`;
         }
       } else if (type === 'endpoint' && targetName && data.analysis) {
-         const endpoint = data.analysis.endpoints?.find(e => e.path === targetName);
+         const endpoint = data.analysis.endpoints?.find(e => endpointLabel(e) === targetName);
          
          if (endpoint) {
              const func = data.analysis.functions.find(f => f.name === endpoint.handler);
              if (func) {
                 const lines = data.content.split('\n');
                 codeToExplain = lines.slice(func.startLine - 1, func.endLine).join('\n');
-                context = `Endpoint: ${endpoint.method} ${endpoint.path} (Handler: ${endpoint.handler})`;
+                context = `Endpoint: ${endpointLabel(endpoint)} (Handler: ${endpoint.handler})`;
              } else {
                 const lines = data.content.split('\n');
                 const start = Math.max(0, endpoint.line - 5);
                 const end = Math.min(lines.length, endpoint.line + 20);
                 codeToExplain = lines.slice(start, end).join('\n');
-                context = `Endpoint: ${endpoint.method} ${endpoint.path}`;
+                context = `Endpoint: ${endpointLabel(endpoint)}`;
              }
          }
       }
@@ -521,6 +639,10 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
       // or just call openExplanation again with the result.
       useExplanationStore.getState().setContent(explanation);
       useExplanationStore.getState().setIsLoading(false);
+      // Kept for the OpenAPI export; explainCode reports failures as text rather than throwing
+      if (type === 'endpoint' && targetName && !explanation.startsWith('**Error generating explanation')) {
+        useExplanationStore.getState().saveEndpointExplanation(`${data.path}#${targetName}`, explanation);
+      }
     } catch (error) {
       useExplanationStore.getState().setContent('Failed to generate explanation. Please check your API key and try again.');
       useExplanationStore.getState().setIsLoading(false);
@@ -552,6 +674,7 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
             <span className="text-gray-300 text-sm font-mono truncate" title={data.path}>
               {data.path}
             </span>
+            {data.coverage && <CoverageBadge percent={data.coverage.percent} />}
             {/* Diagnostic indicators */}
           </div>
           <div className="flex items-center gap-2">
@@ -666,6 +789,10 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
                 const isFlowLine = data.activeFlowLine === lineNumber;
                 const isReturnLine = data.activeReturnLines?.includes(lineNumber);
                 const isFlowFunc = isLineInHighlightedFunction(i);
+                const heat = lineComplexity.get(lineNumber);
+                const lineCoverage = data.coverage?.lines[lineNumber];
+                const isActiveSearchLine = data.activeSearchLine === lineNumber;
+                const isSearchLine = data.searchLines?.has(lineNumber);
                 
                 // Check if this line is part of a highlighted function body
                 const isInHighlightedFunction = data.highlightedFunctions && data.highlightedFunctions.length > 0 && 
@@ -677,8 +804,8 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
                 
                 const endpointOnLine = data.analysis?.endpoints?.find(e => e.line === lineNumber);
                 const isEndpointLine = endpointOnLine && (
-                    hoveredFunction === endpointOnLine.path || 
-                    data.selectedFunction === endpointOnLine.path
+                    hoveredFunction === endpointOnLine.anchor || 
+                    data.selectedFunction === endpointOnLine.anchor
                 );
                 
                 return (
@@ -694,15 +821,32 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
                           ? 'bg-purple-500/20 border-l-2 border-purple-400'
                           : isEndpointLine
                             ? 'bg-green-500/10 border-l-2 border-green-500/30'
-                            : isInHighlightedFunction
-                              ? 'bg-blue-500/25 border-l-4 border-blue-500'
-                              : isFlowFunc 
-                                ? 'bg-blue-500/10 shadow-[0_0_15px_rgba(59,130,246,0.1)]' 
-                                : ''
+                            : isActiveSearchLine
+                              ? 'bg-amber-500/35 border-l-4 border-amber-400'
+                              : isSearchLine
+                                ? 'bg-amber-500/15 border-l-2 border-amber-500/60'
+                                : isInHighlightedFunction
+                                  ? 'bg-blue-500/25 border-l-4 border-blue-500'
+                                  : isFlowFunc 
+                                    ? 'bg-blue-500/10 shadow-[0_0_15px_rgba(59,130,246,0.1)]' 
+                                    : lineCoverage
+                                      ? coverageClasses[lineCoverage]
+                                      : heat !== undefined
+                                        ? heatmapClasses[complexityLevel(heat)]
+                                        : ''
                   }`}
                 >
-                  {/* Line Number */}
-                  <span className={`inline-block w-8 select-none text-right mr-4 ${
+                  {/* Line Number, doubling as the breakpoint gutter */}
+                  {data.breakpoints?.has(lineNumber) && (
+                    <span className="absolute left-0.5 top-1/2 -translate-y-1/2 w-2 h-2 rounded-full bg-red-500 pointer-events-none" />
+                  )}
+                  <span
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      data.onToggleBreakpoint?.(data.path, lineNumber);
+                    }}
+                    title={data.breakpoints?.has(lineNumber) ? 'Remove breakpoint' : 'Set breakpoint'}
+                    className={`inline-block w-8 select-none text-right mr-4 cursor-pointer hover:text-red-400 ${
                     isExecuted 
                       ? 'text-red-400 font-bold' 
                       : isFlowLine 
@@ -711,7 +855,9 @@ export const FileNode: React.FC<NodeProps<FileNodeData>> = ({ data }) => {
                           ? 'text-purple-400 font-bold' 
                           : isEndpointLine 
                             ? 'text-green-400 font-bold' 
-                            : 'text-[#858585]'
+                            : isSearchLine
+                              ? 'text-amber-400'
+                              : 'text-[#858585]'
                   }`}>{lineNumber}</span>
                   {/* Code */}
                   {line}
@@ -1,6 +1,8 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { ChevronRight, ChevronDown, Folder, FolderOpen, FileCode, FileText, FileJson, File, X, FolderTree } from 'lucide-react';
 import { FileStructure } from '../store/useFileStore';
+import { CoverageMap } from '../services/coverageReport';
+import { CoverageBadge } from './FileNode';
 
 interface TreeNode {
   name: string;
@@ -15,6 +17,7 @@ interface FileTreeViewProps {
   onFileClick: (path: string) => void;
   isOpen: boolean;
   onClose: () => void;
+  coverage?: CoverageMap | null;
 }
 
 const getFileIcon = (filename: string) => {
@@ -85,9 +88,11 @@ interface TreeNodeItemProps {
   onFileClick: (path: string) => void;
   expandedFolders: Set<string>;
   toggleFolder: (path: string) => void;
+  coverage?: CoverageMap | null;
 }
 
-const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, depth, onFileClick, expandedFolders, toggleFolder }) => {
+const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, depth, onFileClick, expandedFolders, toggleFolder, coverage }) => {
+  const fileCoverage = node.file ? coverage?.get(node.file.path) : undefined;
   const isExpanded = expandedFolders.has(node.path);
   const paddingLeft = depth * 16 + 8;
   
@@ -128,6 +133,7 @@ const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, depth, onFileClick, e
         <span className={`text-sm truncate ${node.isFolder ? 'text-gray-300' : 'text-gray-400 group-hover:text-white'}`}>
           {node.name}
         </span>
+        {fileCoverage && <span className="ml-auto"><CoverageBadge percent={fileCoverage.percent} /></span>}
       </div>
       
       {node.isFolder && isExpanded && (
@@ -140,6 +146,7 @@ const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, depth, onFileClick, e
               onFileClick={onFileClick}
               expandedFolders={expandedFolders}
               toggleFolder={toggleFolder}
+              coverage={coverage}
             />
           ))}
         </div>
@@ -149,7 +156,7 @@ const TreeNodeItem: React.FC<TreeNodeItemProps> = ({ node, depth, onFileClick, e
 };
 
 
-export const FileTreeView: React.FC<FileTreeViewProps> = ({ files, onFileClick, isOpen, onClose }) => {
+export const FileTreeView: React.FC<FileTreeViewProps> = ({ files, onFileClick, isOpen, onClose, coverage }) => {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [searchFilter, setSearchFilter] = useState('');
   
@@ -245,6 +252,7 @@ export const FileTreeView: React.FC<FileTreeViewProps> = ({ files, onFileClick,
               onFileClick={onFileClick}
               expandedFolders={expandedFolders}
               toggleFolder={toggleFolder}
+              coverage={coverage}
             />
           ))
         )}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { EdgeProps, getBezierPath } from 'reactflow';
+import { EdgeLabelRenderer, EdgeProps, getBezierPath } from 'reactflow';
 
 export const FlowEdge: React.FC<EdgeProps> = ({
   id,
@@ -13,7 +13,7 @@ export const FlowEdge: React.FC<EdgeProps> = ({
   markerEnd,
   data,
 }) => {
-  const [edgePath] = getBezierPath({
+  const [bezierPath, bezierLabelX, bezierLabelY] = getBezierPath({
     sourceX,
     sourceY,
     sourcePosition,
@@ -22,6 +22,29 @@ export const FlowEdge: React.FC<EdgeProps> = ({
     targetPosition,
   });
 
+  // Calls within one file (recursion) loop out past the node's left edge and back in
+  const loopOffset = Math.min(80 + Math.abs(targetY - sourceY) * 0.15, 240);
+  const loopControls = [
+    { x: sourceX, y: sourceY },
+    { x: sourceX - loopOffset, y: sourceY },
+    { x: targetX - loopOffset, y: targetY },
+    { x: targetX, y: targetY },
+  ];
+  const pointOnLoop = (t: number) => {
+    const [p0, p1, p2, p3] = loopControls;
+    const u = 1 - t;
+    return {
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    };
+  };
+  const isLoop = !!data?.loopBack;
+  const edgePath = isLoop
+    ? `M ${sourceX} ${sourceY} C ${sourceX - loopOffset} ${sourceY}, ${targetX - loopOffset} ${targetY}, ${targetX} ${targetY}`
+    : bezierPath;
+  const labelX = isLoop ? pointOnLoop(0.5).x : bezierLabelX;
+  const labelY = isLoop ? pointOnLoop(0.5).y : bezierLabelY;
+
   const dotProgress = data?.dotProgress || 0;
   const hasDot = dotProgress > 0 && dotProgress < 1;
 
@@ -36,8 +59,12 @@ export const FlowEdge: React.FC<EdgeProps> = ({
       : 1 - Math.pow(-2 * dotProgress + 2, 2) / 2;
     
     // Interpolate position with easing
-    dotX = sourceX + (targetX - sourceX) * eased;
-    dotY = sourceY + (targetY - sourceY) * eased;
+    if (isLoop) {
+      ({ x: dotX, y: dotY } = pointOnLoop(eased));
+    } else {
+      dotX = sourceX + (targetX - sourceX) * eased;
+      dotY = sourceY + (targetY - sourceY) * eased;
+    }
   }
 
   return (
@@ -63,9 +90,21 @@ export const FlowEdge: React.FC<EdgeProps> = ({
         pathLength={1}
         style={{
             ...style,
-            strokeDasharray: 1,
+            // Deferred and event hand-offs draw in as dashes
+            strokeDasharray: data?.dashed ? '0.015 0.01' : 1,
         }}
       />
+
+      {data?.label && (
+        <EdgeLabelRenderer>
+          <div
+            style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`, borderColor: style.stroke, color: style.stroke }}
+            className="absolute px-2 py-0.5 rounded-full bg-gray-950/90 border text-[10px] font-mono whitespace-nowrap pointer-events-none"
+          >
+            {data.label}
+          </div>
+        </EdgeLabelRenderer>
+      )}
       
       {/* Red dot traveling along the edge */}
       {hasDot && (
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Play, X, AlertTriangle } from 'lucide-react';
+import { FlowLimits, FlowLimitReason, FlowSummary } from '../services/flowTracer';
+
+interface FlowSummaryDialogProps {
+  title: string;
+  summary: FlowSummary;
+  limits: FlowLimits | null; // Only generated flows can be re-generated with other limits
+  flowSpeed: number;
+  onLimitsChange: (limits: FlowLimits) => void;
+  onPlay: () => void;
+  onCancel: () => void;
+}
+
+const limitFields: Array<{ key: keyof FlowLimits; label: string; title: string; min: number }> = [
+  { key: 'maxDepth', label: 'Max depth', title: 'Nested calls followed from the start', min: 1 },
+  { key: 'maxRecursion', label: 'Max recursion', title: 'Frames of one function open at once', min: 1 },
+  { key: 'maxSteps', label: 'Max steps', title: 'Steps generated before the flow is cut', min: 50 },
+];
+
+export const limitReasonLabels: Record<FlowLimitReason, string> = {
+  depth: 'max depth',
+  recursion: 'max recursion',
+  steps: 'max steps',
+};
+
+export const formatFlowDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+export const FlowSummaryDialog: React.FC<FlowSummaryDialogProps> = ({ title, summary, limits, flowSpeed, onLimitsChange, onPlay, onCancel }) => {
+  const reasons = [...new Set(summary.limits.map(l => l.reason))];
+  const stats = [
+    { label: 'Steps', value: summary.steps },
+    { label: 'Depth', value: summary.depth },
+    { label: 'Files', value: summary.files },
+    { label: 'Functions', value: summary.functions },
+    { label: 'Recursive calls', value: summary.recursiveCalls },
+    { label: `Duration at ${flowSpeed}x`, value: formatFlowDuration(summary.durationMs / flowSpeed) },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/50" onClick={onCancel}>
+      <div
+        className="w-[420px] max-w-[95vw] bg-[#1e1e1e] border border-[#333] rounded-lg shadow-2xl flex flex-col animate-in fade-in zoom-in-95 duration-150"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#333] bg-[#252526] rounded-t-lg">
+          <span className="text-base font-semibold text-gray-100 truncate" title={title}>{title}</span>
+          <button onClick={onCancel} className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 p-4">
+          {stats.map(stat => (
+            <div key={stat.label} className="bg-gray-800 rounded px-3 py-2">
+              <div className="text-lg text-white font-mono">{stat.value}</div>
+              <div className="text-[11px] text-gray-500">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {reasons.length > 0 && (
+          <div className="mx-4 mb-3 px-3 py-2 rounded border border-amber-500/50 bg-amber-500/10 text-xs text-amber-200 flex items-start gap-2">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            <span>
+              Cut {summary.limits.length} {summary.limits.length === 1 ? 'time' : 'times'} by {reasons.map(r => limitReasonLabels[r]).join(', ')}.
+              {limits ? ' Raise the limits below, or expand further while playing.' : ''}
+            </span>
+          </div>
+        )}
+
+        {limits && (
+          <div className="grid grid-cols-3 gap-2 px-4 pb-4">
+            {limitFields.map(field => (
+              <label key={field.key} className="flex flex-col gap-1 text-[11px] text-gray-400" title={field.title}>
+                {field.label}
+                <input
+                  type="number"
+                  min={field.min}
+                  value={limits[field.key]}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value >= field.min) onLimitsChange({ ...limits, [field.key]: value });
+                  }}
+                  className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white outline-none focus:border-blue-500"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-[#333]">
+          <button onClick={onCancel} className="px-3 py-1.5 rounded text-sm text-gray-300 hover:bg-gray-700 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={onPlay}
+            autoFocus
+            className="px-3 py-1.5 rounded text-sm bg-blue-600 hover:bg-blue-700 text-white flex items-center gap-1.5 transition-colors"
+          >
+            <Play size={14} />
+            Play
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
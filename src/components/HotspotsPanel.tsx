@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { Flame, X, ArrowUp, ArrowDown, GitCommit as GitCommitIcon, Loader2 } from 'lucide-react';
+import { FileStructure, useFileStore } from '../store/useFileStore';
+import { buildHotspots, complexityLevel, countCommitsByFile, ComplexityLevel, Hotspot } from '../services/hotspots';
+import { fetchCommitHistory } from '../services/gitHistoryService';
+
+interface HotspotsPanelProps {
+  files: FileStructure[];
+  isOpen: boolean;
+  onClose: () => void;
+  onNavigate: (path: string, line: number) => void;
+}
+
+type SortKey = 'name' | 'cyclomatic' | 'nesting' | 'params' | 'lines' | 'commits' | 'score';
+
+const columns: Array<{ key: SortKey; label: string; title: string }> = [
+  { key: 'name', label: 'Function', title: 'Function name' },
+  { key: 'cyclomatic', label: 'CC', title: 'Cyclomatic complexity' },
+  { key: 'nesting', label: 'Nest', title: 'Maximum nesting depth' },
+  { key: 'params', label: 'Par', title: 'Parameter count' },
+  { key: 'lines', label: 'LOC', title: 'Line count' },
+  { key: 'commits', label: 'Com', title: 'Commits touching the file (recent history)' },
+  { key: 'score', label: 'Score', title: 'Complexity × commits' },
+];
+
+export const complexityTextColors: Record<ComplexityLevel, string> = {
+  low: 'text-green-400',
+  moderate: 'text-yellow-400',
+  high: 'text-orange-400',
+  'very-high': 'text-red-400',
+};
+
+export const HotspotsPanel: React.FC<HotspotsPanelProps> = ({ files, isOpen, onClose, onNavigate }) => {
+  const { githubContext } = useFileStore();
+  const [sortKey, setSortKey] = useState<SortKey>('score');
+  const [sortDescending, setSortDescending] = useState(true);
+  const [commitCounts, setCommitCounts] = useState<Map<string, number> | undefined>();
+  const [isLoadingCommits, setIsLoadingCommits] = useState(false);
+  const [commitError, setCommitError] = useState<string | null>(null);
+
+  const hotspots = useMemo(() => {
+    if (!isOpen) return [];
+    const rows = buildHotspots(files, commitCounts);
+    const value = (h: Hotspot) => (sortKey === 'name' ? `${h.owner ?? ''}.${h.name}` : h[sortKey] ?? -1);
+    return rows.sort((a, b) => {
+      const [x, y] = [value(a), value(b)];
+      const order = typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number);
+      return sortDescending ? -order : order;
+    });
+  }, [files, commitCounts, isOpen, sortKey, sortDescending]);
+
+  if (!isOpen) return null;
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortKey(key);
+      setSortDescending(key !== 'name');
+    }
+  };
+
+  const loadCommitCounts = async () => {
+    if (!githubContext) return;
+    setIsLoadingCommits(true);
+    setCommitError(null);
+    try {
+      const history = await fetchCommitHistory(githubContext.owner, githubContext.repo, githubContext.token, 50);
+      setCommitCounts(countCommitsByFile(history));
+    } catch (e: any) {
+      setCommitError(e.message || 'Failed to fetch commit history');
+    } finally {
+      setIsLoadingCommits(false);
+    }
+  };
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-full md:w-[560px] bg-[#1e1e1e] border-l border-[#333] shadow-2xl z-[100] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-[#333] bg-[#252526]">
+        <span className="text-base font-semibold text-gray-100 flex items-center gap-2">
+          <Flame size={18} className="text-red-400" />
+          Hotspots
+        </span>
+        <div className="flex items-center gap-2">
+          {githubContext && (
+            <button
+              onClick={loadCommitCounts}
+              disabled={isLoadingCommits}
+              className="px-2.5 py-1 text-xs rounded border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-50 flex items-center gap-1.5 transition-colors"
+              title="Weight complexity by how often each file changed in the last 50 commits"
+            >
+              {isLoadingCommits ? <Loader2 size={12} className="animate-spin" /> : <GitCommitIcon size={12} />}
+              {commitCounts ? 'Reload commits' : 'Load commit counts'}
+            </button>
+          )}
+          <button onClick={onClose} className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      {commitError && (
+        <div className="px-4 py-2 text-xs text-red-400 border-b border-[#333]">{commitError}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-[#252526] text-xs text-gray-400">
+            <tr>
+              {columns.map(column => (
+                <th
+                  key={column.key}
+                  onClick={() => handleSort(column.key)}
+                  title={column.title}
+                  className={`px-2 py-2 font-medium cursor-pointer select-none hover:text-white ${column.key === 'name' ? 'text-left pl-4' : 'text-right'}`}
+                >
+                  <span className="inline-flex items-center gap-0.5">
+                    {column.label}
+                    {sortKey === column.key && (sortDescending ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {hotspots.map(h => (
+              <tr
+                key={`${h.file}:${h.name}:${h.line}`}
+                onClick={() => onNavigate(h.file, h.line)}
+                className="cursor-pointer hover:bg-blue-600/20 transition-colors group"
+              >
+                <td className="pl-4 pr-2 py-1 max-w-[220px]">
+                  <div className="font-mono text-gray-300 group-hover:text-white truncate" title={`${h.file}:${h.line}`}>
+                    {h.owner ? `${h.owner}.${h.name}` : h.name}
+                  </div>
+                  <div className="text-[10px] text-gray-500 font-mono truncate">{h.file}</div>
+                </td>
+                <td className={`px-2 py-1 text-right font-mono font-semibold ${complexityTextColors[complexityLevel(h.cyclomatic)]}`}>{h.cyclomatic}</td>
+                <td className="px-2 py-1 text-right font-mono text-gray-400">{h.nesting}</td>
+                <td className="px-2 py-1 text-right font-mono text-gray-400">{h.params}</td>
+                <td className="px-2 py-1 text-right font-mono text-gray-400">{h.lines}</td>
+                <td className="px-2 py-1 text-right font-mono text-gray-400">{h.commits ?? '–'}</td>
+                <td className="px-2 py-1 pr-4 text-right font-mono text-gray-200">{h.score}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {hotspots.length === 0 && (
+          <div className="text-center text-gray-500 text-sm py-8">No functions on the canvas</div>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-[#333] bg-[#252526] text-xs text-gray-500">
+        Score is complexity times commits to the file; without history it is complexity alone.
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Bookmark, X, Play, Users, Link as LinkIcon, Check, Trash2 } from 'lucide-react';
+import { SavedFlow } from '../store/useFileStore';
+
+interface SavedFlowsPanelProps {
+  flows: SavedFlow[];
+  roomId: string | null;
+  playingFlowId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onPlay: (flow: SavedFlow, forRoom: boolean) => void;
+  onDelete: (id: string) => void;
+}
+
+// Opens the room and starts the flow for whoever follows it
+export const savedFlowLink = (roomId: string, flowId: string) => {
+  const url = new URL(window.location.href);
+  url.search = new URLSearchParams({ room: roomId, flow: flowId }).toString();
+  return url.toString();
+};
+
+export const SavedFlowsPanel: React.FC<SavedFlowsPanelProps> = ({ flows, roomId, playingFlowId, isOpen, onClose, onPlay, onDelete }) => {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  // The link, shown to copy by hand, when the clipboard refused it
+  const [copyFailedLink, setCopyFailedLink] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleCopyLink = async (flow: SavedFlow) => {
+    if (!roomId) return;
+    const link = savedFlowLink(roomId, flow.id);
+    try {
+      // Rejects without clipboard permission or outside a secure context
+      await navigator.clipboard.writeText(link);
+    } catch (e) {
+      console.error('Failed to copy the flow link', e);
+      setCopyFailedLink(link);
+      return;
+    }
+    setCopyFailedLink(null);
+    setCopiedId(flow.id);
+    setTimeout(() => setCopiedId(null), 1500);
+  };
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-full md:w-[400px] bg-[#1e1e1e] border-l border-[#333] shadow-2xl z-[100] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-[#333] bg-[#252526]">
+        <span className="text-base font-semibold text-gray-100 flex items-center gap-2">
+          <Bookmark size={18} className="text-cyan-400" />
+          Saved Flows
+        </span>
+        <button onClick={onClose} className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      {!roomId && (
+        <div className="px-4 py-2 border-b border-[#333] text-xs text-gray-500">
+          Open a room to share saved flows with collaborators; outside one they last until the page is closed.
+        </div>
+      )}
+
+      {copyFailedLink && (
+        <div className="px-4 py-2 border-b border-[#333] text-xs text-red-400 flex items-start gap-2">
+          <div className="min-w-0 flex-1">
+            Couldn't copy the link; copy it from here:
+            <input
+              readOnly
+              value={copyFailedLink}
+              onFocus={(e) => e.target.select()}
+              className="mt-1 w-full bg-[#252526] border border-[#333] rounded px-2 py-1 text-gray-300"
+            />
+          </div>
+          <button onClick={() => setCopyFailedLink(null)} className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white" title="Dismiss">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {flows.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-8">
+            No saved flows yet. Track a flow and save it from the playback bar.
+          </div>
+        ) : (
+          [...flows].sort((a, b) => b.createdAt - a.createdAt).map(flow => {
+            const noteCount = Object.values(flow.notes).filter(note => note.trim()).length;
+            return (
+              <div
+                key={flow.id}
+                className={`px-4 py-3 border-b border-[#2a2a2a] flex flex-col gap-2 ${flow.id === playingFlowId ? 'bg-blue-600/15' : ''}`}
+              >
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-100 truncate" title={flow.title}>{flow.title}</div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {flow.createdBy} · {new Date(flow.createdAt).toLocaleString()} · {flow.steps.length} steps
+                    {noteCount > 0 && ` · ${noteCount} ${noteCount === 1 ? 'note' : 'notes'}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onPlay(flow, false)}
+                    className="px-2 py-1 rounded text-xs text-gray-300 hover:bg-gray-700 flex items-center gap-1.5 transition-colors"
+                    title="Replay on this screen only"
+                  >
+                    <Play size={12} />
+                    Play
+                  </button>
+                  {roomId && (
+                    <>
+                      <button
+                        onClick={() => onPlay(flow, true)}
+                        className="px-2 py-1 rounded text-xs text-gray-300 hover:bg-gray-700 flex items-center gap-1.5 transition-colors"
+                        title="Replay for everyone in the room, following your steps"
+                      >
+                        <Users size={12} />
+                        Play for room
+                      </button>
+                      <button
+                        onClick={() => handleCopyLink(flow)}
+                        className="px-2 py-1 rounded text-xs text-gray-300 hover:bg-gray-700 flex items-center gap-1.5 transition-colors"
+                        title="Copy a link that opens the room and starts this flow"
+                      >
+                        {copiedId === flow.id ? <Check size={12} className="text-green-400" /> : <LinkIcon size={12} />}
+                        Link
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => onDelete(flow.id)}
+                    className="ml-auto p-1 rounded text-gray-500 hover:bg-gray-700 hover:text-red-400 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,41 +1,23 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useFileStore, FileStructure } from '../store/useFileStore';
 import { Layers, Check, ChevronDown, X, Loader2, BookOpen, Code } from 'lucide-react';
 import { Octokit } from '@octokit/rest';
-import { analyzeCode } from '../utils/codeAnalyzer';
+import { analyzeFiles, AnalysisProgress } from '../services/analysisPool';
+import { githubCacheScope } from '../services/analysisCache';
+import { getLanguage } from '../utils/languageRegistry';
 
 export const SegmentSwitcher: React.FC = () => {
   const { cachedRepoData, switchSegments, githubContext, addToCache, setFiles, setViewMode } = useFileStore();
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   if (!cachedRepoData) return null;
 
   const { segments, selectedCategories, allFiles, pendingTree, viewMode } = cachedRepoData;
   const hasCoreCode = selectedCategories.has('Core Source Code');
 
-  const getLanguage = (filename: string) => {
-    if (filename.endsWith('.tsx') || filename.endsWith('.ts')) return 'typescript';
-    if (filename.endsWith('.jsx') || filename.endsWith('.js')) return 'javascript';
-    if (filename.endsWith('.css')) return 'css';
-    if (filename.endsWith('.json')) return 'json';
-    return 'plaintext';
-  };
-
-  const processFiles = (files: FileStructure[]) => {
-    return files.map(file => {
-      if (file.language === 'typescript' || file.language === 'javascript') {
-        try {
-          const analysis = analyzeCode(file.path, file.content);
-          return { ...file, analysis };
-        } catch (e) {
-          return file;
-        }
-      }
-      return file;
-    });
-  };
-
   const toggleCategory = async (category: string) => {
     const newSelected = new Set(selectedCategories);
     if (newSelected.has(category)) {
@@ -56,6 +38,8 @@ export const SegmentSwitcher: React.FC = () => {
     // If we have missing files and GitHub context, fetch them
     if (missingPaths.length > 0 && githubContext?.token && pendingTree) {
       setIsLoading(true);
+      const abortController = new AbortController();
+      abortRef.current = abortController;
       try {
         const octokit = new Octokit({ auth: githubContext.token });
         const { owner, repo } = githubContext;
@@ -81,7 +65,11 @@ export const SegmentSwitcher: React.FC = () => {
           }
         }
 
-        const analyzed = processFiles(newFiles);
+        const analyzed = await analyzeFiles(newFiles, {
+          signal: abortController.signal,
+          onProgress: setAnalysisProgress,
+          cacheScope: githubCacheScope(owner, repo),
+        });
         addToCache(analyzed);
         
         // Now switch with updated cache
@@ -89,8 +77,12 @@ export const SegmentSwitcher: React.FC = () => {
         const displayFiles = updatedAllFiles.filter(f => neededPaths.has(f.path));
         setFiles(displayFiles);
       } catch (e) {
+        // Cancelled: keep the current selection
+        if (abortController.signal.aborted) return;
         console.error('Failed to fetch files:', e);
       } finally {
+        abortRef.current = null;
+        setAnalysisProgress(null);
         setIsLoading(false);
       }
     }
@@ -110,9 +102,22 @@ export const SegmentSwitcher: React.FC = () => {
         className="bg-gray-800 hover:bg-gray-700 disabled:opacity-70 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-lg border border-gray-600"
       >
         {isLoading ? <Loader2 size={18} className="animate-spin" /> : <Layers size={18} />}
-        <span>Segments ({selectedCount}/{totalCount})</span>
+        <span>
+          {analysisProgress
+            ? `Analyzing ${analysisProgress.done}/${analysisProgress.total}`
+            : `Segments (${selectedCount}/${totalCount})`}
+        </span>
         <ChevronDown size={16} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
       </button>
+      {analysisProgress && (
+        <button
+          onClick={() => abortRef.current?.abort()}
+          className="absolute -top-2 -right-2 bg-gray-700 hover:bg-red-600 text-gray-300 hover:text-white rounded-full p-0.5 border border-gray-600 shadow transition-colors"
+          title="Cancel analysis"
+        >
+          <X size={12} />
+        </button>
+      )}
 
       {isOpen && (
         <div className="absolute bottom-12 left-0 bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-72 overflow-hidden">
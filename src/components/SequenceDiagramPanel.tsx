@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { Workflow, X, Copy, Check, Download } from 'lucide-react';
+import { SequenceDiagram, toMermaid, toPlantUml } from '../services/sequenceDiagram';
+
+interface SequenceDiagramPanelProps {
+  diagram: SequenceDiagram;
+  currentStepIndex: number;
+  onClose: () => void;
+  onGoToStep: (index: number) => void;
+}
+
+type DiagramFormat = 'mermaid' | 'plantuml';
+
+const formats: Array<{ key: DiagramFormat; label: string; extension: string; render: (d: SequenceDiagram) => string }> = [
+  { key: 'mermaid', label: 'Mermaid', extension: 'mmd', render: toMermaid },
+  { key: 'plantuml', label: 'PlantUML', extension: 'puml', render: toPlantUml },
+];
+
+// Layout of the drawn diagram, in px
+const COLUMN_WIDTH = 150;
+const HEADER_HEIGHT = 40;
+const ROW_HEIGHT = 34;
+const SELF_LOOP_WIDTH = 30;
+
+const messageColors = {
+  call: '#22d3ee',
+  async: '#a78bfa',
+  return: '#e879f9',
+};
+
+export const SequenceDiagramPanel: React.FC<SequenceDiagramPanelProps> = ({ diagram, currentStepIndex, onClose, onGoToStep }) => {
+  const [copied, setCopied] = useState<DiagramFormat | null>(null);
+
+  const columns = useMemo(
+    () => new Map(diagram.participants.map((p, index) => [p.id, COLUMN_WIDTH / 2 + index * COLUMN_WIDTH])),
+    [diagram]
+  );
+
+  // The message of the step being played, or the last one before it
+  const activeMessage = useMemo(() => {
+    let active = -1;
+    diagram.messages.forEach((m, index) => {
+      if (m.stepIndex <= currentStepIndex) active = index;
+    });
+    return active;
+  }, [diagram, currentStepIndex]);
+
+  const handleCopy = async (format: typeof formats[number]) => {
+    await navigator.clipboard.writeText(format.render(diagram));
+    setCopied(format.key);
+    setTimeout(() => setCopied(null), 1500);
+  };
+
+  const handleDownload = (format: typeof formats[number]) => {
+    const url = URL.createObjectURL(new Blob([format.render(diagram)], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sequence.${format.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const width = Math.max(1, diagram.participants.length) * COLUMN_WIDTH;
+  const height = HEADER_HEIGHT + (diagram.messages.length + 1) * ROW_HEIGHT;
+
+  return (
+    <div className="fixed top-0 left-0 h-full w-full md:w-[520px] bg-[#1e1e1e] border-r border-[#333] shadow-2xl z-[100] flex flex-col animate-in slide-in-from-left duration-300">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-[#333] bg-[#252526]">
+        <span className="text-base font-semibold text-gray-100 flex items-center gap-2">
+          <Workflow size={18} className="text-cyan-400" />
+          Sequence Diagram
+        </span>
+        <button onClick={onClose} className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-[#333]">
+        {formats.map(format => (
+          <div key={format.key} className="flex items-center rounded border border-gray-600 overflow-hidden">
+            <button
+              onClick={() => handleCopy(format)}
+              className="px-2.5 py-1 text-xs text-gray-300 hover:bg-gray-700 flex items-center gap-1.5 transition-colors"
+              title={`Copy as ${format.label}`}
+            >
+              {copied === format.key ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
+              {format.label}
+            </button>
+            <button
+              onClick={() => handleDownload(format)}
+              className="px-1.5 py-1 border-l border-gray-600 text-gray-400 hover:bg-gray-700 hover:text-white transition-colors"
+              title={`Download sequence.${format.extension}`}
+            >
+              <Download size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar p-4">
+        {diagram.messages.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-8">No calls in this flow yet</div>
+        ) : (
+          <svg width={width} height={height} className="font-mono">
+            <defs>
+              {Object.entries(messageColors).map(([kind, color]) => (
+                <marker key={kind} id={`sequence-arrow-${kind}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                </marker>
+              ))}
+            </defs>
+
+            {diagram.participants.map(p => {
+              const x = columns.get(p.id)!;
+              return (
+                <g key={p.id}>
+                  <line x1={x} y1={HEADER_HEIGHT} x2={x} y2={height} stroke="#444" strokeDasharray="4 4" />
+                  <rect x={x - COLUMN_WIDTH / 2 + 8} y={4} width={COLUMN_WIDTH - 16} height={HEADER_HEIGHT - 12} rx={4} fill="#2d2d2d" stroke="#555" />
+                  <text x={x} y={HEADER_HEIGHT / 2 + 2} textAnchor="middle" fontSize={11} fill="#e5e7eb">
+                    <title>{p.file}</title>
+                    {p.label.length > 18 ? `${p.label.slice(0, 17)}…` : p.label}
+                  </text>
+                </g>
+              );
+            })}
+
+            {diagram.messages.map((m, index) => {
+              const y = HEADER_HEIGHT + (index + 1) * ROW_HEIGHT;
+              const fromX = columns.get(m.from)!;
+              const toX = columns.get(m.to)!;
+              const color = messageColors[m.kind];
+              const isActive = index === activeMessage;
+              const path = fromX === toX
+                ? `M ${fromX} ${y - 8} h ${SELF_LOOP_WIDTH} v 12 h ${-SELF_LOOP_WIDTH}`
+                : `M ${fromX} ${y} L ${toX} ${y}`;
+              return (
+                <g key={index} onClick={() => onGoToStep(m.stepIndex)} className="cursor-pointer">
+                  {isActive && <rect x={0} y={y - ROW_HEIGHT + 8} width={width} height={ROW_HEIGHT} fill="rgba(59,130,246,0.15)" />}
+                  <path
+                    d={path}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={isActive ? 2.5 : 1.5}
+                    strokeDasharray={m.kind === 'call' ? undefined : '5 4'}
+                    markerEnd={`url(#sequence-arrow-${m.kind})`}
+                  />
+                  <text
+                    x={fromX === toX ? fromX + SELF_LOOP_WIDTH + 4 : (fromX + toX) / 2}
+                    y={fromX === toX ? y - 2 : y - 5}
+                    textAnchor={fromX === toX ? 'start' : 'middle'}
+                    fontSize={10}
+                    fill={isActive ? '#ffffff' : '#9ca3af'}
+                  >
+                    {m.text}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+};
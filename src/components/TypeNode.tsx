@@ -0,0 +1,87 @@
+import React from 'react';
+import { Handle, NodeProps, Position } from 'reactflow';
+import { TypeInfo, TypeKind } from '../utils/codeAnalyzer';
+import { MAX_VISIBLE_MEMBERS, TYPE_NODE_WIDTH } from '../services/typeGraph';
+
+interface TypeNodeData {
+  file: string;
+  type: TypeInfo;
+  onNavigate: (path: string, line: number) => void;
+}
+
+const kindStyles: Record<TypeKind, { label: string; className: string }> = {
+  class: { label: 'C', className: 'bg-blue-600/30 text-blue-300 border-blue-500/50' },
+  interface: { label: 'I', className: 'bg-green-600/30 text-green-300 border-green-500/50' },
+  type: { label: 'T', className: 'bg-purple-600/30 text-purple-300 border-purple-500/50' },
+  enum: { label: 'E', className: 'bg-amber-600/30 text-amber-300 border-amber-500/50' },
+};
+
+const hiddenHandle = { opacity: 0, width: 1, height: 1, pointerEvents: 'none' as const };
+
+export const TypeNode: React.FC<NodeProps<TypeNodeData>> = ({ data }) => {
+  const { type, file, onNavigate } = data;
+  const kind = kindStyles[type.kind];
+  const visibleMembers = type.members.slice(0, MAX_VISIBLE_MEMBERS);
+
+  return (
+    <div
+      className="bg-[#1e1e1e] border border-[#333] rounded-lg shadow-xl overflow-hidden"
+      style={{ width: TYPE_NODE_WIDTH }}
+    >
+      <Handle type="target" position={Position.Top} id="type-in" style={hiddenHandle} />
+      <Handle type="source" position={Position.Bottom} id="type-out" style={hiddenHandle} />
+
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onNavigate(file, type.line);
+        }}
+        className="w-full bg-[#252526] px-3 py-2 border-b border-[#333] text-left hover:bg-[#2d2d2d] transition-colors"
+        title={`Go to ${file}:${type.line}`}
+      >
+        <div className="flex items-center gap-2">
+          <span className={`w-5 h-5 flex items-center justify-center rounded border text-[10px] font-bold ${kind.className}`}>
+            {kind.label}
+          </span>
+          <span className="text-sm font-semibold text-gray-100 font-mono truncate">{type.name}</span>
+        </div>
+        <div className="text-[10px] text-gray-500 font-mono truncate mt-0.5">{file}</div>
+      </button>
+
+      {type.aliasOf && (
+        <div className="px-3 py-1 text-xs font-mono text-purple-300/80 border-b border-[#333] truncate" title={type.aliasOf}>
+          = {type.aliasOf}
+        </div>
+      )}
+
+      <div className="py-1">
+        {visibleMembers.map(member => (
+          <button
+            key={`${member.name}-${member.line}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onNavigate(file, member.line);
+            }}
+            className="w-full flex items-baseline gap-1 px-3 h-5 text-xs font-mono text-left hover:bg-blue-600/20 transition-colors"
+            title={`${member.name}${member.optional ? '?' : ''}: ${member.type}`}
+          >
+            <span className={member.kind === 'method' ? 'text-[#dcdcaa]' : 'text-[#9cdcfe]'}>
+              {member.name}{member.optional ? '?' : ''}
+            </span>
+            {member.type && (
+              <span className="text-gray-500 truncate">
+                {type.kind === 'enum' ? ` = ${member.type}` : member.kind === 'method' ? member.type : `: ${member.type}`}
+              </span>
+            )}
+          </button>
+        ))}
+        {type.members.length > visibleMembers.length && (
+          <div className="px-3 h-5 text-xs text-gray-600 italic">+{type.members.length - visibleMembers.length} more</div>
+        )}
+        {type.members.length === 0 && !type.aliasOf && (
+          <div className="px-3 h-5 text-xs text-gray-600 italic">no members</div>
+        )}
+      </div>
+    </div>
+  );
+};
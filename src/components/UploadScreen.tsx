@@ -2,8 +2,10 @@ import React, { useState } from 'react';
 import { useFileStore, FileStructure, FileSegment, ViewMode } from '../store/useFileStore';
 import { Github, FolderUp } from 'lucide-react';
 import { Octokit } from '@octokit/rest';
-import { analyzeCode } from '../utils/codeAnalyzer';
+import { analyzeFiles, isAnalyzable, AnalysisProgress } from '../services/analysisPool';
+import { githubCacheScope, localCacheScope } from '../services/analysisCache';
 import { categorizeRepository } from '../services/repoSeparator';
+import { getLanguage } from '../utils/languageRegistry';
 import { RepoSegmentSelector } from './RepoSegmentSelector';
 
 interface GitHubTreeNode {
@@ -37,6 +39,8 @@ export const UploadScreen: React.FC = () => {
   const [pendingGitHubData, setPendingGitHubData] = useState<PendingGitHubData | null>(null);
   const [pendingLocalFiles, setPendingLocalFiles] = useState<FileStructure[] | null>(null);
   const [isLoadingSelected, setIsLoadingSelected] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const analysisAbortRef = React.useRef<AbortController | null>(null);
 
   const handleMouseMove = (e: React.MouseEvent) => {
     setMousePos({ x: e.clientX, y: e.clientY });
@@ -100,27 +104,29 @@ export const UploadScreen: React.FC = () => {
     }
   }, [logs]);
 
-  const processFiles = (files: FileStructure[]) => {
-    return files.map(file => {
-      if (file.language === 'typescript' || file.language === 'javascript') {
-        try {
-          const analysis = analyzeCode(file.path, file.content);
-          return { ...file, analysis };
-        } catch (e) {
-          console.error(`Failed to analyze ${file.path}`, e);
-          return file;
-        }
-      }
-      return file;
-    });
+  // Analyse in the worker pool, streaming progress into the terminal; files unchanged since
+  // the repo was last opened come from the analysis cache
+  const processFiles = async (files: FileStructure[], signal: AbortSignal, cacheScope: string) => {
+    const total = files.filter(isAnalyzable).length;
+    setLogs([`Analyzing ${total} source files...`]);
+    setAnalysisProgress({ done: 0, total, path: '' });
+    try {
+      return await analyzeFiles(files, {
+        signal,
+        cacheScope,
+        onProgress: (progress) => {
+          setAnalysisProgress(progress);
+          // Keep the terminal short on large repositories
+          setLogs(prev => [...prev.slice(-199), `Parsed ${progress.path}`]);
+        },
+      });
+    } finally {
+      setAnalysisProgress(null);
+    }
   };
 
-  const getLanguage = (filename: string) => {
-    if (filename.endsWith('.tsx') || filename.endsWith('.ts')) return 'typescript';
-    if (filename.endsWith('.jsx') || filename.endsWith('.js')) return 'javascript';
-    if (filename.endsWith('.css')) return 'css';
-    if (filename.endsWith('.json')) return 'json';
-    return 'plaintext';
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
   };
 
 
@@ -145,6 +151,7 @@ export const UploadScreen: React.FC = () => {
           name: file.name,
           content: text,
           language: getLanguage(file.name),
+          modifiedAt: file.lastModified,
         });
       }
 
@@ -234,20 +241,23 @@ export const UploadScreen: React.FC = () => {
 
   const handleSegmentConfirm = async (selectedFiles: string[], selectedCategories: Set<string>, viewMode: ViewMode) => {
     setIsLoadingSelected(true);
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
     
     try {
       if (pendingLocalFiles && segments) {
         // Local files - process all, then filter for display
-        const analyzed = processFiles(pendingLocalFiles);
+        const analyzed = await processFiles(pendingLocalFiles, abortController.signal, localCacheScope(pendingLocalFiles));
         const filtered = analyzed.filter(f => selectedFiles.includes(f.path));
         
-        setFiles(filtered);
+        // Cache first so tsconfig aliases from unselected segments are visible when linking imports
         setCachedRepoData({
           segments,
           allFiles: analyzed,
           selectedCategories,
           viewMode
         });
+        setFiles(filtered);
       } else if (pendingGitHubData && segments) {
         // GitHub - fetch only selected files initially, store tree for lazy loading
         const { owner, repo, branch, sha, tree, octokit } = pendingGitHubData;
@@ -274,9 +284,8 @@ export const UploadScreen: React.FC = () => {
           }
         }
 
-        const analyzed = processFiles(fetchedFiles);
+        const analyzed = await processFiles(fetchedFiles, abortController.signal, githubCacheScope(owner, repo));
         
-        setFiles(analyzed);
         setCachedRepoData({
           segments,
           allFiles: analyzed,
@@ -284,12 +293,16 @@ export const UploadScreen: React.FC = () => {
           viewMode,
           pendingTree: pendingTree.map(n => ({ path: n.path, sha: n.sha }))
         });
+        setFiles(analyzed);
         setGitHubContext({ owner, repo, branch, token: githubToken, sha });
       }
     } catch (err) {
+      // Cancelling returns to the segment selection
+      if (abortController.signal.aborted) return;
       console.error(err);
       setError('Failed to load selected files');
     } finally {
+      analysisAbortRef.current = null;
       setIsLoadingSelected(false);
     }
   };
@@ -304,6 +317,42 @@ export const UploadScreen: React.FC = () => {
 
 
 
+  const renderTerminal = (footer?: React.ReactNode) => (
+    <div className="w-full max-w-2xl bg-[#0d1117] rounded-lg border border-gray-800 shadow-2xl overflow-hidden font-mono text-sm">
+      {/* Terminal Header */}
+      <div className="bg-[#161b22] px-4 py-2 flex items-center gap-2 border-b border-gray-800">
+        <div className="flex gap-2">
+          <div className="w-3 h-3 rounded-full bg-red-500/80"></div>
+          <div className="w-3 h-3 rounded-full bg-yellow-500/80"></div>
+          <div className="w-3 h-3 rounded-full bg-green-500/80"></div>
+        </div>
+        <div className="ml-4 text-gray-400 text-xs">~/kiro/system-analysis</div>
+      </div>
+      
+      {/* Terminal Body */}
+      <div 
+        ref={terminalRef}
+        className="p-6 h-80 overflow-y-auto flex flex-col gap-2 font-mono scrollbar-hide"
+        style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
+      >
+        {logs.map((log, i) => (
+          <div key={i} className="flex gap-3 text-blue-400">
+            <span className="text-gray-600 shrink-0">
+              {new Date().toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}.{Math.floor(Math.random() * 999)}
+            </span>
+            <span className="text-blue-500 font-bold">{'>'}</span>
+            <span className="animate-[type_0.5s_ease-out]">{log}</span>
+          </div>
+        ))}
+        <div className="flex gap-3">
+           <span className="text-blue-500 font-bold">{'>'}</span>
+           <span className="w-2 h-4 bg-blue-500 animate-pulse"></span>
+        </div>
+      </div>
+      {footer}
+    </div>
+  );
+
   return (
     <div 
       className="relative flex flex-col items-center justify-center h-screen bg-black text-white p-4 overflow-auto"
@@ -403,51 +452,7 @@ export const UploadScreen: React.FC = () => {
 
         {loading && (
           <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md">
-            <div className="w-full max-w-2xl bg-[#0d1117] rounded-lg border border-gray-800 shadow-2xl overflow-hidden font-mono text-sm">
-              {/* Terminal Header */}
-              <div className="bg-[#161b22] px-4 py-2 flex items-center gap-2 border-b border-gray-800">
-                <div className="flex gap-2">
-                  <div className="w-3 h-3 rounded-full bg-red-500/80"></div>
-                  <div className="w-3 h-3 rounded-full bg-yellow-500/80"></div>
-                  <div className="w-3 h-3 rounded-full bg-green-500/80"></div>
-                </div>
-                <div className="ml-4 text-gray-400 text-xs">~/kiro/system-analysis</div>
-              </div>
-              
-              {/* Terminal Body */}
-              <div 
-                ref={terminalRef}
-                className="p-6 h-80 overflow-y-auto flex flex-col gap-2 font-mono scrollbar-hide"
-                style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
-              >
-                {logs.map((log, i) => (
-                  <div key={i} className="flex gap-3 text-blue-400">
-                    <span className="text-gray-600 shrink-0">
-                      {new Date().toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}.{Math.floor(Math.random() * 999)}
-                    </span>
-                    <span className="text-blue-500 font-bold">{'>'}</span>
-                    <span className="animate-[type_0.5s_ease-out]">{log}</span>
-                  </div>
-                ))}
-                <div className="flex gap-3">
-                   <span className="text-blue-500 font-bold">{'>'}</span>
-                   <span className="w-2 h-4 bg-blue-500 animate-pulse"></span>
-                </div>
-              </div>
-            </div>
-            <style>{`
-                @keyframes type {
-                    from { opacity: 0; transform: translateX(-10px); }
-                    to { opacity: 1; transform: translateX(0); }
-                }
-                @keyframes fadeIn {
-                    from { opacity: 0; }
-                    to { opacity: 1; }
-                }
-                .scrollbar-hide::-webkit-scrollbar {
-                    display: none;
-                }
-            `}</style>
+            {renderTerminal()}
           </div>
         )}
 
@@ -468,6 +473,44 @@ export const UploadScreen: React.FC = () => {
           />
         </div>
       )}
+
+      {analysisProgress && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/90 backdrop-blur-md">
+          {renderTerminal(
+            <div className="px-6 py-3 border-t border-gray-800 flex items-center gap-4">
+              <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all duration-150"
+                  style={{ width: `${analysisProgress.total ? (analysisProgress.done / analysisProgress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <span className="text-gray-400 text-xs tabular-nums">
+                {analysisProgress.done}/{analysisProgress.total}
+              </span>
+              <button
+                onClick={cancelAnalysis}
+                className="text-xs text-red-400 hover:text-red-300 border border-red-500/40 hover:bg-red-500/10 px-3 py-1 rounded transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <style>{`
+          @keyframes type {
+              from { opacity: 0; transform: translateX(-10px); }
+              to { opacity: 1; transform: translateX(0); }
+          }
+          @keyframes fadeIn {
+              from { opacity: 0; }
+              to { opacity: 1; }
+          }
+          .scrollbar-hide::-webkit-scrollbar {
+              display: none;
+          }
+      `}</style>
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardList, X, FileCode } from 'lucide-react';
+import { FileStructure } from '../store/useFileStore';
+import { buildUsageReport } from '../services/usageReport';
+
+interface UsageReportPanelProps {
+  files: FileStructure[];
+  isOpen: boolean;
+  onClose: () => void;
+  onNavigate: (path: string, line: number) => void;
+}
+
+interface ReportEntry {
+  file: string;
+  label: string;
+  detail: string;
+  line: number;
+}
+
+const groupByFile = (entries: ReportEntry[]) => {
+  const groups = new Map<string, ReportEntry[]>();
+  entries.forEach(entry => {
+    if (!groups.has(entry.file)) groups.set(entry.file, []);
+    groups.get(entry.file)!.push(entry);
+  });
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+};
+
+export const UsageReportPanel: React.FC<UsageReportPanelProps> = ({ files, isOpen, onClose, onNavigate }) => {
+  const [tab, setTab] = useState<'exports' | 'functions'>('exports');
+
+  // Only build while open: it resolves every call site in the project
+  const report = useMemo(() => (isOpen ? buildUsageReport(files) : null), [files, isOpen]);
+
+  const entries = useMemo<ReportEntry[]>(() => {
+    if (!report) return [];
+    if (tab === 'exports') {
+      return report.unusedExports.map(e => ({
+        file: e.file,
+        label: e.name === 'default' ? 'default export' : e.name,
+        detail: e.kind,
+        line: e.line,
+      }));
+    }
+    return report.uncalledFunctions.map(f => ({
+      file: f.file,
+      label: f.owner ? `${f.owner}.${f.name}` : f.name,
+      detail: f.owner ? 'method' : 'function',
+      line: f.line,
+    }));
+  }, [report, tab]);
+
+  if (!isOpen || !report) return null;
+
+  const groups = groupByFile(entries);
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-full md:w-[420px] bg-[#1e1e1e] border-l border-[#333] shadow-2xl z-[100] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-[#333] bg-[#252526]">
+        <span className="text-base font-semibold text-gray-100 flex items-center gap-2">
+          <ClipboardList size={18} className="text-amber-400" />
+          Usage Report
+        </span>
+        <button onClick={onClose} className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex gap-1 px-3 pt-3 border-b border-[#333]">
+        <button
+          onClick={() => setTab('exports')}
+          className={`px-4 py-2 rounded-t-lg text-sm transition-colors ${
+            tab === 'exports' ? 'bg-[#2d2d2d] text-white' : 'text-gray-400 hover:text-gray-300'
+          }`}
+        >
+          Unused exports ({report.unusedExports.length})
+        </button>
+        <button
+          onClick={() => setTab('functions')}
+          className={`px-4 py-2 rounded-t-lg text-sm transition-colors ${
+            tab === 'functions' ? 'bg-[#2d2d2d] text-white' : 'text-gray-400 hover:text-gray-300'
+          }`}
+        >
+          Uncalled functions ({report.uncalledFunctions.length})
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2 custom-scrollbar">
+        {groups.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-8">Nothing to report</div>
+        ) : (
+          groups.map(([file, fileEntries]) => (
+            <div key={file} className="mb-2">
+              <div className="flex items-center gap-1.5 px-4 py-1 text-xs text-gray-400 font-mono truncate" title={file}>
+                <FileCode size={12} className="text-blue-400 flex-shrink-0" />
+                {file}
+              </div>
+              {fileEntries.map(entry => (
+                <button
+                  key={`${entry.label}-${entry.line}`}
+                  onClick={() => onNavigate(entry.file, entry.line)}
+                  className="w-full flex items-center justify-between gap-2 pl-9 pr-4 py-1 text-left hover:bg-blue-600/20 transition-colors group"
+                >
+                  <span className="text-sm text-gray-300 group-hover:text-white font-mono truncate">{entry.label}</span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">{entry.detail} · L{entry.line}</span>
+                </button>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-[#333] bg-[#252526] text-xs text-gray-500">
+        Entry points and framework callbacks may appear here; only files on the canvas are checked.
+      </div>
+    </div>
+  );
+};
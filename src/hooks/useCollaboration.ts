@@ -1,7 +1,7 @@
-import { useEffect, useState, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef } from 'react';
 import * as Y from 'yjs';
 import { WebsocketProvider } from 'y-websocket';
-import { useFileStore, Drawing } from '../store/useFileStore';
+import { useFileStore, Drawing, SavedFlow } from '../store/useFileStore';
 
 const getBackendUrl = () => import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 
@@ -16,10 +16,23 @@ const getWSURL = () => {
   return backendUrl;
 };
 
+// Which saved flow the room is watching, and who is stepping through it
+export interface FlowPlayback {
+  flowId: string;
+  stepIndex: number;
+  isPaused: boolean;
+  driver: number; // Yjs client id of whoever last moved the playback
+  driverName: string;
+}
+
 export const useCollaboration = (roomId: string | null) => {
-  const { setDrawings } = useFileStore();
+  const { setDrawings, setSavedFlows } = useFileStore();
   const [status, setStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
+  const [playback, setPlayback] = useState<FlowPlayback | null>(null);
+  const [clientId, setClientId] = useState<number | null>(null);
   const yArrayRef = useRef<Y.Array<Drawing> | null>(null);
+  const yFlowsRef = useRef<Y.Array<SavedFlow> | null>(null);
+  const yPlaybackRef = useRef<Y.Map<FlowPlayback> | null>(null);
 
   useEffect(() => {
     if (!roomId) {
@@ -34,6 +47,11 @@ export const useCollaboration = (roomId: string | null) => {
 
     const yDrawings = ydoc.getArray<Drawing>('drawings');
     yArrayRef.current = yDrawings;
+    const yFlows = ydoc.getArray<SavedFlow>('flows');
+    yFlowsRef.current = yFlows;
+    const yPlayback = ydoc.getMap<FlowPlayback>('flowPlayback');
+    yPlaybackRef.current = yPlayback;
+    setClientId(ydoc.clientID);
 
     setStatus('connecting');
 
@@ -45,17 +63,33 @@ export const useCollaboration = (roomId: string | null) => {
       setDrawings(yDrawings.toArray());
     });
 
+    yFlows.observe(() => {
+      setSavedFlows(yFlows.toArray());
+    });
+
+    yPlayback.observe(() => {
+      setPlayback(yPlayback.get('current') ?? null);
+    });
+
     // Initial sync if data exists
     if (yDrawings.length > 0) {
         setDrawings(yDrawings.toArray());
     }
+    if (yFlows.length > 0) {
+        setSavedFlows(yFlows.toArray());
+    }
     
     return () => {
       provider.destroy();
       ydoc.destroy();
       yArrayRef.current = null;
+      yFlowsRef.current = null;
+      yPlaybackRef.current = null;
+      // The room's flows and playback don't carry over to the next room, or to working alone
+      setSavedFlows([]);
+      setPlayback(null);
     };
-  }, [roomId, setDrawings]);
+  }, [roomId, setDrawings, setSavedFlows]);
 
   const addDrawingToYjs = (drawing: Drawing) => {
     if (yArrayRef.current) {
@@ -85,6 +119,61 @@ export const useCollaboration = (roomId: string | null) => {
       }
   };
   
-  return { status, addDrawingToYjs, updateDrawingInYjs, removeDrawingFromYjs };
+  const addFlowToYjs = (flow: SavedFlow) => {
+    if (yFlowsRef.current) {
+        yFlowsRef.current.push([flow]);
+    }
+  };
+
+  const updateFlowInYjs = (id: string, updates: Partial<SavedFlow>) => {
+      if (yFlowsRef.current) {
+          const arr = yFlowsRef.current.toArray();
+          const index = arr.findIndex(f => f.id === id);
+          if (index !== -1) {
+              const old = arr[index];
+              yFlowsRef.current.delete(index, 1);
+              yFlowsRef.current.insert(index, [{ ...old, ...updates }]);
+          }
+      }
+  };
+
+  const removeFlowFromYjs = (id: string) => {
+      if (yFlowsRef.current) {
+          const index = yFlowsRef.current.toArray().findIndex(f => f.id === id);
+          if (index !== -1) {
+              yFlowsRef.current.delete(index, 1);
+          }
+      }
+  };
+
+  // null stops the room's playback. Stable per room (clientId is set with each new doc), as
+  // CodeCanvas shares its playback from an effect that depends on it.
+  const setPlaybackInYjs = useCallback((next: Omit<FlowPlayback, 'driver'> | null) => {
+      const yPlayback = yPlaybackRef.current;
+      if (!yPlayback || clientId === null) return;
+      if (!next) {
+          yPlayback.delete('current');
+          return;
+      }
+      const current = yPlayback.get('current');
+      if (
+          current && current.driver === clientId && current.flowId === next.flowId &&
+          current.stepIndex === next.stepIndex && current.isPaused === next.isPaused
+      ) return;
+      yPlayback.set('current', { ...next, driver: clientId });
+  }, [clientId]);
+  
+  return {
+    status,
+    addDrawingToYjs,
+    updateDrawingInYjs,
+    removeDrawingFromYjs,
+    addFlowToYjs,
+    updateFlowInYjs,
+    removeFlowFromYjs,
+    playback,
+    clientId,
+    setPlaybackInYjs,
+  };
 };
 
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Octokit } from '@octokit/rest';
+import { useFileStore, FileStructure, GitHubTreeNode } from '../store/useFileStore';
+import { analyzeFiles } from '../services/analysisPool';
+import { githubCacheScope } from '../services/analysisCache';
+import { CodeSearchEngine, ContentMatch, ContentSearchOptions } from '../services/searchEngine';
+import {
+  PendingFetchProgress,
+  fetchPendingBlob,
+  fetchPendingBlobs,
+  isSearchableContent,
+  matchPendingPaths,
+  unfetchedNodes,
+} from '../services/pendingFiles';
+
+interface UnfetchedSearch {
+  unfetched: GitHubTreeNode[];
+  progress: PendingFetchProgress | null; // While contents are being fetched
+  error: string | null; // Why the last content search stopped early
+  searchPaths: (query: string) => string[];
+  searchContents: (query: string, options: ContentSearchOptions, onMatches: (matches: ContentMatch[]) => void) => void;
+  cancel: () => void;
+  openFile: (path: string) => Promise<FileStructure>;
+}
+
+// Matches are reported again after this many more files arrive
+const REPORT_EVERY_FILES = 10;
+
+// Search files of a GitHub import that are outside the selected segments. Paths match at once;
+// contents are fetched in the background (and kept for later searches) with matches reported as they come.
+export function useUnfetchedSearch(): UnfetchedSearch {
+  const { cachedRepoData, githubContext, addToCache, setFiles } = useFileStore();
+  const [progress, setProgress] = useState<PendingFetchProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Fetched contents, indexed like the files on the canvas
+  const engineRef = useRef(new CodeSearchEngine());
+  const fetchedRef = useRef(new Map<string, FileStructure>());
+  const abortRef = useRef<AbortController | null>(null);
+
+  const unfetched = useMemo(() => (githubContext ? unfetchedNodes(cachedRepoData) : []), [cachedRepoData, githubContext]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const searchPaths = useCallback((query: string) => matchPendingPaths(unfetched, query).map(node => node.path), [unfetched]);
+
+  const searchContents = useCallback((query: string, options: ContentSearchOptions, onMatches: (matches: ContentMatch[]) => void) => {
+    cancel();
+    setError(null);
+    const controller = new AbortController();
+    const unfetchedPaths = new Set(unfetched.map(node => node.path));
+    // Files opened since are on the canvas and searched there
+    const report = () => {
+      if (!controller.signal.aborted) onMatches(engineRef.current.searchContent(query, options).filter(m => unfetchedPaths.has(m.file)));
+    };
+    report();
+
+    const missing = unfetched.filter(node => !fetchedRef.current.has(node.path) && isSearchableContent(node.path));
+    if (missing.length === 0 || !githubContext) return;
+
+    abortRef.current = controller;
+    setProgress({ done: 0, total: missing.length, skipped: 0 });
+    let sinceReport = 0;
+    fetchPendingBlobs(missing, {
+      octokit: new Octokit({ auth: githubContext.token }),
+      owner: githubContext.owner,
+      repo: githubContext.repo,
+      signal: controller.signal,
+      onProgress: (p) => {
+        if (!controller.signal.aborted) setProgress(p);
+      },
+      onFile: (file) => {
+        fetchedRef.current.set(file.path, file);
+        engineRef.current.addFileToIndex(file);
+        if (++sinceReport >= REPORT_EVERY_FILES) {
+          sinceReport = 0;
+          report();
+        }
+      },
+    })
+      .then((skipped) => {
+        // Skipped files stay unfetched, so the next search tries them again
+        if (skipped > 0 && !controller.signal.aborted) {
+          setError(`${skipped} of ${missing.length} files could not be fetched and were not searched`);
+        }
+      })
+      .catch((e: Error) => {
+        if (!controller.signal.aborted) setError(e.message);
+      })
+      .finally(() => {
+        report();
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setProgress(null);
+        }
+      });
+  }, [unfetched, githubContext, cancel]);
+
+  // Fetch (unless a search already did), analyse and add the file to the canvas
+  const openFile = useCallback(async (path: string) => {
+    const node = unfetched.find(n => n.path === path);
+    if (!node || !githubContext) throw new Error(`${path} is not an unfetched file of this repository`);
+    const { owner, repo, token } = githubContext;
+    const file = fetchedRef.current.get(path) ?? await fetchPendingBlob(node, new Octokit({ auth: token }), owner, repo);
+    const [analyzed] = await analyzeFiles([file], { cacheScope: githubCacheScope(owner, repo) });
+    // Cache first so its imports link against the rest of the repo
+    addToCache([analyzed]);
+    setFiles([...useFileStore.getState().files, analyzed]);
+    return analyzed;
+  }, [unfetched, githubContext, addToCache, setFiles]);
+
+  return { unfetched, progress, error, searchPaths, searchContents, cancel, openFile };
+}
@@ -0,0 +1,172 @@
+import { FileStructure } from '../store/useFileStore';
+import { FileAnalysis } from '../utils/codeAnalyzer';
+import { CodeSearchEngine, SerializedSearchIndex } from './searchEngine';
+
+// Analyses and search indexes kept in IndexedDB between visits, per repo ("scope"):
+// reopening a repo or room only re-analyses and re-indexes the files whose content changed.
+const DB_NAME = 'code-canvas-cache';
+const DB_VERSION = 1;
+const ANALYSES = 'analyses';
+const SEARCH_INDEXES = 'searchIndexes';
+
+// Bump when analyzers change what they produce, so older cached analyses are ignored
+const ANALYSIS_CACHE_VERSION = 5;
+
+interface CachedSearchIndex {
+  index: SerializedSearchIndex;
+  signatures: Record<string, string>; // filepath -> fileSignature when it was indexed
+}
+
+export const githubCacheScope = (owner: string, repo: string) => `github:${owner}/${repo}`;
+
+// Uploaded folders go by their top-level directory
+export const localCacheScope = (files: FileStructure[]) => `local:${files[0]?.path.split('/')[0] ?? ''}`;
+
+export const roomCacheScope = (roomId: string) => `room:${roomId}`;
+
+// 53-bit string hash (cyrb53); with the length it tells file versions apart
+export const contentHash = (content: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)}-${content.length}`;
+};
+
+// What the search index of a file depends on: its content, and whether its functions are known yet
+const fileSignature = (file: FileStructure) => `${contentHash(file.content)}:${file.analysis ? 'analyzed' : 'raw'}`;
+
+const analysisKeyPrefix = (scope: string, path: string) => `${ANALYSIS_CACHE_VERSION}|${scope}|${path}|`;
+
+const analysisKey = (scope: string, file: FileStructure) => analysisKeyPrefix(scope, file.path) + contentHash(file.content);
+
+// Every key starting with prefix; keys are joined with '|' and never contain '\uffff'
+const keysStartingWith = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ANALYSES);
+        request.result.createObjectStore(SEARCH_INDEXES);
+      };
+      request.onsuccess = () => {
+        dropOldAnalyses(request.result);
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after private browsing blocked the first open
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+// Analyses cached before the last ANALYSIS_CACHE_VERSION bump can never be read again
+const dropOldAnalyses = (db: IDBDatabase) => {
+  const current = keysStartingWith(`${ANALYSIS_CACHE_VERSION}|`);
+  const transaction = db.transaction(ANALYSES, 'readwrite');
+  const store = transaction.objectStore(ANALYSES);
+  store.delete(IDBKeyRange.upperBound(current.lower, true));
+  store.delete(IDBKeyRange.lowerBound(current.upper, true));
+  transactionDone(transaction).catch(e => console.error('Failed to clear outdated cached analyses', e));
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Cached analyses of the files' current content, by path. The cache only ever speeds things
+// up, so failures are logged and treated as misses.
+export async function loadAnalyses(scope: string, files: FileStructure[]): Promise<Map<string, FileAnalysis>> {
+  const found = new Map<string, FileAnalysis>();
+  try {
+    const store = (await openDatabase()).transaction(ANALYSES, 'readonly').objectStore(ANALYSES);
+    const analyses = await Promise.all(files.map(file => requestResult<FileAnalysis | undefined>(store.get(analysisKey(scope, file)))));
+    analyses.forEach((analysis, i) => {
+      if (analysis) found.set(files[i].path, analysis);
+    });
+  } catch (e) {
+    console.error('Failed to read cached analyses', e);
+  }
+  return found;
+}
+
+export async function saveAnalyses(scope: string, files: FileStructure[]) {
+  const analyzed = files.filter(file => file.analysis);
+  if (analyzed.length === 0) return;
+  try {
+    const transaction = (await openDatabase()).transaction(ANALYSES, 'readwrite');
+    const store = transaction.objectStore(ANALYSES);
+    // Earlier versions of these files are replaced rather than kept alongside
+    analyzed.forEach(file => {
+      store.delete(keysStartingWith(analysisKeyPrefix(scope, file.path)));
+      store.put(file.analysis, analysisKey(scope, file));
+    });
+    await transactionDone(transaction);
+  } catch (e) {
+    console.error('Failed to cache analyses', e);
+  }
+}
+
+export async function saveSearchIndex(scope: string, engine: CodeSearchEngine, files: FileStructure[]) {
+  const cached: CachedSearchIndex = {
+    index: engine.exportIndex(),
+    signatures: Object.fromEntries(files.map(file => [file.path, fileSignature(file)])),
+  };
+  try {
+    const transaction = (await openDatabase()).transaction(SEARCH_INDEXES, 'readwrite');
+    transaction.objectStore(SEARCH_INDEXES).put(cached, scope);
+    await transactionDone(transaction);
+  } catch (e) {
+    console.error('Failed to cache the search index', e);
+  }
+}
+
+// Load the index saved for scope into engine and bring it up to date with getFiles(), re-indexing
+// only files that changed since. Without a usable saved index the whole index is built.
+export async function restoreSearchIndex(scope: string, engine: CodeSearchEngine, getFiles: () => FileStructure[]) {
+  let cached: CachedSearchIndex | undefined;
+  try {
+    const store = (await openDatabase()).transaction(SEARCH_INDEXES, 'readonly').objectStore(SEARCH_INDEXES);
+    cached = await requestResult<CachedSearchIndex | undefined>(store.get(scope));
+  } catch (e) {
+    console.error('Failed to read the cached search index', e);
+  }
+
+  // Files may have changed while the index was being read
+  const files = getFiles();
+  if (!cached || !engine.importIndex(cached.index)) {
+    engine.buildIndex(files);
+    return;
+  }
+
+  const currentPaths = new Set(files.map(file => file.path));
+  Object.keys(cached.signatures)
+    .filter(path => !currentPaths.has(path))
+    .forEach(path => engine.removeFileFromIndex(path));
+  files
+    .filter(file => cached!.signatures[file.path] !== fileSignature(file))
+    .forEach(file => engine.updateFileInIndex(file));
+}
@@ -0,0 +1,163 @@
+import { FileStructure } from '../store/useFileStore';
+import { FileAnalysis } from '../utils/codeAnalyzer';
+import { analyzeFile, isAnalyzableLanguage } from '../utils/languageRegistry';
+import { loadAnalyses, saveAnalyses } from './analysisCache';
+
+// Message protocol between the pool and analysisWorker: one file per request
+export interface AnalysisRequest {
+  id: number;
+  path: string;
+  content: string;
+  language: string;
+}
+
+export type AnalysisResponse =
+  | { id: number; analysis: FileAnalysis }
+  | { id: number; error: string };
+
+export interface AnalysisProgress {
+  done: number;
+  total: number;
+  path: string; // File that just finished
+}
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal; // Aborting drops queued files and rejects with ANALYSIS_CANCELLED
+  onProgress?: (progress: AnalysisProgress) => void;
+  cacheScope?: string; // Repo whose analyses are reused from, and saved to, the IndexedDB cache
+}
+
+export const ANALYSIS_CANCELLED = 'Analysis cancelled';
+
+export const isAnalyzable = (file: FileStructure) => isAnalyzableLanguage(file.language);
+
+interface Task extends AnalysisRequest {
+  signal?: AbortSignal;
+  resolve: (analysis: FileAnalysis | undefined) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task?: Task; // File being analysed
+}
+
+// Leave a core for the UI thread
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+const queue: Task[] = [];
+let workers: PoolWorker[] | null = null;
+let nextTaskId = 0;
+let isDrainingOnMainThread = false;
+
+const analyzeSafely = ({ path, content, language }: AnalysisRequest) => {
+  try {
+    return analyzeFile(path, content, language);
+  } catch (e) {
+    console.error(`Failed to analyze ${path}`, e);
+    return undefined;
+  }
+};
+
+// Without workers (or once they have all failed) files are analysed here, yielding between files
+const drainOnMainThread = () => {
+  if (isDrainingOnMainThread) return;
+  isDrainingOnMainThread = true;
+  const step = () => {
+    const task = queue.shift();
+    if (!task) {
+      isDrainingOnMainThread = false;
+      return;
+    }
+    task.resolve(analyzeSafely(task));
+    setTimeout(step, 0);
+  };
+  setTimeout(step, 0);
+};
+
+const createWorker = (): PoolWorker => {
+  const entry: PoolWorker = {
+    worker: new Worker(new URL('../utils/analysisWorker.ts', import.meta.url), { type: 'module' }),
+  };
+
+  entry.worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+    const task = entry.task;
+    entry.task = undefined;
+    if (task && task.id === event.data.id) {
+      if ('error' in event.data) console.error(`Failed to analyze ${task.path}`, event.data.error);
+      task.resolve('analysis' in event.data ? event.data.analysis : undefined);
+    }
+    dispatch();
+  };
+
+  // A worker that fails to load or crashes leaves the pool; its file is retried on the main thread
+  entry.worker.onerror = (event) => {
+    event.preventDefault();
+    entry.worker.terminate();
+    workers = (workers || []).filter(w => w !== entry);
+    if (entry.task) queue.unshift(entry.task);
+    dispatch();
+  };
+
+  return entry;
+};
+
+const dispatch = () => {
+  if (!workers) {
+    workers = typeof Worker === 'undefined' ? [] : Array.from({ length: POOL_SIZE }, createWorker);
+  }
+  if (workers.length === 0) {
+    drainOnMainThread();
+    return;
+  }
+
+  workers.forEach(entry => {
+    if (entry.task) return;
+    const task = queue.shift();
+    if (!task) return;
+    entry.task = task;
+    const request: AnalysisRequest = { id: task.id, path: task.path, content: task.content, language: task.language };
+    entry.worker.postMessage(request);
+  });
+};
+
+const enqueue = ({ path, content, language }: FileStructure, signal?: AbortSignal) =>
+  new Promise<FileAnalysis | undefined>(resolve => {
+    queue.push({ id: nextTaskId++, path, content, language, signal, resolve });
+    dispatch();
+  });
+
+// Files still waiting are dropped; ones already in a worker finish and are discarded
+const cancelQueued = (signal: AbortSignal) => {
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (queue[i].signal === signal) queue.splice(i, 1)[0].resolve(undefined);
+  }
+};
+
+// Analyse source files off the main thread. Other files are returned untouched,
+// as are files whose analysis failed. With a cacheScope, files analysed before are not parsed again.
+export async function analyzeFiles(files: FileStructure[], { signal, onProgress, cacheScope }: AnalyzeOptions = {}): Promise<FileStructure[]> {
+  if (signal?.aborted) throw new Error(ANALYSIS_CANCELLED);
+
+  const total = files.filter(isAnalyzable).length;
+  const cached = cacheScope ? await loadAnalyses(cacheScope, files.filter(isAnalyzable)) : new Map<string, FileAnalysis>();
+  if (signal?.aborted) throw new Error(ANALYSIS_CANCELLED);
+  let done = 0;
+  const abort = () => signal && cancelQueued(signal);
+  signal?.addEventListener('abort', abort);
+
+  try {
+    const analyzed = await Promise.all(files.map(async file => {
+      if (!isAnalyzable(file)) return file;
+      const analysis = cached.get(file.path) ?? await enqueue(file, signal);
+      done++;
+      if (!signal?.aborted) onProgress?.({ done, total, path: file.path });
+      return analysis ? { ...file, analysis } : file;
+    }));
+    if (signal?.aborted) throw new Error(ANALYSIS_CANCELLED);
+    // Saved in the background; failures only cost a re-parse next time
+    if (cacheScope) saveAnalyses(cacheScope, analyzed.filter(file => !cached.has(file.path)));
+    return analyzed;
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+}
@@ -0,0 +1,154 @@
+import { FileStructure } from '../store/useFileStore';
+import { FunctionInfo } from '../utils/codeAnalyzer';
+import { matchRecordedPath } from '../utils/recordedPaths';
+
+// Partial lines ran, but some branch on them never did
+export type LineCoverage = 'covered' | 'partial' | 'uncovered';
+
+export interface FileCoverage {
+  lines: Record<number, LineCoverage>; // Instrumented lines only
+  functionHits: Record<number, number>; // Calls by the line a function starts on, where the report counts them
+  percent: number; // Share of instrumented lines that ran, 0-100
+}
+
+// By loaded file path
+export type CoverageMap = Map<string, FileCoverage>;
+
+// Hits and branch outcomes per line of one source file, as the report gives them
+interface RawFileCoverage {
+  hits: Map<number, number>;
+  missedBranches: Set<number>;
+  functionHits: Map<number, number>;
+}
+
+// Istanbul coverage-final.json entry (older reporters nest it under data)
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap: Record<string, { start: { line: number } }>;
+  s: Record<string, number>;
+  branchMap?: Record<string, { line?: number; loc?: { start: { line: number } } }>;
+  b?: Record<string, number[]>;
+  fnMap?: Record<string, { line?: number; decl?: { start: { line: number } } }>;
+  f?: Record<string, number>;
+}
+
+const emptyRaw = (): RawFileCoverage => ({ hits: new Map(), missedBranches: new Set(), functionHits: new Map() });
+
+// SF: starts a file, DA:line,hits, BRDA:line,block,branch,taken and FN:line,name with
+// FNDA:hits,name fill it, end_of_record closes it
+const parseLcov = (text: string) => {
+  const files = new Map<string, RawFileCoverage>();
+  let current: RawFileCoverage | undefined;
+  const functionLines = new Map<string, number>();
+  text.split('\n').forEach(raw => {
+    const line = raw.trim();
+    const separator = line.indexOf(':');
+    const tag = separator === -1 ? line : line.slice(0, separator);
+    const fields = line.slice(separator + 1).split(',');
+
+    if (tag === 'SF') {
+      current = files.get(fields.join(',')) ?? emptyRaw();
+      files.set(fields.join(','), current);
+      functionLines.clear();
+    } else if (tag === 'end_of_record') {
+      current = undefined;
+    } else if (current && tag === 'DA') {
+      const lineNumber = Number(fields[0]);
+      current.hits.set(lineNumber, (current.hits.get(lineNumber) || 0) + Number(fields[1]));
+    } else if (current && tag === 'BRDA') {
+      // '-' means the expression holding the branch never ran
+      if (fields[3] === '-' || Number(fields[3]) === 0) current.missedBranches.add(Number(fields[0]));
+    } else if (current && tag === 'FN') {
+      functionLines.set(fields.slice(1).join(','), Number(fields[0]));
+    } else if (current && tag === 'FNDA') {
+      const line = functionLines.get(fields.slice(1).join(','));
+      if (line !== undefined) current.functionHits.set(line, (current.functionHits.get(line) || 0) + Number(fields[0]));
+    }
+  });
+  return files;
+};
+
+// A line is hit as often as the most-run statement starting on it, as Istanbul's own reports do
+const parseIstanbul = (report: Record<string, IstanbulFileCoverage | { data: IstanbulFileCoverage }>) => {
+  const files = new Map<string, RawFileCoverage>();
+  Object.entries(report).forEach(([key, value]) => {
+    const entry = 'data' in value ? value.data : value;
+    if (!entry?.statementMap || !entry.s) return;
+    const raw = emptyRaw();
+    Object.entries(entry.statementMap).forEach(([id, statement]) => {
+      const line = statement.start.line;
+      raw.hits.set(line, Math.max(raw.hits.get(line) ?? 0, entry.s[id] ?? 0));
+    });
+    Object.entries(entry.branchMap || {}).forEach(([id, branch]) => {
+      const line = branch.line ?? branch.loc?.start.line;
+      if (line !== undefined && (entry.b?.[id] || []).some(count => count === 0)) raw.missedBranches.add(line);
+    });
+    Object.entries(entry.fnMap || {}).forEach(([id, fn]) => {
+      const line = fn.decl?.start.line ?? fn.line;
+      if (line !== undefined) raw.functionHits.set(line, entry.f?.[id] ?? 0);
+    });
+    files.set(entry.path ?? key, raw);
+  });
+  return files;
+};
+
+const toFileCoverage = ({ hits, missedBranches, functionHits }: RawFileCoverage): FileCoverage => {
+  const lines: Record<number, LineCoverage> = {};
+  let ran = 0;
+  hits.forEach((count, line) => {
+    if (count > 0) ran++;
+    lines[line] = count === 0 ? 'uncovered' : missedBranches.has(line) ? 'partial' : 'covered';
+  });
+  return { lines, functionHits: Object.fromEntries(functionHits), percent: hits.size > 0 ? Math.round((ran / hits.size) * 100) : 100 };
+};
+
+// Coverage of the loaded files from an lcov.info or Istanbul coverage-final.json report.
+// Reports for files that aren't loaded are dropped.
+export function parseCoverageReport(files: FileStructure[], fileName: string, text: string): CoverageMap {
+  let report: Map<string, RawFileCoverage>;
+  if (fileName.endsWith('.json') || text.trimStart().startsWith('{')) {
+    let document: unknown;
+    try {
+      document = JSON.parse(text);
+    } catch {
+      throw new Error(`${fileName} is not valid JSON`);
+    }
+    report = parseIstanbul(document as Record<string, IstanbulFileCoverage>);
+  } else {
+    report = parseLcov(text);
+  }
+  if (report.size === 0) throw new Error('Expected an lcov.info or Istanbul coverage-final.json report');
+
+  // Several entries may match one loaded file (src/index.ts, packages/api/src/index.ts); the closest wins
+  const matched = new Map<string, { raw: RawFileCoverage; length: number }>();
+  report.forEach((raw, path) => {
+    const match = matchRecordedPath(files, path);
+    if (match && match.length > (matched.get(match.file.path)?.length ?? 0)) {
+      matched.set(match.file.path, { raw, length: match.length });
+    }
+  });
+  const coverage: CoverageMap = new Map();
+  matched.forEach(({ raw }, path) => coverage.set(path, toFileCoverage(raw)));
+  return coverage;
+}
+
+// Never called, by the report's function counts; otherwise instrumented with not one of its lines run
+export const isFunctionUncovered = (coverage: FileCoverage | undefined, func: FunctionInfo) => {
+  if (!coverage) return false;
+  const calls = coverage.functionHits[func.startLine];
+  if (calls !== undefined) return calls === 0;
+  let instrumented = false;
+  for (let line = func.startLine; line <= func.endLine; line++) {
+    const state = coverage.lines[line];
+    if (state && state !== 'uncovered') return false;
+    if (state) instrumented = true;
+  }
+  return instrumented;
+};
+
+export const findUncoveredFunctions = (files: FileStructure[], coverage: CoverageMap) =>
+  files.flatMap(file =>
+    (file.analysis?.functions || [])
+      .filter(func => isFunctionUncovered(coverage.get(file.path), func))
+      .map(func => ({ file: file.path, name: func.name, line: func.startLine }))
+  );
@@ -0,0 +1,589 @@
+import { FileStructure } from '../store/useFileStore';
+import { CallInfo, ControlFlowBranch, ControlFlowNode, EndpointInfo } from '../utils/codeAnalyzer';
+import { SymbolLocation, findFunction, resolveSymbol } from '../utils/moduleResolver';
+import { endpointLabel } from '../utils/endpointDetectors';
+import { matchRequest, RequestTarget } from '../utils/clientRequests';
+
+export type FlowStep =
+  | { type: 'highlight-def'; file: string; func: string }
+  | { type: 'highlight-call'; file: string; line: number }
+  | { type: 'highlight-return'; file: string; lines: number[] }
+  | { type: 'highlight-endpoint'; file: string; line: number }
+  | { type: 'animate-edge'; fromFile: string; toFile: string; fromLine: number; toFunc: string }
+  | { type: 'return-edge'; fromFile: string; toFile: string; fromFunc: string; toLine: number }
+  | { type: 'execute-line'; file: string; line: number }
+  | { type: 'animate-edge-with-dot'; fromFile: string; toFile: string; fromLine: number; toFunc: string; toFuncLine?: number; callName?: string; toRouteLine?: number; mode?: FlowEdgeMode; label?: string }
+  | { type: 'return-edge-with-dot'; fromFile: string; toFile: string; fromFunc: string; fromFuncLine?: number; toLine: number; callName?: string; fromRouteLine?: number }
+  | { type: 'prepare-return'; file: string; func: string; funcLine?: number }
+  // choices are the ones the flow was generated with; the point is decided once its key is among them
+  | { type: 'branch'; file: string; line: number; key: string; options: string[]; chosen: number; choices: BranchChoices }
+  // One of several alternatives played after "all paths"; lines executed before the branch are restored first
+  | { type: 'begin-track'; label: string; index: number; total: number; level: number; executedLines: Record<string, number[]>; queuedTasks: QueuedTask[] }
+  // A deferred callback is queued where it is registered and runs once the synchronous flow is done
+  | { type: 'enqueue-task'; task: QueuedTask }
+  | { type: 'dequeue-task'; id: number }
+  // Generation stopped short here; line is the call not followed, or the line the step budget ran out on
+  | { type: 'limit-reached'; file: string; line: number; func: string; reason: FlowLimitReason };
+
+// How an edge hands over control, when not by a plain synchronous call. Recursion loops back
+// into a function that is already running.
+export type FlowEdgeMode = 'await' | 'callback' | 'deferred' | 'event' | 'recursion';
+
+export type FlowLimitReason = 'depth' | 'recursion' | 'steps';
+
+export interface FlowLimits {
+  maxDepth: number; // Nested calls followed from the start
+  maxRecursion: number; // Frames of one function open at once
+  maxSteps: number;
+}
+
+export const DEFAULT_FLOW_LIMITS: FlowLimits = { maxDepth: 12, maxRecursion: 3, maxSteps: 2000 };
+
+export interface QueuedTask {
+  id: number;
+  queue: 'microtask' | 'task';
+  label: string;
+  file: string; // Where the callback was registered
+  line: number;
+}
+
+// Option taken at each branch point, by FlowStep key. Points without an entry take their default.
+export type BranchChoices = Record<string, number>;
+
+// Recorded for a branch point whose options are played one after another
+export const ALL_PATHS = -1;
+
+// line is where a function starts, telling apart same-named methods of one file
+export type FlowStart = { file: string; name: string; type: 'func' | 'endpoint'; line?: number };
+
+// How a block was left: falling off its end, or by a jump still looking for its target
+type Completion = 'normal' | 'return' | 'throw' | 'break' | 'continue';
+
+// Deferred callbacks run after the synchronous flow; setInterval would otherwise never stop
+const MAX_DEFERRED_RUNS = 50;
+
+// Guard clauses (if (!user) return) are usually not the path worth watching
+const leavesFunction = (branch: ControlFlowBranch) =>
+  branch.children.some(node => node.kind === 'return' || node.kind === 'throw');
+
+export function generateFlowPath(
+  files: FileStructure[],
+  start: FlowStart,
+  choices: BranchChoices = {},
+  limits: FlowLimits = DEFAULT_FLOW_LIMITS
+): FlowStep[] {
+  const steps: FlowStep[] = [];
+  // file:startLine of the functions running, outermost first
+  const running: string[] = [];
+  // Set once maxSteps is used up; every running function then returns straight away
+  let isOutOfSteps = false;
+  // A branch point is keyed by where it is and how many times the flow has reached it
+  const occurrences = new Map<string, number>();
+  const microtasks: { task: QueuedTask; callName: string; via: string; target: SymbolLocation }[] = [];
+  const tasks: typeof microtasks = [];
+  let nextTaskId = 0;
+
+  const choose = (file: string, line: number, options: string[], defaultOption = 0) => {
+    const point = `${file}:${line}`;
+    const occurrence = occurrences.get(point) || 0;
+    occurrences.set(point, occurrence + 1);
+    const key = `${point}#${occurrence}`;
+    const chosen = Math.max(0, Math.min(choices[key] ?? defaultOption, options.length - 1));
+    steps.push({ type: 'branch', file, line, key, options, chosen, choices });
+    return chosen;
+  };
+
+  // Lines of the function are played in order, skipping branches not taken; a callee that
+  // throws makes its call line throw
+  const traverse = (currentFile: string, funcName: string, funcLine?: number): Completion => {
+    const fileData = files.find(f => f.path === currentFile);
+    if (!fileData?.analysis) return 'normal';
+    const funcInfo = findFunction(fileData.analysis.functions, funcName, funcLine);
+    if (!funcInfo) return 'normal';
+    const currentFunc = funcInfo.name;
+    running.push(`${currentFile}:${funcInfo.startLine}`);
+
+    // Headers shared by a structure and its first branch run once
+    const executed = new Set<number>();
+
+    const executeLine = (lineNum: number): Completion => {
+      if (isOutOfSteps) return 'return';
+      if (executed.has(lineNum)) return 'normal';
+      if (steps.length >= limits.maxSteps) {
+        isOutOfSteps = true;
+        steps.push({ type: 'limit-reached', file: currentFile, line: lineNum, func: currentFunc, reason: 'steps' });
+        return 'return';
+      }
+      executed.add(lineNum);
+
+      const callsAtLine = funcInfo.calls.filter(c => c.line === lineNum);
+      const callAtLine = callsAtLine.find(c => !c.via);
+
+      // fetch/axios/emit call sites continue on the server, whichever call of the line makes the
+      // request: fetch(url).then(r => r.json()) and (await fetch(url)).json() start with another call
+      const request = fileData.analysis!.requests?.find(r => r.line === lineNum && callsAtLine.some(c => c.name === r.callName));
+      const requestTargets = request ? matchRequest(files, request) : [];
+
+      steps.push({ type: 'execute-line', file: currentFile, line: lineNum });
+
+      if (request && requestTargets.length > 0) {
+        requestTargets.forEach(target => crossTier(currentFile, lineNum, request.callName, target));
+      } else if (callAtLine) {
+        const target = resolveSymbol(files, fileData, callAtLine.name, callAtLine.receiver, funcInfo.owner);
+        if (target) {
+          const completion = enterCall(currentFile, lineNum, callAtLine.name, target, callAtLine.mode === 'await' ? 'await' : undefined);
+          if (completion === 'throw') return 'throw';
+        } else if (callAtLine.mode === 'emit' && callAtLine.event) {
+          emitEvent(currentFile, lineNum, callAtLine.name, callAtLine.event);
+        }
+      }
+
+      // Callbacks handed over on this line: run now, queued for later, or kept for their event
+      for (const callback of callsAtLine.filter(c => c.via)) {
+        // An inline callback's own lines play when it runs, not as part of this function
+        if (callback.inline) {
+          for (let l = callback.inline.startLine; l <= callback.inline.endLine; l++) {
+            if (l !== lineNum) executed.add(l);
+          }
+        }
+        if (callback.mode === 'listener') continue;
+
+        const target = resolveSymbol(files, fileData, callback.name, callback.receiver, funcInfo.owner);
+        if (!target) continue;
+        if (callback.mode === 'microtask' || callback.mode === 'task') {
+          const task: QueuedTask = {
+            id: nextTaskId++,
+            queue: callback.mode,
+            label: callback.inline ? callback.name : `${callback.via} → ${target.func}`,
+            file: currentFile,
+            line: lineNum
+          };
+          (callback.mode === 'microtask' ? microtasks : tasks).push({ task, callName: callback.name, via: callback.via!, target });
+          steps.push({ type: 'enqueue-task', task });
+        } else if (enterCall(currentFile, lineNum, callback.name, target, 'callback', callback.via) === 'throw') {
+          return 'throw';
+        }
+      }
+      return 'normal';
+    };
+
+    const executeRange = (from: number, to: number): Completion => {
+      for (let lineNum = from; lineNum <= to; lineNum++) {
+        const completion = executeLine(lineNum);
+        if (completion !== 'normal') return completion;
+      }
+      return 'normal';
+    };
+
+    const runBlock = (startLine: number, endLine: number, children: ControlFlowNode[]): Completion => {
+      let lineNum = startLine;
+      for (const node of children) {
+        const before = executeRange(lineNum, node.line - 1);
+        if (before !== 'normal') return before;
+        const completion = runNode(node);
+        if (completion !== 'normal') return completion;
+        lineNum = Math.max(lineNum, ('endLine' in node ? node.endLine : node.line) + 1);
+      }
+      return executeRange(lineNum, endLine);
+    };
+
+    const runBranch = (branch: ControlFlowBranch) => runBlock(branch.startLine, branch.endLine, branch.children);
+
+    const runNode = (node: ControlFlowNode): Completion => {
+      const header = executeLine(node.line);
+      if (header !== 'normal') return header;
+
+      switch (node.kind) {
+        case 'return':
+        case 'throw':
+        case 'break':
+        case 'continue':
+          return node.kind;
+
+        case 'if': {
+          const options = node.branches.map(b => b.label);
+          const continuing = node.branches.findIndex(b => !leavesFunction(b));
+          const defaultOption = continuing !== -1 ? continuing : node.hasElse ? 0 : node.branches.length;
+          const chosen = choose(currentFile, node.line, node.hasElse ? options : [...options, 'none taken'], defaultOption);
+          return chosen < node.branches.length ? runBranch(node.branches[chosen]) : 'normal';
+        }
+
+        case 'switch': {
+          const options = node.branches.map(b => b.label);
+          const chosen = choose(currentFile, node.line, node.hasDefault ? options : [...options, 'no match']);
+          // Clauses fall through until one breaks
+          for (let i = chosen; i < node.branches.length; i++) {
+            const completion = runBranch(node.branches[i]);
+            if (completion === 'break') return 'normal';
+            if (completion !== 'normal') return completion;
+          }
+          return 'normal';
+        }
+
+        case 'loop': {
+          // The body plays once; a loop's else runs unless the body breaks
+          const skip = !node.runsOnce && choose(currentFile, node.line, ['run body', 'skip']) === 1;
+          const completion = skip ? 'normal' : runBranch(node.body);
+          if (completion === 'break') return 'normal';
+          if (completion !== 'normal' && completion !== 'continue') return completion;
+          return node.orElse ? runBranch(node.orElse) : 'normal';
+        }
+
+        case 'try': {
+          // Without a handler only an explicit throw leaves the block early
+          const chosen = node.handlers.length > 0
+            ? choose(currentFile, node.line, ['no exception', ...node.handlers.map(h => h.label)])
+            : 0;
+          let completion: Completion;
+          if (chosen === 0) {
+            completion = runBranch(node.body);
+            if (completion === 'throw' && node.handlers.length > 0) completion = runBranch(node.handlers[0]);
+            else if (completion === 'normal' && node.orElse) completion = runBranch(node.orElse);
+          } else {
+            completion = runBranch(node.handlers[chosen - 1]);
+          }
+          // finally runs on the way out, and its own jump wins
+          const finalizer = node.finalizer ? runBranch(node.finalizer) : 'normal';
+          return finalizer !== 'normal' ? finalizer : completion;
+        }
+      }
+    };
+
+    // An early return ends the function; an uncaught throw continues in the caller
+    const completion = runBlock(funcInfo.startLine, funcInfo.endLine, funcInfo.controlFlow);
+    running.pop();
+    return completion === 'throw' ? 'throw' : 'normal';
+  };
+
+  // Call into target and come back to the calling line. A call into a function that is already
+  // running loops back to it, numbered by how many of its frames are open once it is entered.
+  const enterCall = (fromFile: string, fromLine: number, callName: string, target: SymbolLocation, mode?: FlowEdgeMode, label?: string): Completion => {
+    if (isOutOfSteps || !files.some(f => f.path === target.file)) return 'normal';
+
+    if (running.length >= limits.maxDepth) {
+      steps.push({ type: 'limit-reached', file: fromFile, line: fromLine, func: target.func, reason: 'depth' });
+      return 'normal';
+    }
+
+    const targetInfo = findFunction(files.find(f => f.path === target.file)?.analysis?.functions || [], target.func, target.line);
+    const open = targetInfo ? running.filter(key => key === `${target.file}:${targetInfo.startLine}`).length : 0;
+    steps.push({
+      type: 'animate-edge-with-dot',
+      fromFile,
+      toFile: target.file,
+      fromLine,
+      toFunc: target.func,
+      toFuncLine: target.line,
+      callName,
+      mode: open > 0 ? 'recursion' : mode,
+      label: open > 0 ? `↻ ${open + 1}` : label
+    });
+
+    let completion: Completion = 'normal';
+    if (open >= limits.maxRecursion) {
+      steps.push({ type: 'limit-reached', file: fromFile, line: fromLine, func: target.func, reason: 'recursion' });
+    } else {
+      completion = traverse(target.file, target.func, target.line);
+    }
+
+    // Prepare for return - smooth zoom out
+    steps.push({ type: 'prepare-return', file: target.file, func: target.func, funcLine: target.line });
+    steps.push({
+      type: 'return-edge-with-dot',
+      fromFile: target.file,
+      toFile: fromFile,
+      fromFunc: target.func,
+      fromFuncLine: target.line,
+      toLine: fromLine,
+      callName
+    });
+    return completion;
+  };
+
+  // emitter.emit('saved') runs every in-process listener for the event, in any file
+  const emitEvent = (fromFile: string, fromLine: number, callName: string, event: string) => {
+    files.forEach(file => {
+      (file.analysis?.listeners || []).filter(l => l.event === event).forEach(listener => {
+        const target = resolveSymbol(files, file, listener.name, listener.receiver);
+        if (target) enterCall(fromFile, fromLine, callName, target, 'event', event);
+      });
+    });
+  };
+
+  // Microtasks run before the next task, as in the event loop
+  const runQueuedTasks = () => {
+    for (let runs = 0; runs < MAX_DEFERRED_RUNS && !isOutOfSteps; runs++) {
+      const next = microtasks.shift() ?? tasks.shift();
+      if (!next) return;
+      const { task, callName, via, target } = next;
+      steps.push({ type: 'dequeue-task', id: task.id });
+      steps.push({
+        type: 'animate-edge-with-dot',
+        fromFile: task.file,
+        toFile: target.file,
+        fromLine: task.line,
+        toFunc: target.func,
+        toFuncLine: target.line,
+        callName,
+        mode: 'deferred',
+        label: via
+      });
+      traverse(target.file, target.func, target.line);
+      steps.push({ type: 'prepare-return', file: target.file, func: target.func, funcLine: target.line });
+    }
+  };
+
+  // Enter a middleware or handler from where the route references it, then come back
+  const callThrough = (fromFile: FileStructure, ref: CallInfo, fromLine: number) => {
+    const target = resolveSymbol(files, fromFile, ref.name, ref.receiver);
+    if (!target) return;
+
+    steps.push({
+      type: 'animate-edge-with-dot',
+      fromFile: fromFile.path,
+      toFile: target.file,
+      fromLine,
+      toFunc: target.func,
+      toFuncLine: target.line,
+      callName: ref.name
+    });
+
+    traverse(target.file, target.func, target.line);
+
+    const targetFuncInfo = findFunction(files.find(f => f.path === target.file)?.analysis?.functions || [], target.func, target.line);
+    if (targetFuncInfo && targetFuncInfo.returns.length > 0) {
+      steps.push({ type: 'highlight-return', file: target.file, lines: targetFuncInfo.returns });
+    }
+
+    steps.push({ type: 'prepare-return', file: target.file, func: target.func, funcLine: target.line });
+    steps.push({
+      type: 'return-edge-with-dot',
+      fromFile: target.file,
+      toFile: fromFile.path,
+      fromFunc: target.func,
+      fromFuncLine: target.line,
+      toLine: fromLine,
+      callName: ref.name
+    });
+  };
+
+  // Middleware, then the handler, from the route declaration
+  const runEndpoint = (fileData: FileStructure, endpoint: EndpointInfo) => {
+    steps.push({ type: 'highlight-endpoint', file: fileData.path, line: endpoint.line });
+
+    // Middleware from other files' mounts runs first, each resolved from the file that mounts it
+    (endpoint.mountedMiddleware || []).forEach(middleware => {
+      const mountFile = files.find(f => f.path === middleware.file);
+      if (mountFile) callThrough(mountFile, middleware, middleware.line);
+    });
+    endpoint.middleware.forEach(middleware => callThrough(fileData, middleware, middleware.line));
+
+    callThrough(fileData, { name: endpoint.handler, line: endpoint.line, receiver: endpoint.handlerReceiver }, endpoint.line);
+
+    steps.push({ type: 'highlight-endpoint', file: fileData.path, line: endpoint.line });
+  };
+
+  // Client call site -> server route or socket listener -> back to the client
+  const crossTier = (fromFile: string, fromLine: number, callName: string, target: RequestTarget) => {
+    const targetFile = files.find(f => f.path === target.file);
+    if (!targetFile) return;
+    const handlerName = target.endpoint?.handler ?? target.socketHandler?.handler ?? '';
+
+    steps.push({
+      type: 'animate-edge-with-dot',
+      fromFile,
+      toFile: target.file,
+      fromLine,
+      toFunc: handlerName,
+      callName,
+      toRouteLine: target.line
+    });
+
+    if (target.endpoint) {
+      runEndpoint(targetFile, target.endpoint);
+    } else if (target.socketHandler) {
+      const { handler, handlerReceiver, line } = target.socketHandler;
+      callThrough(targetFile, { name: handler, line, receiver: handlerReceiver }, line);
+    }
+
+    steps.push({ type: 'prepare-return', file: target.file, func: handlerName });
+    steps.push({
+      type: 'return-edge-with-dot',
+      fromFile: target.file,
+      toFile: fromFile,
+      fromFunc: handlerName,
+      toLine: fromLine,
+      callName,
+      fromRouteLine: target.line
+    });
+  };
+
+  if (start.type === 'endpoint') {
+    const fileData = files.find(f => f.path === start.file);
+    const endpoint = fileData?.analysis?.endpoints.find(e => endpointLabel(e) === start.name);
+    if (fileData && endpoint) runEndpoint(fileData, endpoint);
+  } else {
+    traverse(start.file, start.name, start.line);
+  }
+  runQueuedTasks();
+
+  return steps;
+}
+
+// Steps that continue the flow after a branch point once one of its options is taken
+export function continueFromBranch(
+  files: FileStructure[],
+  start: FlowStart,
+  branch: Extract<FlowStep, { type: 'branch' }>,
+  option: number,
+  limits: FlowLimits = DEFAULT_FLOW_LIMITS
+) {
+  const steps = generateFlowPath(files, start, { ...branch.choices, [branch.key]: option }, limits);
+  const index = steps.findIndex(step => step.type === 'branch' && step.key === branch.key);
+  return index === -1 ? [] : steps.slice(index + 1);
+}
+
+export const isBranchDecided = (step: Extract<FlowStep, { type: 'branch' }>) => step.key in step.choices;
+
+// Track the step at index belongs to, if the flow split into "all paths" before it
+export const findTrack = (steps: FlowStep[], index: number) => {
+  for (let i = index; i >= 0; i--) {
+    const step = steps[i];
+    if (step.type === 'begin-track') return step;
+  }
+  return undefined;
+};
+
+// Deferred callbacks queued but not yet run at index, on the track being played
+export const findQueuedTasks = (steps: FlowStep[], index: number) => {
+  let start = index;
+  while (start >= 0 && steps[start].type !== 'begin-track') start--;
+  const track = steps[start];
+  let queued = track?.type === 'begin-track' ? track.queuedTasks : [];
+  for (let i = start + 1; i <= index && i < steps.length; i++) {
+    const step = steps[i];
+    if (step.type === 'enqueue-task') queued = [...queued, step.task];
+    if (step.type === 'dequeue-task') queued = queued.filter(t => t.id !== step.id);
+  }
+  return queued;
+};
+
+export interface CallFrame {
+  file: string;
+  func: string;
+  line?: number; // Last line played in the frame
+  returns: boolean; // Left by a return edge, rather than by its own prepare-return
+}
+
+// How one step changes the call stack. Tracks of "all paths" each start from the stack at the branch.
+const applyToStack = (stack: CallFrame[], step: FlowStep, trackStacks: Map<number, CallFrame[]>) => {
+  const top = stack[stack.length - 1];
+  switch (step.type) {
+    case 'animate-edge-with-dot':
+      // A deferred callback returns to the event loop, not to where it was queued
+      stack.push({ file: step.toFile, func: step.toFunc, line: step.toRouteLine, returns: step.mode !== 'deferred' });
+      return stack;
+    case 'highlight-def':
+      stack.push({ file: step.file, func: step.func, returns: false });
+      return stack;
+    case 'return-edge-with-dot':
+      if (top?.returns) stack.pop();
+      return stack;
+    case 'prepare-return':
+      // The zoom-out a flow starts with enters its first function
+      if (!top) stack.push({ file: step.file, func: step.func, returns: false });
+      else if (!top.returns && top.file === step.file && top.func === step.func) stack.pop();
+      return stack;
+    case 'execute-line':
+    case 'branch':
+      if (top && top.file === step.file) top.line = step.line;
+      return stack;
+    case 'dequeue-task':
+      return [];
+    case 'begin-track':
+      if (step.index === 0) trackStacks.set(step.level, stack.map(frame => ({ ...frame })));
+      return (trackStacks.get(step.level) || []).map(frame => ({ ...frame }));
+    default:
+      return stack;
+  }
+};
+
+// Frames active at index, outermost first
+export const callStackAt = (steps: FlowStep[], index: number): CallFrame[] => {
+  const trackStacks = new Map<number, CallFrame[]>();
+  let stack: CallFrame[] = [];
+  for (let i = 0; i <= index && i < steps.length; i++) stack = applyToStack(stack, steps[i], trackStacks);
+  return stack;
+};
+
+// Call stack depth after each step
+export const callDepths = (steps: FlowStep[]): number[] => {
+  const trackStacks = new Map<number, CallFrame[]>();
+  let stack: CallFrame[] = [];
+  return steps.map(step => {
+    stack = applyToStack(stack, step, trackStacks);
+    return stack.length;
+  });
+};
+
+// Lines highlighted once the steps up to index have played, as when played through
+export const executedLinesAt = (steps: FlowStep[], index: number) => {
+  let executed = new Map<string, Set<number>>();
+  for (let i = 0; i <= index && i < steps.length; i++) {
+    const step = steps[i];
+    if (step.type === 'begin-track') {
+      executed = new Map(Object.entries(step.executedLines).map(([file, lines]) => [file, new Set(lines)]));
+    } else if (step.type === 'execute-line') {
+      const lines = executed.get(step.file) || new Set<number>();
+      lines.add(step.line);
+      executed.set(step.file, lines);
+    }
+  }
+  return executed;
+};
+
+export interface FlowSummary {
+  steps: number;
+  depth: number; // Deepest the call stack gets
+  files: number; // Files the flow passes through
+  functions: number;
+  recursiveCalls: number;
+  limits: Extract<FlowStep, { type: 'limit-reached' }>[];
+  durationMs: number; // Played through at 1x, without stopping at branches or breakpoints
+}
+
+// Roughly how long CodeCanvas plays each kind of step at 1x, edges including their pause on arrival
+const STEP_DURATION_MS: Partial<Record<FlowStep['type'], number>> = {
+  'execute-line': 180,
+  'prepare-return': 700,
+  'animate-edge-with-dot': 2900,
+  'return-edge-with-dot': 2500,
+};
+const DEFAULT_STEP_DURATION_MS = 300;
+
+// What a flow holds, shown before it is played
+export const summarizeFlow = (steps: FlowStep[]): FlowSummary => {
+  const files = new Set<string>();
+  const functions = new Set<string>();
+  let recursiveCalls = 0;
+  let durationMs = 0;
+  steps.forEach(step => {
+    durationMs += STEP_DURATION_MS[step.type] ?? DEFAULT_STEP_DURATION_MS;
+    if (step.type === 'execute-line') files.add(step.file);
+    if (step.type === 'highlight-def' || step.type === 'prepare-return') functions.add(`${step.file}:${step.func}`);
+    if (step.type === 'animate-edge-with-dot') {
+      files.add(step.toFile);
+      functions.add(`${step.toFile}:${step.toFunc}`);
+      if (step.mode === 'recursion') recursiveCalls++;
+    }
+  });
+  return {
+    steps: steps.length,
+    depth: Math.max(0, ...callDepths(steps)),
+    files: files.size,
+    functions: functions.size,
+    recursiveCalls,
+    limits: steps.filter((step): step is Extract<FlowStep, { type: 'limit-reached' }> => step.type === 'limit-reached'),
+    durationMs,
+  };
+};
@@ -0,0 +1,43 @@
+import { FileStructure } from '../store/useFileStore';
+import { GitCommit } from '../store/useGitHistoryStore';
+import { FunctionMetrics } from '../utils/codeAnalyzer';
+
+export type ComplexityLevel = 'low' | 'moderate' | 'high' | 'very-high';
+
+// Conventional cyclomatic complexity bands
+export const complexityLevel = (cyclomatic: number): ComplexityLevel =>
+  cyclomatic <= 5 ? 'low' : cyclomatic <= 10 ? 'moderate' : cyclomatic <= 20 ? 'high' : 'very-high';
+
+export interface Hotspot extends FunctionMetrics {
+  file: string;
+  name: string;
+  owner?: string;
+  line: number;
+  commits?: number; // Commits touching the file, once history is loaded
+  score: number; // Complexity weighted by churn
+}
+
+// Number of commits touching each path
+export const countCommitsByFile = (commits: GitCommit[]) => {
+  const counts = new Map<string, number>();
+  commits.forEach(commit => commit.files.forEach(file => counts.set(file.path, (counts.get(file.path) || 0) + 1)));
+  return counts;
+};
+
+export function buildHotspots(files: FileStructure[], commitCounts?: Map<string, number>): Hotspot[] {
+  return files.flatMap(file =>
+    (file.analysis?.functions || []).map(func => {
+      const commits = commitCounts ? commitCounts.get(file.path) || 0 : undefined;
+      return {
+        file: file.path,
+        name: func.name,
+        owner: func.owner,
+        line: func.startLine,
+        ...func.metrics,
+        commits,
+        // Complex code that changes often is where refactoring pays off first
+        score: func.metrics.cyclomatic * Math.max(1, commits ?? 1),
+      };
+    })
+  );
+}
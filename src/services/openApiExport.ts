@@ -0,0 +1,161 @@
+import { FileStructure } from '../store/useFileStore';
+import { EndpointInfo } from '../utils/codeAnalyzer';
+import { endpointLabel } from '../utils/endpointDetectors';
+import { findFunction, resolveSymbol } from '../utils/moduleResolver';
+
+export type OpenApiFormat = 'yaml' | 'json';
+
+interface OpenApiParameter {
+  name: string;
+  in: 'path';
+  required: true;
+  schema: { type: 'string' };
+}
+
+interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  responses: Record<string, { description: string }>;
+  'x-handler': string; // file:line of the handler definition
+  'x-framework': string;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string };
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+// Methods an 'all' route (app.all, Next.js pages/api) is listed under
+const ALL_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+// Express-style route to an OpenAPI path template: /users/:id(\d+)/:rest* -> /users/{id}/{rest}
+export const toOpenApiPath = (route: string) => {
+  const parameters: string[] = [];
+  let wildcards = 0;
+  const path = route
+    .split('/')
+    .map(segment => {
+      if (segment === '*') {
+        const name = wildcards++ === 0 ? 'wildcard' : `wildcard${wildcards}`;
+        parameters.push(name);
+        return `{${name}}`;
+      }
+      return segment.replace(/:([A-Za-z0-9_]+)(\([^)]*\))?[?*+]?/g, (_, name: string) => {
+        parameters.push(name);
+        return `{${name}}`;
+      });
+    })
+    .join('/');
+  return { path, parameters };
+};
+
+// Where the handler is defined, falling back to the route declaration for unresolved handlers
+const handlerLocation = (files: FileStructure[], file: FileStructure, endpoint: EndpointInfo) => {
+  const target = resolveSymbol(files, file, endpoint.handler, endpoint.handlerReceiver);
+  const targetFunc = target && findFunction(files.find(f => f.path === target.file)?.analysis?.functions || [], target.func, target.line);
+  return target && targetFunc ? `${target.file}:${targetFunc.startLine}` : `${file.path}:${endpoint.line}`;
+};
+
+// explanations are keyed by `${filePath}#${endpointLabel}`, as saved from the canvas
+export function buildOpenApiDocument(
+  files: FileStructure[],
+  explanations: Record<string, string> = {},
+  title = 'API'
+): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+  const operationIds = new Set<string>();
+
+  const uniqueOperationId = (base: string) => {
+    const sanitized = base.replace(/[^A-Za-z0-9_]/g, '_') || 'operation';
+    let id = sanitized;
+    for (let i = 2; operationIds.has(id); i++) id = `${sanitized}${i}`;
+    operationIds.add(id);
+    return id;
+  };
+
+  files.forEach(file => {
+    file.analysis?.endpoints.forEach(endpoint => {
+      const { path, parameters } = toOpenApiPath(endpoint.fullPath);
+      const methods = endpoint.method === 'all' ? ALL_METHODS : [endpoint.method];
+      const handler = handlerLocation(files, file, endpoint);
+      const description = explanations[`${file.path}#${endpointLabel(endpoint)}`];
+
+      methods.forEach(method => {
+        paths[path] = paths[path] || {};
+        // The first declaration wins, as it does when the framework matches routes
+        if (paths[path][method]) return;
+
+        // Inline handlers are named after their route, so use the method and path instead
+        const handlerName = /\s/.test(endpoint.handler) ? `${method}${path}` : endpoint.handler;
+        paths[path][method] = {
+          operationId: uniqueOperationId(methods.length > 1 ? `${handlerName}_${method}` : handlerName),
+          summary: `${method.toUpperCase()} ${endpoint.fullPath}`,
+          ...(description ? { description } : {}),
+          tags: [file.path],
+          ...(parameters.length > 0
+            ? { parameters: parameters.map(name => ({ name, in: 'path' as const, required: true as const, schema: { type: 'string' as const } })) }
+            : {}),
+          responses: { default: { description: 'Response' } },
+          'x-handler': handler,
+          'x-framework': endpoint.framework,
+        };
+      });
+    });
+  });
+
+  const sortedPaths = Object.fromEntries(Object.entries(paths).sort(([a], [b]) => a.localeCompare(b)));
+  return { openapi: '3.1.0', info: { title, version: '0.0.0' }, paths: sortedPaths };
+}
+
+// Quote strings YAML would otherwise read as another type or misparse
+const yamlString = (value: string) =>
+  value === '' ||
+  /^[\s\-?:,[\]{}#&*!|>'"%@`]|[:#]\s|\s$|^(true|false|null|yes|no|on|off|~)$/i.test(value) ||
+  !Number.isNaN(Number(value))
+    ? JSON.stringify(value)
+    : value;
+
+// Minimal YAML emitter for the JSON-compatible values in an OpenApiDocument
+export const toYaml = (value: unknown, indent = 0): string => {
+  const pad = '  '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return value
+      .map(item => {
+        const rendered = toYaml(item, indent + 1);
+        return typeof item === 'object' && item !== null
+          ? `${pad}- ${rendered.trimStart()}`
+          : `${pad}- ${rendered}`;
+      })
+      .join('\n');
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    return entries
+      .map(([key, item]) => {
+        const renderedKey = yamlString(key);
+        if (typeof item === 'string' && item.includes('\n') && !/^\s/.test(item)) {
+          const block = item.split('\n').map(line => (line ? `${pad}  ${line}` : '')).join('\n');
+          return `${pad}${renderedKey}: |-\n${block}`;
+        }
+        if (typeof item === 'object' && item !== null && Object.keys(item).length > 0) {
+          return `${pad}${renderedKey}:\n${toYaml(item, indent + 1)}`;
+        }
+        return `${pad}${renderedKey}: ${toYaml(item, indent + 1)}`;
+      })
+      .join('\n');
+  }
+
+  if (typeof value === 'string') return yamlString(value);
+  return String(value);
+};
+
+export const serializeOpenApiDocument = (document: OpenApiDocument, format: OpenApiFormat) =>
+  format === 'json' ? JSON.stringify(document, null, 2) : `${toYaml(document)}\n`;
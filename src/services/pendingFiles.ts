@@ -0,0 +1,133 @@
+import { Octokit } from '@octokit/rest';
+import { CachedRepoData, FileStructure, GitHubTreeNode } from '../store/useFileStore';
+import { getLanguage } from '../utils/languageRegistry';
+
+// Files of a GitHub import that are outside the selected segments and not fetched yet
+// (CachedRepoData.pendingTree keeps every unselected path, including ones fetched since)
+
+export interface PendingFetchProgress {
+  done: number;
+  total: number;
+  skipped: number; // Files among done that failed to fetch
+  rateLimitedUntil?: number; // While waiting for the GitHub rate limit to reset, in ms since epoch
+}
+
+interface PendingFetchOptions {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  signal?: AbortSignal; // Aborting stops fetching, rejecting with PENDING_FETCH_CANCELLED
+  onProgress?: (progress: PendingFetchProgress) => void;
+  onFile?: (file: FileStructure) => void;
+}
+
+export const PENDING_FETCH_CANCELLED = 'Fetching cancelled';
+
+// Requests left for the rest of the app: pulls, pushes, segment switches
+const RATE_LIMIT_RESERVE = 10;
+// Longest wait for the rate limit to reset before giving up on the remaining files
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+// Nothing to search inside
+const BINARY_EXTENSIONS = [
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.bmp', '.pdf', '.zip', '.gz', '.tar', '.jar',
+  '.woff', '.woff2', '.ttf', '.otf', '.eot', '.mp3', '.mp4', '.mov', '.wav', '.webm', '.wasm', '.exe', '.dll', '.so',
+];
+
+export const unfetchedNodes = (cachedRepoData: CachedRepoData | null): GitHubTreeNode[] => {
+  if (!cachedRepoData?.pendingTree) return [];
+  const fetched = new Set(cachedRepoData.allFiles.map(f => f.path));
+  return cachedRepoData.pendingTree.filter(node => !fetched.has(node.path));
+};
+
+export const isSearchableContent = (path: string) => {
+  const lower = path.toLowerCase();
+  return !BINARY_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+// Paths holding every word of the query, or the query itself when it is a "quoted phrase"
+export const matchPendingPaths = (nodes: GitHubTreeNode[], query: string) => {
+  const trimmed = query.trim().toLowerCase();
+  const isPhrase = trimmed.length > 2 && trimmed.startsWith('"') && trimmed.endsWith('"');
+  const words = isPhrase ? [trimmed.slice(1, -1)] : trimmed.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  return nodes.filter(node => words.every(word => node.path.toLowerCase().includes(word)));
+};
+
+const toFile = (path: string, content: string): FileStructure => ({
+  path,
+  name: path.split('/').pop() || path,
+  content,
+  lastSyncedContent: content,
+  language: getLanguage(path),
+});
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error(PENDING_FETCH_CANCELLED));
+    }, { once: true });
+  });
+
+// When requests may resume, from GitHub's rate-limit headers: after a failed request once none are
+// left, otherwise once fewer than RATE_LIMIT_RESERVE are. Undefined while requests are left.
+const rateLimitResetAt = (headers: Record<string, unknown>, isError: boolean) => {
+  if (headers['retry-after'] !== undefined) return Date.now() + Number(headers['retry-after']) * 1000;
+  const remaining = Number(headers['x-ratelimit-remaining']);
+  if (Number.isNaN(remaining) || remaining > (isError ? 0 : RATE_LIMIT_RESERVE)) return undefined;
+  return Number(headers['x-ratelimit-reset']) * 1000;
+};
+
+// Fetch the blobs one at a time, slowing down to GitHub's rate limit: short resets are waited out,
+// longer ones reject with the time the limit resets. Files that fail to fetch are skipped;
+// resolves with how many were.
+export async function fetchPendingBlobs(nodes: GitHubTreeNode[], { octokit, owner, repo, signal, onProgress, onFile }: PendingFetchOptions) {
+  let done = 0;
+  let skipped = 0;
+  const waitForReset = async (resetAt: number) => {
+    const delay = resetAt - Date.now();
+    if (delay > MAX_RATE_LIMIT_WAIT_MS) {
+      throw new Error(`GitHub rate limit reached; it resets at ${new Date(resetAt).toLocaleTimeString()}`);
+    }
+    onProgress?.({ done, total: nodes.length, skipped, rateLimitedUntil: resetAt });
+    // Clocks differ, so never retry straight away
+    await wait(Math.max(delay, 1000), signal);
+  };
+
+  for (let i = 0; i < nodes.length; i++) {
+    if (signal?.aborted) throw new Error(PENDING_FETCH_CANCELLED);
+    const node = nodes[i];
+    let response;
+    try {
+      response = await octokit.git.getBlob({ owner, repo, file_sha: node.sha, request: { signal } });
+    } catch (e) {
+      if (signal?.aborted) throw new Error(PENDING_FETCH_CANCELLED);
+      // Octokit's request errors carry the HTTP status and response
+      const { status, response } = (e instanceof Error ? e : {}) as { status?: number; response?: { headers: Record<string, unknown> } };
+      const resetAt = (status === 403 || status === 429) && response ? rateLimitResetAt(response.headers, true) : undefined;
+      if (resetAt) {
+        await waitForReset(resetAt);
+        i--; // Retry the same file
+      } else {
+        done++;
+        skipped++;
+        onProgress?.({ done, total: nodes.length, skipped });
+      }
+      continue;
+    }
+
+    onFile?.(toFile(node.path, atob(response.data.content.replace(/\n/g, ''))));
+    done++;
+    onProgress?.({ done, total: nodes.length, skipped });
+    const resetAt = rateLimitResetAt(response.headers, false);
+    if (resetAt && i < nodes.length - 1) await waitForReset(resetAt);
+  }
+  return skipped;
+}
+
+export async function fetchPendingBlob(node: GitHubTreeNode, octokit: Octokit, owner: string, repo: string): Promise<FileStructure> {
+  const { data } = await octokit.git.getBlob({ owner, repo, file_sha: node.sha });
+  return toFile(node.path, atob(data.content.replace(/\n/g, '')));
+}
@@ -26,7 +26,7 @@ const fallbackCategorization = (filePaths: string[]): SegmentedRepo => {
     data: { category: "Data & Mocks", description: "Data and mock files", files: [], icon: "📦" },
   };
 
-  const configFiles = ['package.json', 'tsconfig', 'vite.config', 'webpack.config', '.eslintrc', '.prettierrc', 'tailwind.config'];
+  const configFiles = ['package.json', 'tsconfig', 'vite.config', 'webpack.config', '.eslintrc', '.prettierrc', 'tailwind.config', 'pyproject.toml', 'requirements', 'setup.cfg'];
   const assetExts = ['.svg', '.png', '.jpg', '.jpeg', '.gif', '.ico', '.webp', '.mp4', '.mp3', '.woff', '.woff2', '.ttf', '.eot'];
   const styleExts = ['.css', '.scss', '.sass', '.less', '.styled'];
   const docExts = ['.md', '.mdx', '.txt', '.rst'];
@@ -37,7 +37,8 @@ const fallbackCategorization = (filePaths: string[]): SegmentedRepo => {
     const lowerPath = path.toLowerCase();
     const fileName = path.split('/').pop() || '';
 
-    if (testPatterns.some(p => lowerPath.includes(p))) {
+    // pytest discovers test_*.py and *_test.py
+    if (testPatterns.some(p => lowerPath.includes(p)) || /^test_.*\.py$|_test\.py$/.test(fileName)) {
       segments.tests.files.push(path);
     } else if (typePatterns.some(p => lowerPath.includes(p))) {
       segments.types.files.push(path);
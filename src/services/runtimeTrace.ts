@@ -0,0 +1,300 @@
+import { FileStructure } from '../store/useFileStore';
+import { FunctionInfo } from '../utils/codeAnalyzer';
+import { findFunction, resolveSymbol } from '../utils/moduleResolver';
+import { matchRecordedFile } from '../utils/recordedPaths';
+import { FlowStep } from './flowTracer';
+
+// One event of a recorded execution. JSON-lines traces are written in this shape, one per line:
+//   {"file": "src/server.ts", "func": "handleLogin", "line": 12, "event": "call"}
+// line is where in func the event happened: its first line for calls, the returning line for returns.
+export interface TraceEvent {
+  file: string;
+  func?: string;
+  line?: number;
+  event: 'call' | 'return' | 'line';
+}
+
+// Long recordings are cut here rather than played for hours
+const MAX_TRACE_STEPS = 5000;
+
+const TRACE_EVENTS = new Set(['call', 'return', 'line']);
+
+// Chrome DevTools / node --cpu-prof profile
+interface CpuProfileNode {
+  id: number;
+  callFrame: { functionName: string; url: string; lineNumber: number };
+  children?: number[];
+  positionTicks?: { line: number; ticks: number }[];
+}
+
+interface CpuProfile {
+  nodes: CpuProfileNode[];
+  samples: number[];
+}
+
+// NODE_V8_COVERAGE output / Profiler.takePreciseCoverage
+interface CoverageRange {
+  startOffset: number;
+  endOffset: number;
+  count: number;
+}
+
+interface ScriptCoverage {
+  url: string;
+  functions: { functionName: string; ranges: CoverageRange[] }[];
+}
+
+// Innermost function around line, preferring one called name (or "Class.name"); by name alone without a line
+const functionAt = (file: FileStructure, name?: string, line?: number): FunctionInfo | undefined => {
+  const functions = file.analysis?.functions || [];
+  if (line !== undefined) {
+    const around = functions
+      .filter(f => f.startLine <= line && line <= f.endLine)
+      .sort((a, b) => b.startLine - a.startLine);
+    const named = name ? findFunction(around, name) : undefined;
+    if (named || around.length > 0) return named ?? around[0];
+  }
+  return name ? findFunction(functions, name) : undefined;
+};
+
+// Node internals and dependencies are never among the loaded files, however their names match
+const isLibraryLocation = (location: string) =>
+  location.startsWith('node:') || location.replace(/\\/g, '/').split('/').includes('node_modules');
+
+const loadedFileOf = (files: FileStructure[], location: string) =>
+  isLibraryLocation(location) ? undefined : matchRecordedFile(files, location);
+
+const parseJsonLines = (files: FileStructure[], text: string): TraceEvent[] =>
+  text.split('\n').flatMap((raw, index) => {
+    const line = raw.trim();
+    if (!line) return [];
+    let entry: Partial<TraceEvent>;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} of the trace is not JSON`);
+    }
+    if (typeof entry.file !== 'string' || !entry.event || !TRACE_EVENTS.has(entry.event)) {
+      throw new Error(`Line ${index + 1} of the trace needs a file and an event of call, return or line`);
+    }
+    const file = loadedFileOf(files, entry.file);
+    return file ? [{ ...entry, file: file.path } as TraceEvent] : [];
+  });
+
+// Samples become calls and returns wherever the sampled stack changes; lines come from each
+// function's positionTicks, so they are the lines that were hot rather than every line run
+const parseCpuProfile = (files: FileStructure[], profile: CpuProfile): TraceEvent[] => {
+  const nodes = new Map(profile.nodes.map(n => [n.id, n]));
+  const parents = new Map<number, number>();
+  profile.nodes.forEach(n => (n.children || []).forEach(child => parents.set(child, n.id)));
+
+  // Frames outside the loaded files (node internals, node_modules) are left out of the stack
+  const frames = new Map<number, TraceEvent | null>();
+  const frameOf = (id: number) => {
+    if (!frames.has(id)) {
+      const { functionName, url, lineNumber } = nodes.get(id)!.callFrame;
+      const file = url ? loadedFileOf(files, url) : undefined;
+      frames.set(id, file ? { file: file.path, func: functionName || undefined, line: lineNumber + 1, event: 'call' } : null);
+    }
+    return frames.get(id);
+  };
+  const stackOf = (id: number) => {
+    const stack: number[] = [];
+    for (let current: number | undefined = id; current !== undefined; current = parents.get(current)) {
+      if (nodes.has(current) && frameOf(current)) stack.unshift(current);
+    }
+    return stack;
+  };
+
+  const events: TraceEvent[] = [];
+  let previous: number[] = [];
+  const unwindTo = (depth: number) => {
+    for (let i = previous.length - 1; i >= depth; i--) events.push({ ...frameOf(previous[i])!, event: 'return' });
+  };
+
+  profile.samples.forEach((sample, index) => {
+    if (index > 0 && sample === profile.samples[index - 1]) return;
+    const stack = stackOf(sample);
+    let shared = 0;
+    while (shared < stack.length && shared < previous.length && stack[shared] === previous[shared]) shared++;
+    unwindTo(shared);
+    stack.slice(shared).forEach(id => {
+      const frame = frameOf(id)!;
+      events.push(frame);
+      [...(nodes.get(id)!.positionTicks || [])]
+        .sort((a, b) => a.line - b.line)
+        .forEach(tick => events.push({ ...frame, line: tick.line, event: 'line' }));
+    });
+    previous = stack;
+  });
+  unwindTo(0);
+  return events;
+};
+
+// Coverage has counts but no order: each function that ran is played once, in source order,
+// with the lines its blocks covered. Offsets are into the script as it ran, so transpiled
+// sources only line up through their source maps, which are not read here.
+const parseCoverage = (files: FileStructure[], scripts: ScriptCoverage[]): TraceEvent[] =>
+  scripts.flatMap(script => {
+    const file = loadedFileOf(files, script.url);
+    if (!file) return [];
+
+    const lineStarts = [0];
+    for (let i = 0; i < file.content.length; i++) {
+      if (file.content[i] === '\n') lineStarts.push(i + 1);
+    }
+    const lineAt = (offset: number) => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (lineStarts[mid] <= offset) low = mid;
+        else high = mid - 1;
+      }
+      return low + 1;
+    };
+
+    return script.functions.flatMap((fn): TraceEvent[] => {
+      const [whole] = fn.ranges;
+      // The script's own top level is reported as a nameless function spanning the file
+      if (!whole || whole.count === 0 || (whole.startOffset === 0 && !fn.functionName)) return [];
+
+      const startLine = lineAt(whole.startOffset);
+      const endLine = lineAt(whole.endOffset);
+      const frame = { file: file.path, func: fn.functionName || undefined };
+      const lines: TraceEvent[] = [];
+      for (let line = startLine; line <= endLine; line++) {
+        const text = file.content.slice(lineStarts[line - 1], lineStarts[line] ?? file.content.length);
+        if (!text.trim()) continue;
+        const offset = lineStarts[line - 1] + (text.length - text.trimStart().length);
+        // Block ranges come after the ranges they sit in, so the last one around a line decides it
+        const range = [...fn.ranges].reverse().find(r => r.startOffset <= offset && offset < r.endOffset) ?? whole;
+        if (range.count > 0) lines.push({ ...frame, line, event: 'line' });
+      }
+      return [{ ...frame, line: startLine, event: 'call' }, ...lines, { ...frame, line: startLine, event: 'return' }];
+    });
+  });
+
+// Events of a dropped trace, with locations mapped onto the loaded files. Events elsewhere
+// (node internals, dependencies) are dropped.
+export function parseRuntimeTrace(files: FileStructure[], fileName: string, text: string): TraceEvent[] {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    throw new Error('Expected a .cpuprofile, V8 coverage JSON or JSON lines of {file, func, line, event}');
+  }
+
+  // A single JSON document, unless it is one event per line
+  let document: unknown;
+  try {
+    document = JSON.parse(trimmed);
+  } catch {
+    return parseJsonLines(files, trimmed);
+  }
+
+  const data = document as Partial<CpuProfile> & { result?: ScriptCoverage[] };
+  if (fileName.endsWith('.cpuprofile') || (Array.isArray(data.nodes) && Array.isArray(data.samples))) {
+    if (!Array.isArray(data.nodes) || !Array.isArray(data.samples)) throw new Error('The profile has no samples');
+    return parseCpuProfile(files, data as CpuProfile);
+  }
+  if (Array.isArray(data.result)) return parseCoverage(files, data.result);
+  return parseJsonLines(files, trimmed);
+}
+
+interface Frame {
+  file: string;
+  func: string;
+  funcLine: number; // Where func starts, as methods of different classes share names
+  callLine?: number; // Line in the caller that made the call, when it could be found
+  callName?: string;
+  lastLine?: number;
+}
+
+// Replay recorded events with the same steps generateFlowPath produces. Calls are drawn from
+// the caller's call site that resolves to the callee; calls made from code outside the loaded
+// files (frameworks, timers) only highlight the function they enter.
+export function traceToFlowPath(files: FileStructure[], events: TraceEvent[]): FlowStep[] {
+  const steps: FlowStep[] = [];
+  const stack: Frame[] = [];
+
+  // Call sites and profile ticks often repeat the line just played
+  const executeLine = (file: string, line: number) => {
+    const last = steps[steps.length - 1];
+    if (last?.type === 'execute-line' && last.file === file && last.line === line) return;
+    steps.push({ type: 'execute-line', file, line });
+  };
+
+  const leave = (frame: Frame) => {
+    const caller = stack[stack.length - 1];
+    steps.push({ type: 'prepare-return', file: frame.file, func: frame.func, funcLine: frame.funcLine });
+    if (caller && frame.callLine !== undefined) {
+      steps.push({
+        type: 'return-edge-with-dot',
+        fromFile: frame.file,
+        toFile: caller.file,
+        fromFunc: frame.func,
+        fromFuncLine: frame.funcLine,
+        toLine: frame.callLine,
+        callName: frame.callName
+      });
+    }
+  };
+
+  const callSite = (caller: Frame, file: string, func: FunctionInfo) => {
+    const callerFile = files.find(f => f.path === caller.file);
+    const callerFunc = findFunction(callerFile?.analysis?.functions || [], caller.func, caller.funcLine);
+    if (!callerFile || !callerFunc) return undefined;
+    const sites = callerFunc.calls.filter(c => {
+      const target = resolveSymbol(files, callerFile, c.name, c.receiver, callerFunc.owner);
+      return target?.file === file && target.func === func.name && target.line === func.startLine;
+    });
+    return sites.find(c => c.line === caller.lastLine) ?? sites[0];
+  };
+
+  for (const event of events) {
+    if (steps.length >= MAX_TRACE_STEPS) break;
+    const fileData = files.find(f => f.path === event.file);
+    if (!fileData) continue;
+    const func = functionAt(fileData, event.func, event.line);
+
+    if (event.event === 'line') {
+      if (event.line === undefined) continue;
+      executeLine(event.file, event.line);
+      const top = stack[stack.length - 1];
+      if (top && top.file === event.file) top.lastLine = event.line;
+
+    } else if (event.event === 'call') {
+      if (!func) continue;
+      const caller = stack[stack.length - 1];
+      const site = caller ? callSite(caller, event.file, func) : undefined;
+      if (caller && site) {
+        executeLine(caller.file, site.line);
+        steps.push({
+          type: 'animate-edge-with-dot',
+          fromFile: caller.file,
+          toFile: event.file,
+          fromLine: site.line,
+          toFunc: func.name,
+          toFuncLine: func.startLine,
+          callName: site.name
+        });
+      } else {
+        steps.push({ type: 'highlight-def', file: event.file, func: func.name });
+      }
+      stack.push({ file: event.file, func: func.name, funcLine: func.startLine, callLine: site?.line, callName: site?.name });
+      executeLine(event.file, event.line ?? func.startLine);
+
+    } else {
+      // Returns unwind to the matching call; frames missing their own return leave with it
+      const index = func ? stack.map(f => `${f.file}:${f.funcLine}`).lastIndexOf(`${event.file}:${func.startLine}`) : -1;
+      if (index === -1) continue;
+      // Profiles only know which function returned, and report its first line
+      if (event.line !== undefined && event.line !== func!.startLine) {
+        executeLine(event.file, event.line);
+      }
+      while (stack.length > index) leave(stack.pop()!);
+    }
+  }
+
+  while (stack.length > 0) leave(stack.pop()!);
+  return steps;
+}
@@ -1,50 +1,211 @@
 import { FileStructure } from '../store/useFileStore';
 
+// How a ranked result's score was made up; signals are already weighted, so they add up to total
+export interface ScoreBreakdown {
+  bm25: number;
+  proximity: number;
+  usage: number;
+  recency: number;
+  total: number;
+  terms: string[]; // Index keywords the query matched
+}
+
 export interface SearchResult {
   files: Array<{
     path: string;
     name: string;
     score: number;
+    breakdown?: ScoreBreakdown;
   }>;
   functions: Array<{
     name: string;
     file: string;
     line: number;
     score: number;
+    breakdown?: ScoreBreakdown;
   }>;
 }
 
+// A file or a function, as BM25 sees it
+interface SearchDocument {
+  path: string;
+  terms: Map<string, number>; // keyword -> occurrences
+  length: number;
+  symbols: string[]; // Function names, to look up how often they are called
+}
+
 export interface SearchIndex {
   keywords: Map<string, SearchResult>;
   files: Map<string, string[]>; // filepath -> keywords
   functions: Map<string, { file: string; line: number }>; // funcName -> location
+  content: Map<string, Map<string, number[]>>; // lowercased word -> filepath -> lines it is on
+  lines: Map<string, string[]>; // filepath -> source lines
+  documents: Map<string, SearchDocument>; // path, or path#name:line for functions
+  calls: Map<string, string[]>; // filepath -> names of the functions it calls
+  callCounts: Map<string, number>; // function name -> calls to it across the repo
+  modifiedAt: Map<string, number>; // filepath -> last edit, where known
+}
+
+// SearchIndex as plain JSON: Maps become [key, value] entry lists
+export interface SerializedSearchIndex {
+  version: number;
+  keywords: Array<[string, SearchResult]>;
+  files: Array<[string, string[]]>;
+  functions: Array<[string, { file: string; line: number }]>;
+  content: Array<[string, Array<[string, number[]]>]>;
+  lines: Array<[string, string[]]>;
+  documents: Array<[string, { path: string; terms: Array<[string, number]>; length: number; symbols: string[] }]>;
+  calls: Array<[string, string[]]>;
+  callCounts: Array<[string, number]>;
+  modifiedAt: Array<[string, number]>;
 }
 
+// Bump when the shape of SearchIndex or how files are indexed changes
+const SEARCH_INDEX_VERSION = 1;
+
+// Where the search is made from
+export interface SearchContext {
+  nearPath?: string; // Results close to this file rank higher
+  now?: number;
+}
+
+// words: every word of the query on one line, in any order. phrase: the query exactly.
+// regex: the query as a JavaScript regular expression.
+export type ContentSearchMode = 'words' | 'phrase' | 'regex';
+
+export interface ContentSearchOptions {
+  mode: ContentSearchMode;
+  caseSensitive?: boolean;
+}
+
+export interface ContentMatch {
+  file: string;
+  line: number;
+  column: number; // 1-based, of the first match on the line
+  length: number;
+  snippet: string;
+}
+
+// Words as they appear in code: identifiers, ENV_NAMES, numbers
+const WORD_PATTERN = /[A-Za-z0-9_$]+/g;
+
+const MAX_CONTENT_MATCHES = 1000;
+const SNIPPET_LENGTH = 120;
+
+// BM25 saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Weights of keywords that only contain the query term, or are a typo away from it
+const PARTIAL_MATCH_WEIGHT = 0.6;
+const FUZZY_MATCH_WEIGHT = 0.4;
+const MAX_FUZZY_DISTANCE = 2;
+// A file's own name counts this many times against the names of its functions
+const FILE_NAME_BOOST = 2;
+const SIGNAL_WEIGHTS = { proximity: 2, usage: 1, recency: 1.5 };
+const RECENCY_HALF_LIFE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyIndex = (): SearchIndex => ({
+  keywords: new Map(),
+  files: new Map(),
+  functions: new Map(),
+  content: new Map(),
+  lines: new Map(),
+  documents: new Map(),
+  calls: new Map(),
+  callCounts: new Map(),
+  modifiedAt: new Map(),
+});
+
+const functionDocumentKey = (path: string, name: string, line: number) => `${path}#${name}:${line}`;
+
+const countTerms = (keywords: string[], counts = new Map<string, number>(), times = 1) => {
+  keywords.forEach(keyword => counts.set(keyword, (counts.get(keyword) || 0) + times));
+  return counts;
+};
+
+// 1 for the same file, otherwise the share of leading directories the two paths have in common
+const pathProximity = (path: string, nearPath: string) => {
+  if (path === nearPath) return 1;
+  const dirs = path.split('/').slice(0, -1);
+  const nearDirs = nearPath.split('/').slice(0, -1);
+  let shared = 0;
+  while (shared < dirs.length && shared < nearDirs.length && dirs[shared] === nearDirs[shared]) shared++;
+  const longest = Math.max(dirs.length, nearDirs.length);
+  return 0.8 * (longest === 0 ? 1 : shared / longest);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The line around a match, cut to SNIPPET_LENGTH
+const snippetOf = (text: string, column: number) => {
+  const trimmed = text.trim();
+  if (trimmed.length <= SNIPPET_LENGTH) return trimmed;
+  const start = Math.max(0, column - 1 - (text.length - text.trimStart().length) - SNIPPET_LENGTH / 3);
+  const cut = trimmed.slice(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${cut}${start + SNIPPET_LENGTH < trimmed.length ? '…' : ''}`;
+};
+
 export class CodeSearchEngine {
-  private index: SearchIndex = {
-    keywords: new Map(),
-    files: new Map(),
-    functions: new Map(),
-  };
+  private index: SearchIndex = emptyIndex();
 
   // Build the search index from files
   buildIndex(files: FileStructure[]) {
-    this.index = {
-      keywords: new Map(),
-      files: new Map(),
-      functions: new Map(),
-    };
+    this.index = emptyIndex();
 
     files.forEach(file => {
       this.addFileToIndex(file);
     });
   }
 
+  exportIndex(): SerializedSearchIndex {
+    const { keywords, files, functions, content, lines, documents, calls, callCounts, modifiedAt } = this.index;
+    return {
+      version: SEARCH_INDEX_VERSION,
+      keywords: [...keywords],
+      files: [...files],
+      functions: [...functions],
+      content: [...content].map(([word, postings]) => [word, [...postings]]),
+      lines: [...lines],
+      documents: [...documents].map(([key, document]) => [key, { ...document, terms: [...document.terms] }]),
+      calls: [...calls],
+      callCounts: [...callCounts],
+      modifiedAt: [...modifiedAt],
+    };
+  }
+
+  // Replace the index with an exported one; false (leaving the index as it was) when it is from another version
+  importIndex(data: SerializedSearchIndex): boolean {
+    if (data.version !== SEARCH_INDEX_VERSION) return false;
+    this.index = {
+      keywords: new Map(data.keywords),
+      files: new Map(data.files),
+      functions: new Map(data.functions),
+      content: new Map(data.content.map(([word, postings]) => [word, new Map(postings)])),
+      lines: new Map(data.lines),
+      documents: new Map(data.documents.map(([key, document]) => [key, { ...document, terms: new Map(document.terms) }])),
+      calls: new Map(data.calls),
+      callCounts: new Map(data.callCounts),
+      modifiedAt: new Map(data.modifiedAt),
+    };
+    return true;
+  }
+
   // Add a single file to the index (for incremental updates)
   addFileToIndex(file: FileStructure) {
+    this.addContentToIndex(file);
+    this.addUsageToIndex(file);
+
     // Extract keywords from filename
     const fileKeywords = this.extractKeywordsFromFilename(file.path, file.name);
     this.index.files.set(file.path, fileKeywords);
+    const fileDocument: SearchDocument = {
+      path: file.path,
+      terms: countTerms(fileKeywords, new Map(), FILE_NAME_BOOST),
+      length: 0,
+      symbols: [],
+    };
+    this.index.documents.set(file.path, fileDocument);
 
     // Index file by its keywords
     fileKeywords.forEach(keyword => {
@@ -59,12 +220,26 @@ export class CodeSearchEngine {
     if (file.analysis?.functions) {
       file.analysis.functions.forEach(func => {
         const funcKeywords = this.extractKeywordsFromFunctionName(func.name);
+        // Methods are also findable by their class/object name: "CodeSearchEngine.search"
+        const qualifiedName = func.owner ? `${func.owner}.${func.name}` : func.name;
+        if (func.owner) {
+          funcKeywords.push(...this.extractKeywordsFromFunctionName(func.owner), qualifiedName.toLowerCase());
+        }
         
         // Store function location
-        this.index.functions.set(func.name, {
+        this.index.functions.set(qualifiedName, {
           file: file.path,
           line: func.startLine,
         });
+        const terms = countTerms(funcKeywords);
+        this.index.documents.set(functionDocumentKey(file.path, func.name, func.startLine), {
+          path: file.path,
+          terms,
+          length: funcKeywords.length,
+          symbols: [func.name],
+        });
+        countTerms(funcKeywords, fileDocument.terms);
+        fileDocument.symbols.push(func.name);
 
         // Index function by its keywords
         funcKeywords.forEach(keyword => {
@@ -86,6 +261,15 @@ export class CodeSearchEngine {
         });
       });
     }
+    fileDocument.length = [...fileDocument.terms.values()].reduce((sum, count) => sum + count, 0);
+  }
+
+  // Calls made from the file, and when it was last edited
+  private addUsageToIndex(file: FileStructure) {
+    const names = (file.analysis?.functions || []).flatMap(func => func.calls.map(call => call.name));
+    this.index.calls.set(file.path, names);
+    names.forEach(name => this.index.callCounts.set(name, (this.index.callCounts.get(name) || 0) + 1));
+    if (file.modifiedAt) this.index.modifiedAt.set(file.path, file.modifiedAt);
   }
 
   // Remove a file from the index (for incremental updates)
@@ -117,14 +301,33 @@ export class CodeSearchEngine {
 
     functionsToRemove.forEach(funcName => {
       this.index.functions.delete(funcName);
-      // Also remove from keyword index
-      this.index.keywords.forEach(entry => {
-        entry.functions = entry.functions.filter(f => f.name !== funcName || f.file !== filePath);
-      });
+    });
+    // Also remove from keyword index
+    this.index.keywords.forEach(entry => {
+      entry.functions = entry.functions.filter(f => f.file !== filePath);
     });
 
     // Remove file entry
     this.index.files.delete(filePath);
+    [...this.index.documents].forEach(([key, document]) => {
+      if (document.path === filePath) this.index.documents.delete(key);
+    });
+    (this.index.calls.get(filePath) || []).forEach(name => {
+      const count = (this.index.callCounts.get(name) || 0) - 1;
+      if (count > 0) this.index.callCounts.set(name, count);
+      else this.index.callCounts.delete(name);
+    });
+    this.index.calls.delete(filePath);
+    this.index.modifiedAt.delete(filePath);
+
+    // Remove its words from the content index
+    const lines = this.index.lines.get(filePath) || [];
+    new Set(lines.flatMap(text => text.match(WORD_PATTERN) || [])).forEach(word => {
+      const postings = this.index.content.get(word.toLowerCase());
+      postings?.delete(filePath);
+      if (postings?.size === 0) this.index.content.delete(word.toLowerCase());
+    });
+    this.index.lines.delete(filePath);
   }
 
   // Update a file in the index (for incremental updates)
@@ -133,6 +336,93 @@ export class CodeSearchEngine {
     this.addFileToIndex(file);
   }
 
+  // Lines each word of the file is on
+  private addContentToIndex(file: FileStructure) {
+    const lines = file.content.split('\n');
+    this.index.lines.set(file.path, lines);
+    lines.forEach((text, i) => {
+      for (const word of text.match(WORD_PATTERN) || []) {
+        const key = word.toLowerCase();
+        let postings = this.index.content.get(key);
+        if (!postings) {
+          postings = new Map();
+          this.index.content.set(key, postings);
+        }
+        const fileLines = postings.get(file.path);
+        if (!fileLines) postings.set(file.path, [i + 1]);
+        else if (fileLines[fileLines.length - 1] !== i + 1) fileLines.push(i + 1);
+      }
+    });
+  }
+
+  // Lines holding every word, by file; null when there are no words to narrow by
+  private linesWithWords(words: string[]): Map<string, Set<number>> | null {
+    if (words.length === 0) return null;
+    let candidates: Map<string, Set<number>> | null = null;
+    for (const word of words) {
+      const postings = this.index.content.get(word.toLowerCase());
+      const next = new Map<string, Set<number>>();
+      postings?.forEach((lines, path) => {
+        const kept = candidates ? lines.filter(line => candidates!.get(path)?.has(line)) : lines;
+        if (kept.length > 0) next.set(path, new Set(kept));
+      });
+      candidates = next;
+      if (candidates.size === 0) break;
+    }
+    return candidates;
+  }
+
+  // Line-level matches in file contents. Words are looked up in the inverted index; phrases
+  // only check lines holding their inner words, and regexes scan every line.
+  searchContent(query: string, options: ContentSearchOptions): ContentMatch[] {
+    if (!query.trim()) return [];
+    const { mode, caseSensitive = false } = options;
+    const flags = caseSensitive ? '' : 'i';
+
+    let pattern: RegExp;
+    let candidates: Map<string, Set<number>> | null;
+    if (mode === 'regex') {
+      // Throws a SyntaxError naming the problem for an invalid pattern
+      pattern = new RegExp(query, flags);
+      candidates = null;
+    } else if (mode === 'phrase') {
+      pattern = new RegExp(escapeRegExp(query), flags);
+      // Words at either end may be cut mid-word ("ogin fail"), so only inner ones narrow the search
+      const words = query.match(WORD_PATTERN) || [];
+      const inner = words.filter((_, i) =>
+        (i > 0 || !/^[A-Za-z0-9_$]/.test(query)) && (i < words.length - 1 || !/[A-Za-z0-9_$]$/.test(query))
+      );
+      candidates = this.linesWithWords(inner);
+    } else {
+      const words = query.match(WORD_PATTERN) || [];
+      if (words.length === 0) return [];
+      candidates = this.linesWithWords(words);
+      // Matched as whole words; the column is the first of them
+      pattern = new RegExp(`(?<![A-Za-z0-9_$])(?:${words.map(escapeRegExp).join('|')})(?![A-Za-z0-9_$])`, flags);
+    }
+
+    const wordsPattern = mode === 'words'
+      ? (query.match(WORD_PATTERN) || []).map(word => new RegExp(`(?<![A-Za-z0-9_$])${escapeRegExp(word)}(?![A-Za-z0-9_$])`, flags))
+      : [];
+
+    const matches: ContentMatch[] = [];
+    for (const [path, lines] of this.index.lines) {
+      const lineNumbers = candidates
+        ? [...(candidates.get(path) || [])].sort((a, b) => a - b)
+        : lines.map((_, i) => i + 1);
+      for (const line of lineNumbers) {
+        const text = lines[line - 1];
+        // The index is case-insensitive, so case-sensitive words are checked on the line
+        if (wordsPattern.some(word => !word.test(text))) continue;
+        const match = pattern.exec(text);
+        if (!match || match[0].length === 0) continue;
+        matches.push({ file: path, line, column: match.index + 1, length: match[0].length, snippet: snippetOf(text, match.index + 1) });
+        if (matches.length >= MAX_CONTENT_MATCHES) return matches;
+      }
+    }
+    return matches;
+  }
+
   // Common abbreviations mapping
   private abbreviations: Record<string, string[]> = {
     'auth': ['authentication', 'authorize', 'authorization'],
@@ -236,7 +526,7 @@ export class CodeSearchEngine {
       }
     } else {
       // Avoid duplicates
-      if (!entry.functions.find(f => f.name === data.name && f.file === data.file)) {
+      if (!entry.functions.find(f => f.name === data.name && f.file === data.file && f.line === data.line)) {
         entry.functions.push(data);
       }
     }
@@ -272,117 +562,82 @@ export class CodeSearchEngine {
     return matrix[len1][len2];
   }
 
-  // Search for a term
-  search(searchTerm: string, targetType?: 'files' | 'functions' | 'both'): SearchResult {
-    const normalizedTerm = searchTerm.toLowerCase().trim();
-    
-    // Direct lookup
-    const result = this.index.keywords.get(normalizedTerm);
-    
-    if (result) {
-      // Filter by target type
-      if (targetType === 'files') {
-        return { files: result.files, functions: [] };
-      } else if (targetType === 'functions') {
-        return { files: [], functions: result.functions };
-      } else {
-        return result;
-      }
-    }
-
-    // No exact match, try partial matching
-    const partialResult = this.partialSearch(normalizedTerm, targetType);
-    
-    if (partialResult.files.length > 0 || partialResult.functions.length > 0) {
-      return partialResult;
-    }
-
-    // Still no results, try fuzzy matching
-    return this.fuzzySearch(normalizedTerm, targetType);
-  }
-
-  // Partial search (contains)
-  private partialSearch(
-    searchTerm: string,
-    targetType?: 'files' | 'functions' | 'both'
-  ): SearchResult {
-    const result: SearchResult = { files: [], functions: [] };
-    const seenFiles = new Set<string>();
-    const seenFunctions = new Set<string>();
-
-    this.index.keywords.forEach((value, keyword) => {
-      if (keyword.includes(searchTerm)) {
-        // Add files
-        if (targetType !== 'functions') {
-          value.files.forEach(file => {
-            if (!seenFiles.has(file.path)) {
-              result.files.push({ ...file, score: file.score - 2 }); // Lower score for partial
-              seenFiles.add(file.path);
-            }
-          });
-        }
-
-        // Add functions
-        if (targetType !== 'files') {
-          value.functions.forEach(func => {
-            const key = `${func.file}-${func.name}`;
-            if (!seenFunctions.has(key)) {
-              result.functions.push({ ...func, score: func.score - 2 });
-              seenFunctions.add(key);
-            }
-          });
-        }
-      }
+  // Index keywords a query term stands for, with how strongly: exact, contained, or a typo away
+  private matchKeywords(term: string): Map<string, number> {
+    const matched = new Map<string, number>();
+    if (this.index.keywords.has(term)) matched.set(term, 1);
+    this.index.keywords.forEach((_, keyword) => {
+      if (keyword !== term && keyword.includes(term)) matched.set(keyword, PARTIAL_MATCH_WEIGHT);
     });
+    if (matched.size > 0) return matched;
 
-    // Sort by score
-    result.files.sort((a, b) => b.score - a.score);
-    result.functions.sort((a, b) => b.score - a.score);
-
-    return result;
+    this.index.keywords.forEach((_, keyword) => {
+      const distance = this.levenshteinDistance(term, keyword);
+      if (distance <= MAX_FUZZY_DISTANCE) matched.set(keyword, FUZZY_MATCH_WEIGHT / distance);
+    });
+    return matched;
   }
 
-  // Fuzzy search with Levenshtein distance
-  private fuzzySearch(
-    searchTerm: string,
-    targetType?: 'files' | 'functions' | 'both'
-  ): SearchResult {
+  // Files and functions ranked by BM25 over their identifiers, plus how close they are to
+  // context.nearPath, how often they are called across the repo and how recently they were edited
+  search(searchTerm: string, targetType?: 'files' | 'functions' | 'both', context: SearchContext = {}): SearchResult {
     const result: SearchResult = { files: [], functions: [] };
-    const seenFiles = new Set<string>();
-    const seenFunctions = new Set<string>();
-    const maxDistance = 2;
-
-    this.index.keywords.forEach((value, keyword) => {
-      const distance = this.levenshteinDistance(searchTerm, keyword);
-      
-      if (distance <= maxDistance) {
-        // Add files
-        if (targetType !== 'functions') {
-          value.files.forEach(file => {
-            if (!seenFiles.has(file.path)) {
-              result.files.push({ ...file, score: file.score - distance * 2 }); // Penalize by distance
-              seenFiles.add(file.path);
-            }
-          });
-        }
+    const queryTerms = [...new Set(searchTerm.toLowerCase().split(/[\s,]+/).filter(Boolean))];
+    if (queryTerms.length === 0) return result;
+
+    const documentCount = Math.max(1, this.index.documents.size);
+    let totalLength = 0;
+    this.index.documents.forEach(document => { totalLength += document.length; });
+    const averageLength = totalLength / documentCount || 1;
+
+    // Document key -> BM25 of each query term (the best of the keywords it matched) and those keywords
+    const scored = new Map<string, { perTerm: number[]; terms: Set<string>; file?: SearchResult['files'][number]; func?: SearchResult['functions'][number] }>();
+    queryTerms.forEach((term, termIndex) => {
+      this.matchKeywords(term).forEach((weight, keyword) => {
+        const entry = this.index.keywords.get(keyword)!;
+        const frequency = entry.files.length + entry.functions.length;
+        const idf = Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+        const candidates = [
+          ...(targetType === 'functions' ? [] : entry.files.map(file => ({ key: file.path, file, func: undefined }))),
+          ...(targetType === 'files' ? [] : entry.functions.map(func => ({ key: functionDocumentKey(func.file, func.name, func.line), file: undefined, func }))),
+        ];
+        candidates.forEach(({ key, file, func }) => {
+          const document = this.index.documents.get(key);
+          if (!document) return;
+          const tf = document.terms.get(keyword) || 0;
+          const termScore = weight * idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength));
+          let scores = scored.get(key);
+          if (!scores) {
+            scores = { perTerm: queryTerms.map(() => 0), terms: new Set(), file, func };
+            scored.set(key, scores);
+          }
+          scores.terms.add(keyword);
+          scores.perTerm[termIndex] = Math.max(scores.perTerm[termIndex], termScore);
+        });
+      });
+    });
 
-        // Add functions
-        if (targetType !== 'files') {
-          value.functions.forEach(func => {
-            const key = `${func.file}-${func.name}`;
-            if (!seenFunctions.has(key)) {
-              result.functions.push({ ...func, score: func.score - distance * 2 });
-              seenFunctions.add(key);
-            }
-          });
-        }
-      }
+    const now = context.now ?? Date.now();
+    scored.forEach((scores, key) => {
+      const document = this.index.documents.get(key)!;
+      const bm25 = scores.perTerm.reduce((sum, score) => sum + score, 0);
+      const calls = document.symbols.reduce((sum, name) => sum + (this.index.callCounts.get(name) || 0), 0);
+      const modifiedAt = this.index.modifiedAt.get(document.path);
+      const breakdown: ScoreBreakdown = {
+        bm25,
+        proximity: context.nearPath ? SIGNAL_WEIGHTS.proximity * pathProximity(document.path, context.nearPath) : 0,
+        usage: SIGNAL_WEIGHTS.usage * Math.log1p(calls),
+        recency: modifiedAt ? SIGNAL_WEIGHTS.recency * Math.pow(0.5, Math.max(0, now - modifiedAt) / DAY_MS / RECENCY_HALF_LIFE_DAYS) : 0,
+        total: 0,
+        terms: [...scores.terms],
+      };
+      breakdown.total = breakdown.bm25 + breakdown.proximity + breakdown.usage + breakdown.recency;
+      if (scores.file) result.files.push({ ...scores.file, score: breakdown.total, breakdown });
+      if (scores.func) result.functions.push({ ...scores.func, score: breakdown.total, breakdown });
     });
 
-    // Sort by score
     result.files.sort((a, b) => b.score - a.score);
     result.functions.sort((a, b) => b.score - a.score);
-
     return result;
   }
 }
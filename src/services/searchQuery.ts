@@ -0,0 +1,242 @@
+import { FileStructure } from '../store/useFileStore';
+import { EndpointInfo, FunctionInfo } from '../utils/codeAnalyzer';
+import { endpointLabel } from '../utils/endpointDetectors';
+import { getLanguageDefinition } from '../utils/languageRegistry';
+import { resolveSymbol } from '../utils/moduleResolver';
+
+// Structured canvas search:
+//   kind:endpoint method:post
+//   path:src/services AND (calls:explainCode OR calledBy:handleSearch)
+//   lang:py NOT complexity:<=3
+// Terms next to each other are ANDed; a bare word or "quoted phrase" matches names.
+export const QUERY_FIELDS = ['kind', 'method', 'path', 'name', 'calls', 'calledBy', 'lang', 'complexity', 'lines'] as const;
+
+export type QueryField = typeof QUERY_FIELDS[number];
+
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'filter'; field: QueryField; value: string }
+  | { type: 'text'; value: string };
+
+export type QueryMatch =
+  | { type: 'file'; path: string }
+  | { type: 'function'; path: string; name: string; line: number }
+  | { type: 'endpoint'; path: string; label: string; line: number };
+
+type QueryItem =
+  | { type: 'file'; file: FileStructure }
+  | { type: 'function'; file: FileStructure; func: FunctionInfo }
+  | { type: 'endpoint'; file: FileStructure; endpoint: EndpointInfo };
+
+const FIELD_PATTERN = new RegExp(`(^|[\\s(])-?(${QUERY_FIELDS.join('|')}):`, 'i');
+
+// Whether the input uses any field:value filter, rather than being plain search text
+export const isStructuredQuery = (input: string) => FIELD_PATTERN.test(input);
+
+const tokenize = (input: string) => {
+  const tokens: string[] = [];
+  const pattern = /\s*(\(|\)|[^\s()"]*"[^"]*"?|[^\s()]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    if (match[1]) tokens.push(match[1]);
+  }
+  return tokens;
+};
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '');
+
+export function parseSearchQuery(input: string): QueryNode {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (tokens[position] === 'OR') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (position < tokens.length && tokens[position] !== 'OR' && tokens[position] !== ')') {
+      if (tokens[position] === 'AND') position++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[position++];
+    if (token === undefined) throw new Error('The query ends where a filter was expected');
+    if (token === 'NOT') return { type: 'not', child: parseUnary() };
+    if (token === '(') {
+      const inner = parseOr();
+      if (tokens[position++] !== ')') throw new Error('Missing ")" in the query');
+      return inner;
+    }
+    if (token === ')' || token === 'AND' || token === 'OR') throw new Error(`Unexpected "${token}" in the query`);
+    // -path:test is short for NOT path:test
+    if (token.startsWith('-') && token.length > 1) {
+      tokens[--position] = token.slice(1);
+      return { type: 'not', child: parseUnary() };
+    }
+
+    const separator = token.indexOf(':');
+    if (separator > 0 && !token.startsWith('"')) {
+      const name = token.slice(0, separator);
+      const field = QUERY_FIELDS.find(f => f.toLowerCase() === name.toLowerCase());
+      if (!field) throw new Error(`Unknown filter "${name}:". Filters: ${QUERY_FIELDS.join(', ')}`);
+      const value = unquote(token.slice(separator + 1));
+      if (!value) throw new Error(`${field}: needs a value`);
+      return { type: 'filter', field, value };
+    }
+    return { type: 'text', value: unquote(token) };
+  };
+
+  if (tokens.length === 0) throw new Error('Empty query');
+  const query = parseOr();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in the query`);
+  return query;
+}
+
+// complexity:>10, lines:<=40, complexity:7
+const compareNumber = (actual: number, condition: string) => {
+  const match = condition.match(/^(>=|<=|>|<|=)?\s*(\d+(?:\.\d+)?)$/);
+  if (!match) throw new Error(`Expected a number such as >10 or <=3, not "${condition}"`);
+  const expected = Number(match[2]);
+  switch (match[1]) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+};
+
+// path:src/services matches anywhere in the path; * stands for any run of characters
+const matchesPath = (path: string, value: string) => {
+  const pattern = value.toLowerCase().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(pattern).test(path.toLowerCase());
+};
+
+const itemName = (item: QueryItem) =>
+  item.type === 'file' ? item.file.name
+    : item.type === 'function' ? (item.func.owner ? `${item.func.owner}.${item.func.name}` : item.func.name)
+      : endpointLabel(item.endpoint);
+
+// Functions called from functions named name, as "file:func"
+const calleesOf = (files: FileStructure[], name: string) => {
+  const callees = new Set<string>();
+  const lower = name.toLowerCase();
+  files.forEach(file => {
+    (file.analysis?.functions || [])
+      .filter(func => func.name.toLowerCase() === lower || `${func.owner}.${func.name}`.toLowerCase() === lower)
+      .forEach(func => func.calls.forEach(call => {
+        const target = resolveSymbol(files, file, call.name, call.receiver, func.owner);
+        if (target) callees.add(`${target.file}:${target.func}`);
+      }));
+  });
+  return callees;
+};
+
+// Whether item passes the node; null where the node says nothing about items of its kind
+// (complexity of a file, method of a function), so NOT doesn't turn those into matches
+const evaluate = (node: QueryNode, item: QueryItem, callees: Map<string, Set<string>>): boolean | null => {
+  switch (node.type) {
+    case 'and': {
+      let result: boolean | null = true;
+      for (const child of node.children) {
+        const value = evaluate(child, item, callees);
+        if (value === false) return false;
+        if (value === null) result = null;
+      }
+      return result;
+    }
+    case 'or': {
+      let result: boolean | null = null;
+      for (const child of node.children) {
+        const value = evaluate(child, item, callees);
+        if (value === true) return true;
+        if (value === false) result = false;
+      }
+      return result;
+    }
+    case 'not': {
+      const value = evaluate(node.child, item, callees);
+      return value === null ? null : !value;
+    }
+    case 'text':
+      return itemName(item).toLowerCase().includes(node.value.toLowerCase());
+  }
+
+  const value = node.value.toLowerCase();
+  const func = item.type === 'function' ? item.func : undefined;
+  switch (node.field) {
+    case 'kind':
+      if (value === 'file') return item.type === 'file';
+      if (value === 'endpoint' || value === 'route') return item.type === 'endpoint';
+      if (value === 'function') return item.type === 'function';
+      return func ? func.kind === value : false;
+    case 'method':
+      return item.type === 'endpoint' ? item.endpoint.method.toLowerCase() === value : null;
+    case 'path':
+      return matchesPath(item.file.path, node.value);
+    case 'name':
+      return itemName(item).toLowerCase().includes(value);
+    case 'lang': {
+      const language = getLanguageDefinition(item.file.language);
+      return item.file.language.toLowerCase() === value || !!language?.extensions.includes(`.${value}`);
+    }
+    case 'calls':
+      return func
+        ? func.calls.some(call => call.name.toLowerCase() === value || `${call.receiver}.${call.name}`.toLowerCase() === value)
+        : null;
+    case 'calledBy':
+      return func ? callees.get(value)!.has(`${item.file.path}:${func.name}`) : null;
+    case 'complexity':
+      return func ? compareNumber(func.metrics.cyclomatic, node.value) : null;
+    case 'lines':
+      return func ? compareNumber(func.metrics.lines, node.value)
+        : item.type === 'file' ? compareNumber(item.file.content.split('\n').length, node.value)
+          : null;
+  }
+};
+
+const collectFilters = (node: QueryNode, field: QueryField): string[] =>
+  node.type === 'filter' ? (node.field === field ? [node.value] : [])
+    : node.type === 'not' ? collectFilters(node.child, field)
+      : node.type === 'text' ? []
+        : node.children.flatMap(child => collectFilters(child, field));
+
+// Files, functions and endpoints the query matches. Without a kind: filter, a file that matches
+// as a whole stands for its functions, and endpoints are only searched when a method: asks for them.
+export function runSearchQuery(files: FileStructure[], query: QueryNode): QueryMatch[] {
+  const kinds = collectFilters(query, 'kind');
+  const searchesEndpoints = kinds.length > 0 || collectFilters(query, 'method').length > 0;
+  const callees = new Map(collectFilters(query, 'calledBy').map(name => [name.toLowerCase(), calleesOf(files, name)]));
+
+  const matches: QueryMatch[] = [];
+  files.forEach(file => {
+    const fileMatches = evaluate(query, { type: 'file', file }, callees) === true;
+    if (fileMatches) matches.push({ type: 'file', path: file.path });
+
+    if (!fileMatches || kinds.length > 0) {
+      (file.analysis?.functions || []).forEach(func => {
+        if (evaluate(query, { type: 'function', file, func }, callees) === true) {
+          matches.push({ type: 'function', path: file.path, name: func.name, line: func.startLine });
+        }
+      });
+    }
+    if (searchesEndpoints) {
+      (file.analysis?.endpoints || []).forEach(endpoint => {
+        if (evaluate(query, { type: 'endpoint', file, endpoint }, callees) === true) {
+          matches.push({ type: 'endpoint', path: file.path, label: endpointLabel(endpoint), line: endpoint.line });
+        }
+      });
+    }
+  });
+  return matches;
+}
@@ -0,0 +1,91 @@
+import { FileStructure } from '../store/useFileStore';
+import { FlowStep } from './flowTracer';
+import { findFunction } from '../utils/moduleResolver';
+
+// A file, or a class when the function belongs to one
+export interface SequenceParticipant {
+  id: string;
+  label: string;
+  file: string;
+}
+
+export interface SequenceMessage {
+  from: string;
+  to: string;
+  text: string;
+  kind: 'call' | 'async' | 'return';
+  stepIndex: number; // FlowStep the message was drawn from
+}
+
+export interface SequenceDiagram {
+  participants: SequenceParticipant[];
+  messages: SequenceMessage[];
+}
+
+// Calls and returns of a traced flow, with participants in order of first appearance
+export function buildSequenceDiagram(files: FileStructure[], steps: FlowStep[]): SequenceDiagram {
+  const participants: SequenceParticipant[] = [];
+  const byKey = new Map<string, SequenceParticipant>();
+  const messages: SequenceMessage[] = [];
+
+  // The class of the named function (starting at funcLine), or of the innermost function around line
+  const participantOf = (file: string, func?: string, line?: number, funcLine?: number) => {
+    const functions = files.find(f => f.path === file)?.analysis?.functions || [];
+    const info = func
+      ? findFunction(functions, func, funcLine)
+      : functions
+          .filter(f => line !== undefined && f.startLine <= line && line <= f.endLine)
+          .sort((a, b) => b.startLine - a.startLine)[0];
+    const key = info?.owner ? `${file}#${info.owner}` : file;
+    let participant = byKey.get(key);
+    if (!participant) {
+      participant = { id: `p${participants.length}`, label: info?.owner ?? file.split('/').pop() ?? file, file };
+      byKey.set(key, participant);
+      participants.push(participant);
+    }
+    return participant.id;
+  };
+
+  steps.forEach((step, stepIndex) => {
+    if (step.type === 'prepare-return' && participants.length === 0) {
+      participantOf(step.file, step.func, undefined, step.funcLine);
+    } else if (step.type === 'animate-edge-with-dot') {
+      const from = participantOf(step.fromFile, undefined, step.fromLine);
+      const to = step.toRouteLine ? participantOf(step.toFile, undefined, step.toRouteLine) : participantOf(step.toFile, step.toFunc, undefined, step.toFuncLine);
+      const name = step.callName ?? step.toFunc;
+      const prefix = step.mode === 'await' ? 'await ' : step.mode === 'event' ? 'emit ' : '';
+      const isAsync = step.mode === 'deferred' || step.mode === 'event';
+      // Inline callbacks go by a description rather than a name
+      const call = /^[\w$.]+$/.test(name) ? `${name}()` : name;
+      messages.push({ from, to, text: `${prefix}${call} :${step.fromLine}`, kind: isAsync ? 'async' : 'call', stepIndex });
+    } else if (step.type === 'return-edge-with-dot') {
+      const from = step.fromRouteLine ? participantOf(step.fromFile, undefined, step.fromRouteLine) : participantOf(step.fromFile, step.fromFunc, undefined, step.fromFuncLine);
+      const to = participantOf(step.toFile, undefined, step.toLine);
+      messages.push({ from, to, text: 'return', kind: 'return', stepIndex });
+    }
+  });
+
+  return { participants, messages };
+}
+
+// Both syntaxes end a message at ';' or treat '#' specially
+const clean = (text: string) => text.replace(/[;#]/g, ' ').replace(/"/g, "'");
+
+export const toMermaid = ({ participants, messages }: SequenceDiagram) => [
+  'sequenceDiagram',
+  ...participants.map(p => `  participant ${p.id} as ${clean(p.label)}`),
+  ...messages.map(m => {
+    const arrow = m.kind === 'return' ? '-->>' : m.kind === 'async' ? '-)' : '->>';
+    return `  ${m.from}${arrow}${m.to}: ${clean(m.text)}`;
+  }),
+].join('\n');
+
+export const toPlantUml = ({ participants, messages }: SequenceDiagram) => [
+  '@startuml',
+  ...participants.map(p => `participant "${clean(p.label)}" as ${p.id}`),
+  ...messages.map(m => {
+    const arrow = m.kind === 'return' ? '-->' : m.kind === 'async' ? '->>' : '->';
+    return `${m.from} ${arrow} ${m.to} : ${clean(m.text)}`;
+  }),
+  '@enduml',
+].join('\n');
@@ -0,0 +1,107 @@
+import { FileStructure } from '../store/useFileStore';
+import { TypeInfo } from '../utils/codeAnalyzer';
+import { resolveTypeSymbol } from '../utils/moduleResolver';
+
+export type TypeEdgeKind = 'extends' | 'implements' | 'reference';
+
+export interface TypeGraphNode {
+  id: string; // `${file}#${name}`
+  file: string;
+  type: TypeInfo;
+}
+
+export interface TypeGraphEdge {
+  source: string; // Subtype, or the type holding the field
+  target: string;
+  kind: TypeEdgeKind;
+  fields: string[]; // Members whose annotation references target
+}
+
+export interface TypeGraph {
+  nodes: TypeGraphNode[];
+  edges: TypeGraphEdge[];
+}
+
+export const typeNodeId = (file: string, name: string) => `${file}#${name}`;
+
+// Link every declared type to the types it extends, implements or references,
+// resolving names through imports the same way call edges are resolved
+export function buildTypeGraph(files: FileStructure[]): TypeGraph {
+  const nodes: TypeGraphNode[] = files.flatMap(file =>
+    (file.analysis?.types || []).map(type => ({ id: typeNodeId(file.path, type.name), file: file.path, type }))
+  );
+  const edges = new Map<string, TypeGraphEdge>();
+
+  const addEdge = (source: string, target: string, kind: TypeEdgeKind, field?: string) => {
+    if (source === target && kind !== 'reference') return;
+    const key = `${source}->${target}:${kind}`;
+    const edge = edges.get(key) ?? { source, target, kind, fields: [] };
+    if (field && !edge.fields.includes(field)) edge.fields.push(field);
+    edges.set(key, edge);
+  };
+
+  files.forEach(file => {
+    (file.analysis?.types || []).forEach(type => {
+      const source = typeNodeId(file.path, type.name);
+      const link = (name: string, kind: TypeEdgeKind, field?: string) => {
+        const target = resolveTypeSymbol(files, file, name);
+        if (target) addEdge(source, typeNodeId(target.file, target.name), kind, field);
+      };
+
+      type.extends.forEach(name => link(name, 'extends'));
+      type.implements.forEach(name => link(name, 'implements'));
+      type.members.forEach(member => member.references.forEach(name => link(name, 'reference', member.name)));
+      if (type.aliasOf) type.references.forEach(name => link(name, 'reference'));
+    });
+  });
+
+  return { nodes, edges: [...edges.values()] };
+}
+
+// Rough rendered size of a TypeNode, for layout before React Flow has measured it
+export const TYPE_NODE_WIDTH = 300;
+export const MAX_VISIBLE_MEMBERS = 12;
+const estimateHeight = (type: TypeInfo) =>
+  64 + Math.min(type.members.length, MAX_VISIBLE_MEMBERS + 1) * 20 + (type.aliasOf ? 24 : 0);
+
+// Layered layout: supertypes above their subtypes, starting at origin
+export function layoutTypeGraph(graph: TypeGraph, origin: { x: number; y: number }): Map<string, { x: number; y: number }> {
+  const parents = new Map<string, string[]>();
+  graph.edges
+    .filter(e => e.kind !== 'reference')
+    .forEach(e => parents.set(e.source, [...(parents.get(e.source) || []), e.target]));
+
+  const depths = new Map<string, number>();
+  const depthOf = (id: string, visiting: Set<string> = new Set()): number => {
+    if (depths.has(id)) return depths.get(id)!;
+    if (visiting.has(id)) return 0; // Cyclic heritage in broken code
+    visiting.add(id);
+    const depth = Math.max(-1, ...(parents.get(id) || []).map(p => depthOf(p, visiting))) + 1;
+    depths.set(id, depth);
+    return depth;
+  };
+
+  const layers: TypeGraphNode[][] = [];
+  graph.nodes.forEach(node => {
+    const depth = depthOf(node.id);
+    (layers[depth] = layers[depth] || []).push(node);
+  });
+
+  // Wide layers wrap so the diagram stays roughly square
+  const columns = Math.max(4, Math.ceil(Math.sqrt(graph.nodes.length)));
+  const positions = new Map<string, { x: number; y: number }>();
+  let y = origin.y;
+
+  layers.filter(Boolean).forEach(layer => {
+    const sorted = [...layer].sort((a, b) => a.file.localeCompare(b.file) || a.type.name.localeCompare(b.type.name));
+    for (let start = 0; start < sorted.length; start += columns) {
+      const row = sorted.slice(start, start + columns);
+      row.forEach((node, index) => {
+        positions.set(node.id, { x: origin.x + index * (TYPE_NODE_WIDTH + 80), y });
+      });
+      y += Math.max(...row.map(node => estimateHeight(node.type))) + 140;
+    }
+  });
+
+  return positions;
+}
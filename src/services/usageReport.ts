@@ -0,0 +1,115 @@
+import { FileStructure } from '../store/useFileStore';
+import { ExportKind } from '../utils/codeAnalyzer';
+import { resolveSymbol } from '../utils/moduleResolver';
+
+export interface UnusedExport {
+  file: string;
+  name: string;
+  kind: ExportKind;
+  line: number;
+}
+
+export interface UncalledFunction {
+  file: string;
+  name: string;
+  owner?: string;
+  line: number;
+}
+
+export interface UsageReport {
+  unusedExports: UnusedExport[];
+  uncalledFunctions: UncalledFunction[];
+}
+
+// Cross-reference imports and calls across all loaded files.
+// Only files on the canvas are considered, so exports used by files outside it are reported too.
+export function buildUsageReport(files: FileStructure[]): UsageReport {
+  const filesByPath = new Map(files.map(f => [f.path, f]));
+  const usedExports = new Set<string>(); // `${path}:${exportedName}`
+
+  const markUsed = (path: string, exportedName: string, visited: Set<string> = new Set()) => {
+    const key = `${path}:${exportedName}`;
+    if (visited.has(key)) return;
+    visited.add(key);
+    usedExports.add(key);
+
+    // Barrels pass the use on to the module they re-export from
+    const file = filesByPath.get(path);
+    file?.analysis?.imports.forEach(reexport => {
+      if (reexport.kind !== 'reexport' || !reexport.resolvedPath) return;
+      if (reexport.namedImports.includes(exportedName)) {
+        markUsed(reexport.resolvedPath, reexport.aliases?.[exportedName] ?? exportedName, visited);
+      } else if (reexport.namespaceImport === exportedName) {
+        markAllUsed(reexport.resolvedPath, visited);
+      } else if (reexport.reexportAll && exportedName !== 'default') {
+        markUsed(reexport.resolvedPath, exportedName, visited);
+      }
+    });
+  };
+
+  // Namespace imports can reach any export, so treat them all as used
+  const markAllUsed = (path: string, visited: Set<string> = new Set()) => {
+    const file = filesByPath.get(path);
+    file?.analysis?.exports?.forEach(e => {
+      if (e.name !== '*') markUsed(path, e.name, visited);
+    });
+    file?.analysis?.imports.forEach(i => {
+      if (i.kind === 'reexport' && i.reexportAll && i.resolvedPath) markAllUsed(i.resolvedPath, visited);
+    });
+  };
+
+  files.forEach(file => {
+    file.analysis?.imports.forEach(importInfo => {
+      // Re-exports only count once something imports them from the barrel
+      if (importInfo.kind === 'reexport' || !importInfo.resolvedPath) return;
+      const target = importInfo.resolvedPath;
+
+      importInfo.namedImports.forEach(name => markUsed(target, importInfo.aliases?.[name] ?? name));
+      if (importInfo.defaultImport) markUsed(target, 'default');
+      if (importInfo.namespaceImport) markAllUsed(target);
+    });
+  });
+
+  const unusedExports: UnusedExport[] = files.flatMap(file =>
+    (file.analysis?.exports || [])
+      .filter(e => e.name !== '*' && !usedExports.has(`${file.path}:${e.name}`))
+      .map(e => ({ file: file.path, name: e.name, kind: e.kind, line: e.line }))
+  );
+
+  // Every definition some call site or endpoint resolves to
+  const calledDefinitions = new Set<string>(); // `${path}:${funcName}`
+  const calledNames = new Set<string>();
+  files.forEach(file => {
+    if (!file.analysis) return;
+    file.analysis.functions.forEach(f => f.calls.forEach(call => {
+      calledNames.add(call.name);
+      const target = resolveSymbol(files, file, call.name, call.receiver, f.owner);
+      if (target) calledDefinitions.add(`${target.file}:${target.func}`);
+    }));
+    // Route handlers, middleware and socket listeners are called by the framework
+    const routeRefs = [
+      ...file.analysis.endpoints.flatMap(e => [...e.middleware, { name: e.handler, line: e.line, receiver: e.handlerReceiver }]),
+      ...(file.analysis.mounts || []).flatMap(m => m.middleware),
+      ...(file.analysis.socketHandlers || []).map(h => ({ name: h.handler, line: h.line, receiver: h.handlerReceiver })),
+    ];
+    routeRefs.forEach(ref => {
+      calledNames.add(ref.name);
+      const target = resolveSymbol(files, file, ref.name, ref.receiver);
+      if (target) calledDefinitions.add(`${target.file}:${target.func}`);
+    });
+  });
+
+  const uncalledFunctions: UncalledFunction[] = files.flatMap(file =>
+    (file.analysis?.functions || [])
+      // Constructors and accessors run implicitly, inline route handlers are always registered
+      .filter(f => f.kind === 'function' || f.kind === 'method')
+      .filter(f => {
+        // Method receivers aren't typed, so any call with the same name counts
+        if (f.kind === 'method') return !calledNames.has(f.name);
+        return !calledDefinitions.has(`${file.path}:${f.name}`);
+      })
+      .map(f => ({ file: file.path, name: f.name, owner: f.owner, line: f.startLine }))
+  );
+
+  return { unusedExports, uncalledFunctions };
+}
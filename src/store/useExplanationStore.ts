@@ -5,10 +5,12 @@ interface ExplanationStore {
   title: string;
   content: string;
   isLoading: boolean;
+  endpointExplanations: Record<string, string>; // `${filePath}#${endpointLabel}` -> explanation
   openExplanation: (title: string, content: string, isLoading?: boolean) => void;
   setContent: (content: string) => void;
   setIsLoading: (isLoading: boolean) => void;
   closeExplanation: () => void;
+  saveEndpointExplanation: (key: string, content: string) => void;
 }
 
 export const useExplanationStore = create<ExplanationStore>((set) => ({
@@ -16,8 +18,12 @@ export const useExplanationStore = create<ExplanationStore>((set) => ({
   title: '',
   content: '',
   isLoading: false,
+  endpointExplanations: {},
   openExplanation: (title, content, isLoading = false) => set({ isOpen: true, title, content, isLoading }),
   setContent: (content) => set({ content }),
   setIsLoading: (isLoading) => set({ isLoading }),
   closeExplanation: () => set({ isOpen: false }),
+  saveEndpointExplanation: (key, content) => set((state) => ({
+    endpointExplanations: { ...state.endpointExplanations, [key]: content },
+  })),
 }));
@@ -1,5 +1,8 @@
 import { create } from 'zustand';
-import { FileAnalysis, analyzeCode } from '../utils/codeAnalyzer';
+import { FileAnalysis } from '../utils/codeAnalyzer';
+import { linkFiles } from '../utils/moduleResolver';
+import { analyzeFiles, isAnalyzable } from '../services/analysisPool';
+import { FlowStart, FlowStep } from '../services/flowTracer';
 
 export interface FileStructure {
   name: string;
@@ -8,6 +11,7 @@ export interface FileStructure {
   language: string;
   analysis?: FileAnalysis;
   lastSyncedContent?: string;
+  modifiedAt?: number; // Last edit, from the uploaded file or an edit on the canvas; unknown for GitHub files
 }
 
 export interface Drawing {
@@ -19,6 +23,17 @@ export interface Drawing {
   text?: string;
 }
 
+// A traced flow saved into the room, replayable by everyone in it
+export interface SavedFlow {
+  id: string;
+  title: string;
+  steps: FlowStep[]; // With every branch point decided, so replays never stop to ask
+  notes: Record<number, string>; // By step index
+  start?: FlowStart; // Absent for recorded runtime traces
+  createdBy: string;
+  createdAt: number;
+}
+
 interface GitHubContext {
   owner: string;
   repo: string;
@@ -53,6 +68,7 @@ export interface CachedRepoData {
 interface FileStore {
   files: FileStructure[];
   drawings: Drawing[];
+  savedFlows: SavedFlow[];
   githubContext: GitHubContext | null;
   cachedRepoData: CachedRepoData | null;
   setFiles: (files: FileStructure[]) => void;
@@ -67,37 +83,68 @@ interface FileStore {
   updateDrawing: (id: string, updates: Partial<Drawing>) => void;
   removeDrawing: (id: string) => void;
   setDrawings: (drawings: Drawing[] | ((prev: Drawing[]) => Drawing[])) => void;
+  setSavedFlows: (flows: SavedFlow[] | ((prev: SavedFlow[]) => SavedFlow[])) => void;
   setCachedRepoData: (data: CachedRepoData | null) => void;
   switchSegments: (categories: Set<string>) => void;
   addToCache: (files: FileStructure[]) => void;
   setViewMode: (mode: ViewMode) => void;
 }
 
+// Edits are re-analysed once typing settles, in the worker pool
+const REANALYSIS_DELAY_MS = 400;
+const pendingReanalysis = new Set<string>();
+let reanalysisTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Re-parse only the edited files, then re-link so importers and mounted routers pick up the change
+const reanalyzeEditedFiles = async () => {
+  const paths = new Set(pendingReanalysis);
+  pendingReanalysis.clear();
+  const edited = useFileStore.getState().files.filter(f => paths.has(f.path));
+  const analyzed = await analyzeFiles(edited);
+
+  useFileStore.setState((state) => {
+    // Skip results for files edited again (or removed) while they were being analysed
+    const fresh = new Map(
+      analyzed
+        .filter(a => state.files.some(f => f.path === a.path && f.content === a.content))
+        .map(a => [a.path, a.analysis])
+    );
+    if (fresh.size === 0) return {};
+    const files = state.files.map(f => (fresh.has(f.path) ? { ...f, analysis: fresh.get(f.path) ?? f.analysis } : f));
+    // Editing a tsconfig can change how any import resolves
+    const changedPaths = edited.every(isAnalyzable) ? new Set(fresh.keys()) : undefined;
+    return { files: linkFiles(files, state.cachedRepoData?.allFiles, changedPaths) };
+  });
+};
+
+const scheduleReanalysis = (path: string) => {
+  pendingReanalysis.add(path);
+  clearTimeout(reanalysisTimer);
+  reanalysisTimer = setTimeout(reanalyzeEditedFiles, REANALYSIS_DELAY_MS);
+};
+
 export const useFileStore = create<FileStore>((set) => ({
   files: [],
   drawings: [],
+  savedFlows: [],
   githubContext: null,
   cachedRepoData: null,
-  setFiles: (files) => set({ files }),
-  addFile: (file) => set((state) => ({ files: [...state.files, file] })),
+  setFiles: (files) => set((state) => ({ files: linkFiles(files, state.cachedRepoData?.allFiles) })),
+  addFile: (file) => set((state) => ({ files: linkFiles([...state.files, file], state.cachedRepoData?.allFiles) })),
   removeFile: (path) => set((state) => ({
-    files: state.files.filter(f => f.path !== path)
+    files: linkFiles(state.files.filter(f => f.path !== path), state.cachedRepoData?.allFiles)
   })),
-  updateFileContent: (path, newContent) => set((state) => {
-    const updatedFiles = state.files.map(f => {
-      if (f.path === path) {
-        // Re-analyze the code dynamically
-        const analysis = analyzeCode(path, newContent);
-        return { ...f, content: newContent, analysis };
-      }
-      return f;
-    });
-    return { files: updatedFiles };
-  }),
+  updateFileContent: (path, newContent) => {
+    // The previous analysis stays on screen until the new one arrives
+    set((state) => ({
+      files: state.files.map(f => (f.path === path ? { ...f, content: newContent, modifiedAt: Date.now() } : f))
+    }));
+    scheduleReanalysis(path);
+  },
   setGitHubContext: (context) => set({ githubContext: context }),
-  clearFiles: () => set({ files: [], drawings: [], githubContext: null, cachedRepoData: null }),
+  clearFiles: () => set({ files: [], drawings: [], savedFlows: [], githubContext: null, cachedRepoData: null }),
   updateFileAnalysis: (path, analysis) => set((state) => ({
-    files: state.files.map((f) => (f.path === path ? { ...f, analysis } : f)),
+    files: linkFiles(state.files.map((f) => (f.path === path ? { ...f, analysis } : f)), state.cachedRepoData?.allFiles),
   })),
   markAllAsSynced: () => set((state) => ({
     files: state.files.map(f => ({ ...f, lastSyncedContent: f.content }))
@@ -114,6 +161,11 @@ export const useFileStore = create<FileStore>((set) => ({
       ? (drawingsOrUpdater as (prev: Drawing[]) => Drawing[])(state.drawings)
       : drawingsOrUpdater
   })),
+  setSavedFlows: (flowsOrUpdater) => set((state) => ({
+    savedFlows: typeof flowsOrUpdater === 'function'
+      ? flowsOrUpdater(state.savedFlows)
+      : flowsOrUpdater
+  })),
   setCachedRepoData: (data) => set({ cachedRepoData: data }),
   switchSegments: (categories) => set((state) => {
     if (!state.cachedRepoData) return {};
@@ -127,7 +179,7 @@ export const useFileStore = create<FileStore>((set) => ({
     const newFiles = state.cachedRepoData.allFiles.filter(f => selectedPaths.has(f.path));
     
     return {
-      files: newFiles,
+      files: linkFiles(newFiles, state.cachedRepoData.allFiles),
       cachedRepoData: { ...state.cachedRepoData, selectedCategories: categories }
     };
   }),
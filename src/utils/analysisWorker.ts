@@ -0,0 +1,16 @@
+import { analyzeFile } from './languageRegistry';
+import { AnalysisRequest, AnalysisResponse } from '../services/analysisPool';
+
+// Entry point of the analysis pool's workers
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const { id, path, content, language } = event.data;
+  let response: AnalysisResponse;
+  try {
+    response = { id, analysis: analyzeFile(path, content, language) };
+  } catch (e) {
+    response = { id, error: e instanceof Error ? e.message : String(e) };
+  }
+  worker.postMessage(response);
+};
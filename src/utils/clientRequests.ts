@@ -0,0 +1,215 @@
+import * as ts from 'typescript';
+import { FileStructure } from '../store/useFileStore';
+import { ClientRequestInfo, EndpointInfo, SocketHandlerInfo } from './codeAnalyzer';
+import { HTTP_CLIENTS, HTTP_METHODS, joinRoute, receiverText } from './endpointDetectors';
+
+// Placeholder for any interpolated part of a URL
+const PARAM = ':param';
+
+// socket, this.socket, io, clientSocket - but not window.on or emitter.emit
+export const isSocketReceiver = (receiver: ts.Expression) => {
+  const name = ts.isPropertyAccessExpression(receiver) ? receiver.name.text : receiver.getText();
+  return /socket/i.test(name) || name === 'io';
+};
+
+// Collapse a URL expression into a path pattern: `${base}/users/${id}?full=1` -> /users/:param (partial)
+const urlPattern = (node: ts.Expression): { path: string; partial: boolean } | null => {
+  const flatten = (n: ts.Expression): string => {
+    if (ts.isStringLiteralLike(n)) return n.text;
+    if (ts.isTemplateExpression(n)) {
+      return n.head.text + n.templateSpans.map(span => PARAM + span.literal.text).join('');
+    }
+    if (ts.isBinaryExpression(n) && n.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      return flatten(n.left) + flatten(n.right);
+    }
+    if (ts.isParenthesizedExpression(n)) return flatten(n.expression);
+    return PARAM;
+  };
+
+  let url = flatten(node)
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '') // Origin
+    .replace(/[?#].*$/, '');
+
+  let partial = false;
+  if (url.startsWith(PARAM)) {
+    // Leading interpolation is a base URL we can't see
+    url = url.slice(PARAM.length);
+    partial = true;
+  }
+  if (!url.startsWith('/')) url = `/${url}`;
+  // Interpolations inside a segment (`/users/${id}.json`) make the whole segment unknown
+  url = url.split('/').map(segment => (segment.includes(PARAM) ? PARAM : segment)).join('/');
+
+  const hasLiteral = url.split('/').some(segment => segment && segment !== PARAM);
+  return hasLiteral ? { path: url.replace(/\/+$/, '') || '/', partial } : null;
+};
+
+const getProperty = (options: ts.ObjectLiteralExpression, name: string) => {
+  const property = options.properties.find(
+    (p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === name
+  );
+  return property?.initializer;
+};
+
+const getMethodOption = (options: ts.Expression | undefined, fallback: string) => {
+  const method = options && ts.isObjectLiteralExpression(options) ? getProperty(options, 'method') : undefined;
+  return method && ts.isStringLiteralLike(method) ? method.text.toLowerCase() : fallback;
+};
+
+export const findClientRequests = (
+  sourceFile: ts.SourceFile,
+  addInlineHandler: (name: string, fn: ts.FunctionLikeDeclaration) => void
+): { requests: ClientRequestInfo[]; socketHandlers: SocketHandlerInfo[] } => {
+  const requests: ClientRequestInfo[] = [];
+  const socketHandlers: SocketHandlerInfo[] = [];
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+
+  // HTTP client instances and their base path: const api = axios.create({ baseURL: '/api' })
+  const clientBases = new Map<string, string>();
+  const collectClients = (n: ts.Node) => {
+    if (ts.isVariableDeclaration(n) && ts.isIdentifier(n.name) && n.initializer && ts.isCallExpression(n.initializer)) {
+      const callee = n.initializer.expression;
+      if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && HTTP_CLIENTS.has(callee.expression.text)) {
+        const [options] = n.initializer.arguments;
+        const baseURL = options && ts.isObjectLiteralExpression(options)
+          ? getProperty(options, 'baseURL') ?? getProperty(options, 'prefixUrl')
+          : undefined;
+        const base = baseURL ? urlPattern(baseURL) : null;
+        clientBases.set(n.name.text, base && !base.partial ? base.path : '');
+      }
+    }
+    ts.forEachChild(n, collectClients);
+  };
+  collectClients(sourceFile);
+
+  const addHttpRequest = (call: ts.CallExpression, callName: string, method: string, urlNode: ts.Expression | undefined, base = '') => {
+    const url = urlNode && urlPattern(urlNode);
+    if (!url) return;
+    requests.push({
+      kind: 'http',
+      method,
+      target: base && !url.partial ? joinRoute(base, url.path) : url.path,
+      partial: url.partial || undefined,
+      callName,
+      line: lineOf(call),
+    });
+  };
+
+  const visit = (n: ts.Node) => {
+    if (ts.isCallExpression(n)) {
+      const callee = n.expression;
+      const [firstArg, secondArg] = n.arguments;
+
+      // http and https are modules rather than callable clients
+      const isCallableClient = ts.isIdentifier(callee) &&
+        ((HTTP_CLIENTS.has(callee.text) && !/^https?$/.test(callee.text)) || clientBases.has(callee.text));
+
+      if (isCallableClient) {
+        // fetch(url, { method }), axios(url, config), axios({ url, method }), api(url)
+        const base = clientBases.get(callee.getText()) ?? '';
+        if (firstArg && ts.isObjectLiteralExpression(firstArg)) {
+          addHttpRequest(n, callee.getText(), getMethodOption(firstArg, 'get'), getProperty(firstArg, 'url'), base);
+        } else {
+          addHttpRequest(n, callee.getText(), getMethodOption(secondArg, 'get'), firstArg, base);
+        }
+      } else if (ts.isPropertyAccessExpression(callee)) {
+        const method = callee.name.text;
+        const receiver = callee.expression;
+        const receiverName = ts.isIdentifier(receiver) ? receiver.text : undefined;
+        const isClient = receiverName !== undefined && (HTTP_CLIENTS.has(receiverName) || clientBases.has(receiverName));
+
+        if (isClient && HTTP_METHODS.includes(method) && method !== 'all') {
+          // axios.get(url), api.post(url, body)
+          addHttpRequest(n, method, method, firstArg, clientBases.get(receiverName!) ?? '');
+        } else if (isClient && method === 'request' && firstArg && ts.isObjectLiteralExpression(firstArg)) {
+          addHttpRequest(n, method, getMethodOption(firstArg, 'get'), getProperty(firstArg, 'url'), clientBases.get(receiverName!) ?? '');
+        } else if (method === 'emit' && firstArg && ts.isStringLiteralLike(firstArg) && isSocketReceiver(receiver)) {
+          requests.push({ kind: 'socket', method: 'emit', target: firstArg.text, callName: 'emit', line: lineOf(n) });
+        } else if (method === 'on' && firstArg && ts.isStringLiteralLike(firstArg) && secondArg && isSocketReceiver(receiver)) {
+          let handler: string | undefined;
+          let handlerReceiver: string | undefined;
+          if (ts.isIdentifier(secondArg)) {
+            handler = secondArg.text;
+          } else if (ts.isPropertyAccessExpression(secondArg)) {
+            handler = secondArg.name.text;
+            handlerReceiver = receiverText(secondArg.expression);
+          } else if (ts.isArrowFunction(secondArg) || ts.isFunctionExpression(secondArg)) {
+            handler = `on ${firstArg.text}`;
+            addInlineHandler(handler, secondArg);
+          }
+          if (handler) {
+            socketHandlers.push({ event: firstArg.text, handler, handlerReceiver, line: lineOf(firstArg) });
+          }
+        }
+      }
+    }
+    ts.forEachChild(n, visit);
+  };
+  visit(sourceFile);
+
+  return { requests, socketHandlers };
+};
+
+// How well a request URL fits a route, or null. Literal segments outscore parameters.
+const scoreRoute = (route: string, url: string, partial: boolean): number | null => {
+  const routeSegments = route.split('/').filter(Boolean);
+  const urlSegments = url.split('/').filter(Boolean);
+
+  const matchFrom = (offset: number): number | null => {
+    let score = 0;
+    for (let i = 0; i < routeSegments.length; i++) {
+      const routeSegment = routeSegments[i];
+      const urlSegment = urlSegments[i - offset];
+      if (routeSegment === '*' || /^:.+\*$/.test(routeSegment)) return score; // Matches the rest
+      if (i < offset) continue; // Covered by the unknown base URL
+      if (urlSegment === undefined) return null;
+
+      if (routeSegment.startsWith(':')) {
+        score += 2;
+      } else if (urlSegment === PARAM) {
+        score += 1; // An interpolated value might equal the literal
+      } else if (routeSegment === urlSegment) {
+        score += 3;
+      } else {
+        return null;
+      }
+    }
+    return urlSegments.length + offset === routeSegments.length ? score : null;
+  };
+
+  if (!partial) return matchFrom(0);
+  const offset = routeSegments.length - urlSegments.length;
+  return offset >= 0 ? matchFrom(offset) : null;
+};
+
+export interface RequestTarget {
+  file: string;
+  line: number; // Route or socket.on declaration
+  endpoint?: EndpointInfo;
+  socketHandler?: SocketHandlerInfo;
+}
+
+// Where a request lands: the best-fitting endpoint for HTTP, every listener for socket events
+export const matchRequest = (files: FileStructure[], request: ClientRequestInfo): RequestTarget[] => {
+  if (request.kind === 'socket') {
+    return files.flatMap(file =>
+      (file.analysis?.socketHandlers || [])
+        .filter(h => h.event === request.target)
+        .map(socketHandler => ({ file: file.path, line: socketHandler.line, socketHandler }))
+    );
+  }
+
+  let best: RequestTarget | null = null;
+  let bestScore = -1;
+  files.forEach(file => {
+    file.analysis?.endpoints.forEach(endpoint => {
+      if (endpoint.method !== request.method && endpoint.method !== 'all') return;
+      const score = scoreRoute(endpoint.fullPath, request.target, !!request.partial);
+      if (score !== null && score > bestScore) {
+        best = { file: file.path, line: endpoint.line, endpoint };
+        bestScore = score;
+      }
+    });
+  });
+  return best ? [best] : [];
+};
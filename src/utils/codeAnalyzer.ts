@@ -1,36 +1,179 @@
 import * as ts from 'typescript';
+import { findEndpoints, receiverText } from './endpointDetectors';
+import { findClientRequests, isSocketReceiver } from './clientRequests';
+import { findTypes } from './typeAnalyzer';
+
+// 'handler' is an inline route callback: app.get('/users', (req, res) => {...}), or a
+// deferred or event callback: setTimeout(() => {...}), emitter.on('x', () => {...})
+export type FunctionKind = 'function' | 'method' | 'getter' | 'setter' | 'constructor' | 'handler';
 
 export interface FunctionInfo {
   name: string;
+  kind: FunctionKind;
+  owner?: string; // Enclosing class or object literal name
+  isStatic?: boolean;
   startLine: number;
   endLine: number;
   calls: CallInfo[];
   returns: number[];
+  metrics: FunctionMetrics;
+  controlFlow: ControlFlowNode[]; // Branches, loops, try blocks and jumps of the body, in source order
+}
+
+// Nested functions are left out; their lines are walked as plain lines of the enclosing function
+export type ControlFlowNode =
+  | { kind: 'if'; line: number; endLine: number; branches: ControlFlowBranch[]; hasElse: boolean } // if / else if / else chain
+  | { kind: 'switch'; line: number; endLine: number; branches: ControlFlowBranch[]; hasDefault: boolean } // Clauses fall through until a jump
+  | { kind: 'loop'; line: number; endLine: number; body: ControlFlowBranch; runsOnce?: boolean; orElse?: ControlFlowBranch } // orElse: Python for/while-else
+  | { kind: 'try'; line: number; endLine: number; body: ControlFlowBranch; handlers: ControlFlowBranch[]; orElse?: ControlFlowBranch; finalizer?: ControlFlowBranch }
+  | { kind: 'return' | 'throw' | 'break' | 'continue'; line: number };
+
+export interface ControlFlowBranch {
+  label: string; // Header as written: 'else if (user)', 'case "admin"', 'catch (e)'
+  startLine: number;
+  endLine: number;
+  children: ControlFlowNode[];
+}
+
+export interface FunctionMetrics {
+  cyclomatic: number; // 1 + decision points: branches, loops, cases, catches, && || ??
+  nesting: number; // Deepest nesting of control-flow statements
+  params: number;
+  lines: number;
 }
 
 export interface EndpointInfo {
   method: string;
-  path: string;
+  path: string; // Route as written at the declaration
+  localPath: string; // Including prefixes of routers mounted in the same file
+  fullPath: string; // Including prefixes from other files, set by linkEndpoints
+  handler: string;
+  handlerReceiver?: string; // usersController.list -> 'usersController'
+  middleware: CallInfo[]; // Run before the handler, outermost first
+  mountedMiddleware?: MountedMiddleware[]; // From mounts in other files, set by linkEndpoints
+  line: number;
+  anchor: string; // Token on the declaration line the endpoint is shown on
+  framework: string;
+  router?: string; // Router variable the route is declared on
+}
+
+// Middleware referenced from another file, resolved from that file
+export interface MountedMiddleware extends CallInfo {
+  file: string;
+}
+
+// A router mounted under a prefix: app.use('/api', auth, apiRouter)
+export interface RouteMount {
+  prefix: string;
+  router: string; // Router being mounted on
+  target: string; // Router or plugin being mounted
+  middleware: CallInfo[];
+  line: number;
+}
+
+// Middleware a router applies to the routes and routers it gets after it: app.use(cors())
+export interface RouterMiddleware {
+  router: string;
+  middleware: CallInfo[];
+  line: number;
+}
+
+// A call that crosses to another tier: fetch('/api/users'), axios.post(url), socket.emit('join')
+export interface ClientRequestInfo {
+  kind: 'http' | 'socket';
+  method: string; // Lowercase HTTP method, or 'emit'
+  target: string; // URL path with interpolations as :param segments, or the event name
+  partial?: boolean; // URL started with an unknown base (`${API_URL}/users`), so only its tail is known
+  callName: string; // Name the call site is recorded under in calls: fetch, get, emit
+  line: number;
+}
+
+// socket.on('join_room', handler)
+export interface SocketHandlerInfo {
+  event: string;
   handler: string;
+  handlerReceiver?: string;
   line: number;
 }
 
+// How control reaches the callee, for calls that aren't plain synchronous ones:
+//   await      the caller waits for the callee's promise
+//   callback   passed to an API that calls it straight away: items.map(format)
+//   microtask  queued by then/catch/finally, queueMicrotask, process.nextTick
+//   task       queued by setTimeout, setInterval, setImmediate, requestAnimationFrame
+//   listener   registered for an event: emitter.on('saved', notify)
+//   emit       sends an event to in-process listeners: emitter.emit('saved')
+export type CallMode = 'await' | 'callback' | 'microtask' | 'task' | 'listener' | 'emit';
+
 export interface CallInfo {
   name: string;
   line: number;
+  receiver?: string; // What the method was called on: ns.fn() -> 'ns', this.repo.find() -> 'this.repo'
+  mode?: CallMode;
+  via?: string; // API a callback was handed to: 'then', 'setTimeout', 'on'
+  event?: string; // Event name of listeners and emits
+  inline?: { startLine: number; endLine: number }; // Callback written in place, analysed as a 'handler' named name
+}
+
+export type TypeKind = 'class' | 'interface' | 'type' | 'enum';
+
+export interface TypeMemberInfo {
+  name: string;
+  kind: 'field' | 'method';
+  type: string; // Annotation as written, or the signature for methods
+  optional?: boolean;
+  line: number;
+  references: string[]; // Type names used in the annotation
+}
+
+// class, interface, type alias or enum declaration
+export interface TypeInfo {
+  name: string;
+  kind: TypeKind;
+  line: number;
+  endLine: number;
+  extends: string[];
+  implements: string[];
+  members: TypeMemberInfo[];
+  aliasOf?: string; // Right-hand side of type aliases that aren't object literals
+  references: string[]; // Type names used anywhere in the declaration, except heritage clauses
 }
 
 export interface FileAnalysis {
   path: string;
   functions: FunctionInfo[];
   imports: ImportInfo[];
+  exports: ExportInfo[];
   endpoints: EndpointInfo[];
+  mounts: RouteMount[];
+  routerMiddleware?: RouterMiddleware[];
+  requests: ClientRequestInfo[];
+  socketHandlers: SocketHandlerInfo[];
+  listeners: CallInfo[]; // emitter.on('x', fn) anywhere in the file, including module scope, for emits to reach
+  types: TypeInfo[];
 }
 
+export type ExportKind = 'function' | 'class' | 'variable' | 'type' | 'reexport' | 'value';
+
+export interface ExportInfo {
+  name: string; // Name importers see: 'default' for default exports, '*' for export * from
+  localName?: string; // Binding in this file, when it differs or backs a default export
+  kind: ExportKind;
+  line: number;
+}
+
+export type ImportKind = 'import' | 'reexport' | 'require' | 'dynamic';
+
 export interface ImportInfo {
   moduleSpecifier: string;
+  kind: ImportKind;
+  line: number;
   defaultImport?: string;
-  namedImports: string[];
+  namespaceImport?: string; // import * as ns, export * as ns, const ns = require()
+  namedImports: string[]; // Local names (exported names for re-exports)
+  aliases?: Record<string, string>; // Local name -> name exported by the module, when renamed
+  reexportAll?: boolean; // export * from '...'
+  resolvedPath?: string; // Path of the imported file among loaded files, set by linkImports
 }
 
 export const analyzeCode = (path: string, content: string): FileAnalysis => {
@@ -43,21 +186,62 @@ export const analyzeCode = (path: string, content: string): FileAnalysis => {
 
   const functions: FunctionInfo[] = [];
   const imports: ImportInfo[] = [];
+  const exports: ExportInfo[] = [];
+  // Node each function was analysed from
+  const functionNodes = new Map<FunctionInfo, ts.Node>();
+
+  const addExport = (name: string, kind: ExportKind, node: ts.Node, localName?: string) => {
+    exports.push({
+      name,
+      localName: localName !== name ? localName : undefined,
+      kind,
+      line: sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1,
+    });
+  };
+
+  const createImport = (moduleSpecifier: string, kind: ImportKind, node: ts.Node): ImportInfo => ({
+    moduleSpecifier,
+    kind,
+    line: sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1,
+    namedImports: [],
+  });
+
+  const addFunction = (
+    name: string,
+    declaration: ts.Node,
+    body: ts.Node,
+    kind: FunctionKind,
+    owner?: string,
+    isStatic?: boolean
+  ) => {
+    // Start at the name so decorators above a method don't shift the def line
+    const nameNode = (declaration as ts.NamedDeclaration).name;
+    const start = sourceFile.getLineAndCharacterOfPosition((nameNode ?? declaration).getStart()).line + 1;
+    const end = sourceFile.getLineAndCharacterOfPosition(declaration.getEnd()).line + 1;
+    // Decorators (@Get(), @UseGuards(AuthGuard)) and parameters aren't calls the function makes
+    const block = ts.isFunctionLike(body) ? (body as ts.FunctionLikeDeclaration).body : undefined;
+    const info: FunctionInfo = {
+      name,
+      kind,
+      owner,
+      isStatic,
+      startLine: start,
+      endLine: end,
+      calls: findCalls(block ?? body, sourceFile),
+      returns: findReturns(body, sourceFile),
+      metrics: { ...computeMetrics(body), lines: end - start + 1 },
+      controlFlow: findControlFlow(body, sourceFile),
+    };
+    functions.push(info);
+    functionNodes.set(info, body);
+  };
 
   const visit = (node: ts.Node) => {
+    collectExports(node);
+
     // Check for Function Declaration: function foo() {}
     if (ts.isFunctionDeclaration(node) && node.name) {
-      const start = sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
-      const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
-      const calls = findCalls(node, sourceFile);
-      const returns = findReturns(node, sourceFile);
-      functions.push({
-        name: node.name.text,
-        startLine: start,
-        endLine: end,
-        calls,
-        returns,
-      });
+      addFunction(node.name.text, node, node, 'function');
     }
     // Check for Variable Declaration with Arrow Function: const foo = () => {}
     else if (ts.isVariableStatement(node)) {
@@ -66,101 +250,369 @@ export const analyzeCode = (path: string, content: string): FileAnalysis => {
           declaration.name &&
           ts.isIdentifier(declaration.name) &&
           declaration.initializer &&
-          (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer))
+          isFunctionInitializer(declaration.initializer)
         ) {
-          const start = sourceFile.getLineAndCharacterOfPosition(declaration.getStart()).line + 1;
-          const end = sourceFile.getLineAndCharacterOfPosition(declaration.getEnd()).line + 1;
-          const calls = findCalls(declaration.initializer, sourceFile);
-          const returns = findReturns(declaration.initializer, sourceFile);
-          functions.push({
-            name: declaration.name.text,
-            startLine: start,
-            endLine: end,
-            calls,
-            returns,
-          });
+          addFunction(declaration.name.text, declaration, declaration.initializer, 'function');
         }
       });
     }
-    // Check for Imports
-    else if (ts.isImportDeclaration(node)) {
-      const moduleSpecifier = (node.moduleSpecifier as ts.StringLiteral).text;
-      const namedImports: string[] = [];
-      let defaultImport: string | undefined;
+    // Check for class and object-literal members: foo() {}, get foo() {}, constructor() {}
+    else if (
+      (ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) &&
+      node.body
+    ) {
+      const name = getMemberName(node.name);
+      if (name) {
+        const kind: FunctionKind = ts.isGetAccessorDeclaration(node) ? 'getter' : ts.isSetAccessorDeclaration(node) ? 'setter' : 'method';
+        addFunction(name, node, node, kind, getOwnerName(node.parent), ts.isClassLike(node.parent) ? isStaticMember(node) : undefined);
+      }
+    }
+    else if (ts.isConstructorDeclaration(node) && node.body) {
+      addFunction('constructor', node, node, 'constructor', getOwnerName(node.parent));
+    }
+    // Check for function-valued members: handleClick = () => {}, { foo: function () {} }
+    else if (
+      (ts.isPropertyDeclaration(node) || ts.isPropertyAssignment(node)) &&
+      node.initializer &&
+      isFunctionInitializer(node.initializer)
+    ) {
+      const name = getMemberName(node.name);
+      if (name) {
+        const isStatic = ts.isPropertyDeclaration(node) ? isStaticMember(node) : undefined;
+        addFunction(name, node, node.initializer, 'method', getOwnerName(node.parent), isStatic);
+      }
+    }
+    // Check for Imports: import x, * as ns, { a as b } from 'y'
+    else if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const importInfo = createImport(node.moduleSpecifier.text, 'import', node);
 
       if (node.importClause) {
         if (node.importClause.name) {
-          defaultImport = node.importClause.name.text;
+          importInfo.defaultImport = node.importClause.name.text;
+        }
+        const bindings = node.importClause.namedBindings;
+        if (bindings && ts.isNamespaceImport(bindings)) {
+          importInfo.namespaceImport = bindings.name.text;
+        } else if (bindings && ts.isNamedImports(bindings)) {
+          bindings.elements.forEach((element) => {
+            addNamedImport(importInfo, element.name.text, element.propertyName?.text);
+          });
         }
-        if (node.importClause.namedBindings && ts.isNamedImports(node.importClause.namedBindings)) {
-          node.importClause.namedBindings.elements.forEach((element) => {
-            namedImports.push(element.name.text);
+      }
+      imports.push(importInfo);
+    }
+    // Check for Re-exports: export { a as b } from 'y', export * from 'y', export * as ns from 'y'
+    else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      const importInfo = createImport(node.moduleSpecifier.text, 'reexport', node);
+
+      if (!node.exportClause) {
+        importInfo.reexportAll = true;
+      } else if (ts.isNamespaceExport(node.exportClause)) {
+        importInfo.namespaceImport = node.exportClause.name.text;
+      } else {
+        node.exportClause.elements.forEach((element) => {
+          addNamedImport(importInfo, element.name.text, element.propertyName?.text);
+        });
+      }
+      imports.push(importInfo);
+    }
+    // Check for CommonJS require('y') and dynamic import('y')
+    else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0])) {
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+      const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+
+      if (isRequire || isDynamicImport) {
+        const importInfo = createImport(node.arguments[0].text, isRequire ? 'require' : 'dynamic', node);
+        const binding = getBindingName(node);
+
+        if (binding && ts.isIdentifier(binding)) {
+          importInfo.namespaceImport = binding.text;
+          // module.exports = fn is callable directly: const fn = require('y'); fn()
+          if (isRequire) importInfo.defaultImport = binding.text;
+        } else if (binding && ts.isObjectBindingPattern(binding)) {
+          binding.elements.forEach((element) => {
+            if (!ts.isIdentifier(element.name)) return;
+            const exported = element.propertyName && ts.isIdentifier(element.propertyName) ? element.propertyName.text : undefined;
+            addNamedImport(importInfo, element.name.text, exported);
           });
         }
+        imports.push(importInfo);
+      }
+    }
+
+    // Callbacks that run later get their own function, so flows can jump to them when they fire
+    if (ts.isCallExpression(node)) {
+      const handoff = getCallbackHandoff(node);
+      if (handoff && handoff.mode !== 'callback') {
+        handoff.callbacks.filter(isInlineFunction).forEach(fn => {
+          addFunction(callbackName(handoff.via, sourceFile.getLineAndCharacterOfPosition(fn.getStart()).line + 1), fn, fn, 'handler');
+        });
       }
-      imports.push({ moduleSpecifier, defaultImport, namedImports });
     }
 
     ts.forEachChild(node, visit);
   };
 
+  // Exports: export function/class/const/type, export default, export { a as b }, module.exports
+  const collectExports = (node: ts.Node) => {
+    if (
+      (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node) || ts.isEnumDeclaration(node)) &&
+      hasModifier(node, ts.SyntaxKind.ExportKeyword)
+    ) {
+      const kind: ExportKind = ts.isFunctionDeclaration(node) ? 'function' : ts.isClassDeclaration(node) ? 'class' : 'type';
+      const localName = node.name?.text;
+      if (hasModifier(node, ts.SyntaxKind.DefaultKeyword)) {
+        addExport('default', kind, node, localName);
+      } else if (localName) {
+        addExport(localName, kind, node);
+      }
+    } else if (ts.isVariableStatement(node) && hasModifier(node, ts.SyntaxKind.ExportKeyword)) {
+      node.declarationList.declarations.forEach((declaration) => {
+        const kind: ExportKind = declaration.initializer && isFunctionInitializer(declaration.initializer) ? 'function' : 'variable';
+        getBoundNames(declaration.name).forEach(name => addExport(name, kind, declaration));
+      });
+    } else if (ts.isExportDeclaration(node)) {
+      if (node.moduleSpecifier) {
+        if (!node.exportClause) {
+          addExport('*', 'reexport', node);
+        } else if (ts.isNamespaceExport(node.exportClause)) {
+          addExport(node.exportClause.name.text, 'reexport', node);
+        } else {
+          node.exportClause.elements.forEach(element => addExport(element.name.text, 'reexport', element, element.propertyName?.text));
+        }
+      } else if (node.exportClause && ts.isNamedExports(node.exportClause)) {
+        node.exportClause.elements.forEach(element => {
+          const localName = (element.propertyName ?? element.name).text;
+          addExport(element.name.text, node.isTypeOnly || element.isTypeOnly ? 'type' : 'value', element, localName);
+        });
+      }
+    } else if (ts.isExportAssignment(node)) {
+      // export default foo / export = foo
+      addExport('default', 'value', node, ts.isIdentifier(node.expression) ? node.expression.text : undefined);
+    } else if (
+      ts.isExpressionStatement(node) &&
+      ts.isBinaryExpression(node.expression) &&
+      node.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+    ) {
+      const { left, right } = node.expression;
+      const target = getCommonJsExportTarget(left);
+      if (target === 'default') {
+        // module.exports = { a, b } also exposes a and b as named exports
+        addExport('default', 'value', node, ts.isIdentifier(right) ? right.text : undefined);
+        if (ts.isObjectLiteralExpression(right)) {
+          right.properties.forEach(property => {
+            if (ts.isShorthandPropertyAssignment(property)) {
+              addExport(property.name.text, 'value', property);
+            } else if ((ts.isPropertyAssignment(property) || ts.isMethodDeclaration(property)) && getMemberName(property.name)) {
+              const localName = ts.isPropertyAssignment(property) && ts.isIdentifier(property.initializer) ? property.initializer.text : undefined;
+              addExport(getMemberName(property.name)!, 'value', property, localName);
+            }
+          });
+        }
+      } else if (target) {
+        addExport(target, isFunctionInitializer(right) ? 'function' : 'value', node, ts.isIdentifier(right) ? right.text : undefined);
+      }
+    }
+  };
+
   visit(sourceFile);
   
-  const endpoints = findEndpoints(sourceFile);
+  // Route handlers written in place ({ handler(request, reply) {} }) were also seen as plain members
+  const inlineHandlers = new Set<ts.Node>();
+  const addInlineHandler = (name: string, fn: ts.FunctionLikeDeclaration) => {
+    inlineHandlers.add(fn);
+    addFunction(name, fn, fn, 'handler');
+  };
+  const { endpoints, mounts, routerMiddleware } = findEndpoints(sourceFile, path, addInlineHandler);
+  const { requests, socketHandlers } = findClientRequests(sourceFile, addInlineHandler);
+  const analyzed = functions.filter(f => f.kind === 'handler' || !inlineHandlers.has(functionNodes.get(f)!));
+
+  const types = findTypes(sourceFile);
+
+  const listeners = findListeners(sourceFile);
 
-  return { path, functions, imports, endpoints };
+  return { path, functions: analyzed, imports, exports, endpoints, mounts, routerMiddleware, requests, socketHandlers, listeners, types };
 };
 
-const findEndpoints = (sourceFile: ts.SourceFile): EndpointInfo[] => {
-  const endpoints: EndpointInfo[] = [];
-  const visit = (n: ts.Node) => {
-    if (ts.isCallExpression(n) && ts.isPropertyAccessExpression(n.expression)) {
-      const method = n.expression.name.text;
-      if (['get', 'post', 'put', 'delete', 'patch'].includes(method)) {
-        if (n.arguments.length >= 2) {
-           const pathArg = n.arguments[0];
-           const handlerArg = n.arguments[1]; // Simplified: assuming 2nd arg is handler
-           
-           if (ts.isStringLiteral(pathArg) && ts.isIdentifier(handlerArg)) {
-             const line = sourceFile.getLineAndCharacterOfPosition(n.getStart()).line + 1;
-             endpoints.push({
-               method,
-               path: pathArg.text,
-               handler: handlerArg.text,
-               line
-             });
-           }
-        }
-      }
+const addNamedImport = (importInfo: ImportInfo, localName: string, exportedName?: string) => {
+  importInfo.namedImports.push(localName);
+  if (exportedName && exportedName !== localName) {
+    importInfo.aliases = { ...importInfo.aliases, [localName]: exportedName };
+  }
+};
+
+// The variable a require()/import() result is bound to: const x = require('y'), const { a } = await import('y')
+const getBindingName = (call: ts.CallExpression): ts.BindingName | undefined => {
+  let current: ts.Node = call.parent;
+  while (ts.isAwaitExpression(current) || ts.isParenthesizedExpression(current)) {
+    current = current.parent;
+  }
+  return ts.isVariableDeclaration(current) ? current.name : undefined;
+};
+
+const hasModifier = (node: ts.Node, kind: ts.SyntaxKind) =>
+  ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(m => m.kind === kind);
+
+const getBoundNames = (name: ts.BindingName): string[] => {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap(element => (ts.isBindingElement(element) ? getBoundNames(element.name) : []));
+};
+
+// module.exports = x -> 'default'; module.exports.foo = x / exports.foo = x -> 'foo'
+const getCommonJsExportTarget = (left: ts.Expression): string | undefined => {
+  const isModuleExports = (e: ts.Expression) =>
+    ts.isPropertyAccessExpression(e) && ts.isIdentifier(e.expression) && e.expression.text === 'module' && e.name.text === 'exports';
+
+  if (isModuleExports(left)) return 'default';
+  if (ts.isPropertyAccessExpression(left)) {
+    const object = left.expression;
+    if (isModuleExports(object) || (ts.isIdentifier(object) && object.text === 'exports')) {
+      return left.name.text;
     }
-    ts.forEachChild(n, visit);
   }
+  return undefined;
+};
+
+const isFunctionInitializer = (node: ts.Expression) =>
+  ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+
+const getMemberName = (name: ts.PropertyName): string | undefined => {
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return undefined;
+};
+
+const isStaticMember = (node: ts.Declaration) =>
+  (ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Static) !== 0;
+
+// Name of the class or object literal a member belongs to, if it can be determined
+const getOwnerName = (container: ts.Node): string | undefined => {
+  if (ts.isClassDeclaration(container) || ts.isClassExpression(container)) {
+    if (container.name) return container.name.text;
+    // const Foo = class {}
+    if (ts.isVariableDeclaration(container.parent) && ts.isIdentifier(container.parent.name)) {
+      return container.parent.name.text;
+    }
+    return hasModifier(container, ts.SyntaxKind.DefaultKeyword) ? 'default' : undefined;
+  }
+  if (ts.isObjectLiteralExpression(container)) {
+    const parent = container.parent;
+    if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) return parent.name.text;
+    if (ts.isPropertyAssignment(parent)) return getMemberName(parent.name);
+    if (ts.isExportAssignment(parent)) return 'default';
+  }
+  return undefined;
+};
+
+// APIs that take a callback, by when they run it
+const CALLBACK_APIS = new Map<string, CallMode>([
+  ...['then', 'catch', 'finally', 'queueMicrotask', 'nextTick'].map(name => [name, 'microtask'] as const),
+  ...['setTimeout', 'setInterval', 'setImmediate', 'requestAnimationFrame', 'requestIdleCallback'].map(name => [name, 'task'] as const),
+  ...['on', 'once', 'addListener', 'prependListener', 'addEventListener'].map(name => [name, 'listener'] as const),
+  ...['map', 'forEach', 'filter', 'reduce', 'reduceRight', 'some', 'every', 'find', 'findIndex', 'flatMap', 'sort'].map(name => [name, 'callback'] as const),
+]);
+
+const isInlineFunction = (node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression =>
+  ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+
+// Name of the 'handler' function an inline callback is analysed as
+export const callbackName = (via: string, line: number) => `${via} callback @${line}`;
+
+// Callback arguments of setTimeout(tick), p.then(onDone, onError), emitter.on('saved', notify)
+const getCallbackHandoff = (call: ts.CallExpression) => {
+  const callee = call.expression;
+  const via = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : undefined;
+  const mode = via ? CALLBACK_APIS.get(via) : undefined;
+  if (!via || !mode) return undefined;
+
+  if (mode === 'listener') {
+    const [event, listener] = call.arguments;
+    if (!event || !ts.isStringLiteralLike(event) || !listener) return undefined;
+    // socket.io listeners are cross-tier socketHandlers
+    if (ts.isPropertyAccessExpression(callee) && isSocketReceiver(callee.expression)) return undefined;
+    return { via, mode, event: event.text, callbacks: [listener] };
+  }
+  return { via, mode, event: undefined, callbacks: call.arguments.slice(0, via === 'then' ? 2 : 1) };
+};
+
+// Calls to the callbacks a call hands over; inline ones under their callbackName
+const getCallbackCalls = (call: ts.CallExpression, sourceFile: ts.SourceFile): CallInfo[] => {
+  const handoff = getCallbackHandoff(call);
+  if (!handoff) return [];
+  const { via, mode, event } = handoff;
+  const lineOf = (n: ts.Node) => sourceFile.getLineAndCharacterOfPosition(n.getStart()).line + 1;
+  const line = lineOf(call);
+
+  return handoff.callbacks.flatMap((callback): CallInfo[] => {
+    if (isInlineFunction(callback)) {
+      // Synchronous inline callbacks simply run in place
+      if (mode === 'callback') return [];
+      const startLine = lineOf(callback);
+      const endLine = sourceFile.getLineAndCharacterOfPosition(callback.getEnd()).line + 1;
+      return [{ name: callbackName(via, startLine), line, mode, via, event, inline: { startLine, endLine } }];
+    }
+    if (ts.isIdentifier(callback)) return [{ name: callback.text, line, mode, via, event }];
+    if (ts.isPropertyAccessExpression(callback)) {
+      return [{ name: callback.name.text, line, receiver: receiverText(callback.expression), mode, via, event }];
+    }
+    return [];
+  });
+};
+
+// Listener registrations at any depth, module scope included
+const findListeners = (sourceFile: ts.SourceFile) => {
+  const listeners: CallInfo[] = [];
+  const visit = (n: ts.Node) => {
+    if (ts.isCallExpression(n)) listeners.push(...getCallbackCalls(n, sourceFile).filter(call => call.mode === 'listener'));
+    ts.forEachChild(n, visit);
+  };
   visit(sourceFile);
-  return endpoints;
-}
+  return listeners;
+};
 
 const findCalls = (node: ts.Node, sourceFile: ts.SourceFile): CallInfo[] => {
   const calls: CallInfo[] = [];
+  const lineOf = (n: ts.Node) => sourceFile.getLineAndCharacterOfPosition(n.getStart()).line + 1;
+  // Deferred and event callbacks are functions of their own; their calls are theirs
+  const ownFunctions = new Set<ts.Node>();
+
+  const getMode = (call: ts.CallExpression): Pick<CallInfo, 'mode' | 'event'> => {
+    let parent = call.parent;
+    while (ts.isParenthesizedExpression(parent)) parent = parent.parent;
+    if (ts.isAwaitExpression(parent)) return { mode: 'await' };
+
+    const [event] = call.arguments;
+    if (ts.isPropertyAccessExpression(call.expression) && call.expression.name.text === 'emit' &&
+        event && ts.isStringLiteralLike(event) && !isSocketReceiver(call.expression.expression)) {
+      return { mode: 'emit', event: event.text };
+    }
+    return {};
+  };
 
   const visit = (n: ts.Node) => {
+    if (ownFunctions.has(n)) return;
     if (ts.isCallExpression(n)) {
       if (ts.isIdentifier(n.expression)) {
-        const line = sourceFile.getLineAndCharacterOfPosition(n.getStart()).line + 1;
-        calls.push({ name: n.expression.text, line });
+        const line = lineOf(n);
+        calls.push({ name: n.expression.text, line, ...getMode(n) });
       } else if (ts.isPropertyAccessExpression(n.expression) && ts.isIdentifier(n.expression.name)) {
-         // Handle obj.method() - store 'method' or 'obj.method'?
-         // For now, let's store the method name if it might be imported
-         const line = sourceFile.getLineAndCharacterOfPosition(n.getStart()).line + 1;
-         calls.push({ name: n.expression.name.text, line });
+         // Handle obj.method() - store 'method', plus 'obj' so namespace imports and classes can be followed
+         const line = lineOf(n);
+         calls.push({ name: n.expression.name.text, line, receiver: receiverText(n.expression.expression), ...getMode(n) });
       }
+      calls.push(...getCallbackCalls(n, sourceFile));
+      const handoff = getCallbackHandoff(n);
+      if (handoff && handoff.mode !== 'callback') handoff.callbacks.filter(isInlineFunction).forEach(fn => ownFunctions.add(fn));
     }
     // Also check for JSX Elements as "calls" to components
     else if (ts.isJsxSelfClosingElement(n) && ts.isIdentifier(n.tagName)) {
-        const line = sourceFile.getLineAndCharacterOfPosition(n.getStart()).line + 1;
+        const line = lineOf(n);
         calls.push({ name: n.tagName.text, line });
     }
     else if (ts.isJsxOpeningElement(n) && ts.isIdentifier(n.tagName)) {
-        const line = sourceFile.getLineAndCharacterOfPosition(n.getStart()).line + 1;
+        const line = lineOf(n);
         calls.push({ name: n.tagName.text, line });
     }
 
@@ -188,7 +640,7 @@ const findReturns = (node: ts.Node, sourceFile: ts.SourceFile): number[] => {
     }
     
     // If it's a function boundary (and not the root node we started with), don't go inside
-    if ((ts.isFunctionDeclaration(n) || ts.isArrowFunction(n) || ts.isFunctionExpression(n)) && n !== node) {
+    if (ts.isFunctionLike(n) && n !== node) {
       return;
     }
 
@@ -198,3 +650,147 @@ const findReturns = (node: ts.Node, sourceFile: ts.SourceFile): number[] => {
   ts.forEachChild(node, visit);
   return returns;
 };
+
+const MAX_LABEL = 60;
+
+const findControlFlow = (node: ts.Node, sourceFile: ts.SourceFile): ControlFlowNode[] => {
+  const body = ts.isFunctionLike(node) ? (node as ts.FunctionLikeDeclaration).body : node;
+  if (!body || !ts.isBlock(body)) return [];
+
+  const lineOf = (n: ts.Node) => sourceFile.getLineAndCharacterOfPosition(n.getStart()).line + 1;
+  const endLineOf = (n: ts.Node) => sourceFile.getLineAndCharacterOfPosition(n.getEnd()).line + 1;
+
+  // Source from a statement's start up to its body: 'for (const user of users)', 'catch (e)'
+  const headerLabel = (n: ts.Node, body: ts.Node) => {
+    const header = sourceFile.text.slice(n.getStart(), body.getStart()).replace(/\s+/g, ' ').trim();
+    return header.length > MAX_LABEL ? `${header.slice(0, MAX_LABEL - 1)}…` : header;
+  };
+
+  // '} else {' closes one branch and opens the next; the shared line belongs to the later one
+  const separate = (branches: ControlFlowBranch[]) => {
+    branches.forEach((b, i) => {
+      const next = branches[i + 1];
+      if (next && b.endLine >= next.startLine) b.endLine = Math.max(b.startLine, next.startLine - 1);
+    });
+    return branches;
+  };
+
+  const collect = (statements: readonly ts.Node[]) => {
+    const nodes: ControlFlowNode[] = [];
+    const visit = (n: ts.Node) => {
+      if (ts.isFunctionLike(n) || ts.isClassLike(n)) return;
+      const structure = toNode(n);
+      if (structure) {
+        nodes.push(structure);
+      } else {
+        ts.forEachChild(n, visit);
+      }
+    };
+    statements.forEach(visit);
+    return nodes;
+  };
+
+  const branch = (label: string, statement: ts.Node, startLine = lineOf(statement)): ControlFlowBranch => ({
+    label,
+    startLine,
+    endLine: endLineOf(statement),
+    children: collect(ts.isBlock(statement) ? statement.statements : [statement]),
+  });
+
+  const toNode = (n: ts.Node): ControlFlowNode | undefined => {
+    const line = lineOf(n);
+    const endLine = endLineOf(n);
+
+    if (ts.isIfStatement(n)) {
+      const branches: ControlFlowBranch[] = [];
+      let current: ts.IfStatement = n;
+      for (;;) {
+        const label = current === n ? headerLabel(current, current.thenStatement) : `else ${headerLabel(current, current.thenStatement)}`;
+        branches.push(branch(label, current.thenStatement, lineOf(current)));
+        const next = current.elseStatement;
+        if (next && ts.isIfStatement(next)) {
+          current = next;
+          continue;
+        }
+        if (next) branches.push(branch('else', next));
+        return { kind: 'if', line, endLine, branches: separate(branches), hasElse: !!next };
+      }
+    }
+    if (ts.isSwitchStatement(n)) {
+      const branches = n.caseBlock.clauses.map(clause => ({
+        label: ts.isCaseClause(clause) ? `case ${clause.expression.getText()}` : 'default',
+        startLine: lineOf(clause),
+        endLine: endLineOf(clause),
+        children: collect(clause.statements),
+      }));
+      return { kind: 'switch', line, endLine, branches: separate(branches), hasDefault: n.caseBlock.clauses.some(ts.isDefaultClause) };
+    }
+    if (ts.isIterationStatement(n, false)) {
+      return { kind: 'loop', line, endLine, body: branch(headerLabel(n, n.statement), n.statement, line), runsOnce: ts.isDoStatement(n) || undefined };
+    }
+    if (ts.isTryStatement(n)) {
+      const body = branch('try', n.tryBlock, line);
+      const handlers = n.catchClause ? [branch(headerLabel(n.catchClause, n.catchClause.block), n.catchClause.block, lineOf(n.catchClause))] : [];
+      const finalizer = n.finallyBlock ? branch('finally', n.finallyBlock) : undefined;
+      separate([body, ...handlers, ...(finalizer ? [finalizer] : [])]);
+      return { kind: 'try', line, endLine, body, handlers, finalizer };
+    }
+    if (ts.isReturnStatement(n)) return { kind: 'return', line };
+    if (ts.isThrowStatement(n)) return { kind: 'throw', line };
+    if (ts.isBreakStatement(n)) return { kind: 'break', line };
+    if (ts.isContinueStatement(n)) return { kind: 'continue', line };
+    return undefined;
+  };
+
+  return collect(body.statements);
+};
+
+// Complexity of one function body. Nested functions are measured on their own.
+const computeMetrics = (node: ts.Node): Omit<FunctionMetrics, 'lines'> => {
+  let cyclomatic = 1;
+  let nesting = 0;
+
+  const isDecision = (n: ts.Node) => {
+    switch (n.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        return true;
+    }
+    if (ts.isBinaryExpression(n)) {
+      const operator = n.operatorToken.kind;
+      return operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+        operator === ts.SyntaxKind.BarBarToken ||
+        operator === ts.SyntaxKind.QuestionQuestionToken ||
+        operator === ts.SyntaxKind.AmpersandAmpersandEqualsToken ||
+        operator === ts.SyntaxKind.BarBarEqualsToken ||
+        operator === ts.SyntaxKind.QuestionQuestionEqualsToken;
+    }
+    return false;
+  };
+
+  // Statements whose bodies count as one level deeper
+  const isNestingStatement = (n: ts.Node) =>
+    ts.isIfStatement(n) || ts.isIterationStatement(n, false) || ts.isSwitchStatement(n) || ts.isTryStatement(n);
+
+  const visit = (n: ts.Node, depth: number) => {
+    if (ts.isFunctionLike(n) && n !== node) return;
+    if (isDecision(n)) cyclomatic++;
+
+    // else-if chains stay at the depth of the first if
+    const isElseIf = ts.isIfStatement(n) && ts.isIfStatement(n.parent) && n.parent.elseStatement === n;
+    const childDepth = isNestingStatement(n) && !isElseIf ? depth + 1 : depth;
+    nesting = Math.max(nesting, childDepth);
+    ts.forEachChild(n, child => visit(child, childDepth));
+  };
+  ts.forEachChild(node, child => visit(child, 0));
+
+  const params = ts.isFunctionLike(node) ? node.parameters.length : 0;
+  return { cyclomatic, nesting, params };
+};
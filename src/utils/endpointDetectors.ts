@@ -0,0 +1,498 @@
+import * as ts from 'typescript';
+import { CallInfo, EndpointInfo, RouteMount, RouterMiddleware } from './codeAnalyzer';
+
+// Endpoint detection is pluggable per framework. Each detector walks the source file and
+// reports routes, router mounts and inline handler functions through the context.
+export interface DetectorContext {
+  sourceFile: ts.SourceFile;
+  path: string;
+  framework: string; // Best guess for call-style routers, from the file's imports
+  lineOf: (node: ts.Node) => number;
+  addEndpoint: (endpoint: DetectedEndpoint) => void;
+  addMount: (mount: RouteMount) => void;
+  addRouterMiddleware: (router: string, middleware: CallInfo[], pos: number) => void;
+  // Register an inline handler as a function so it can be flow-traced; returns its name
+  addInlineHandler: (name: string, fn: ts.FunctionLikeDeclaration) => string;
+}
+
+// An endpoint before mount prefixes and router-level middleware are applied
+export interface DetectedEndpoint {
+  method: string;
+  path: string;
+  router?: string;
+  handler: string;
+  handlerReceiver?: string;
+  middleware: CallInfo[];
+  line: number;
+  anchor: string;
+  framework: string;
+  pos: number;
+}
+
+export interface EndpointDetector {
+  framework: string;
+  detect: (context: DetectorContext) => void;
+}
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'all'];
+
+// Receivers that look like routers but are HTTP clients: axios.get('/api/users', config)
+export const HTTP_CLIENTS = new Set(['axios', 'http', 'https', 'superagent', 'ky', 'got', 'fetch', 'request', '$http']);
+
+// What a method is called on: ns.fn() -> 'ns', this.save() -> 'this', this.repo.find() -> 'this.repo'
+export const receiverText = (expression: ts.Expression) =>
+  ts.isIdentifier(expression) ? expression.text
+    : expression.kind === ts.SyntaxKind.ThisKeyword ? 'this'
+      : expression.getText().replace(/\s+/g, '');
+
+export const joinRoute = (...parts: string[]) => {
+  const joined = `/${parts.filter(Boolean).join('/')}`.replace(/\/+/g, '/');
+  return joined.length > 1 ? joined.replace(/\/$/, '') : joined;
+};
+
+const isFunctionNode = (node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression =>
+  ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+
+const getDecoratorCall = (decorator: ts.Decorator) => {
+  const expression = decorator.expression;
+  if (ts.isCallExpression(expression) && ts.isIdentifier(expression.expression)) {
+    return { name: expression.expression.text, args: expression.arguments };
+  }
+  if (ts.isIdentifier(expression)) {
+    return { name: expression.text, args: ts.factory.createNodeArray<ts.Expression>() };
+  }
+  return null;
+};
+
+// Turn a handler/middleware argument into a reference, registering inline functions
+const toHandlerRef = (context: DetectorContext, arg: ts.Expression, inlineName: string): CallInfo | null => {
+  const line = context.lineOf(arg);
+  if (ts.isIdentifier(arg)) {
+    return { name: arg.text, line };
+  }
+  if (ts.isPropertyAccessExpression(arg)) {
+    // usersController.list, this.handleLogin
+    return { name: arg.name.text, line, receiver: receiverText(arg.expression) };
+  }
+  if (ts.isCallExpression(arg)) {
+    // Middleware factories: requireRole('admin'), asyncHandler(getUser)
+    const inner = arg.arguments.find(a => ts.isIdentifier(a) || isFunctionNode(a));
+    if (inner && ts.isIdentifier(arg.expression) && /^(async|catch|wrap)/i.test(arg.expression.text)) {
+      return toHandlerRef(context, inner, inlineName);
+    }
+    return toHandlerRef(context, arg.expression, inlineName);
+  }
+  if (isFunctionNode(arg)) {
+    return { name: context.addInlineHandler(inlineName, arg), line };
+  }
+  return null;
+};
+
+// Read middleware hooks from a Fastify-style options object
+const getOptionMiddleware = (context: DetectorContext, options: ts.ObjectLiteralExpression, label: string): CallInfo[] => {
+  const hooks = ['onRequest', 'preParsing', 'preValidation', 'preHandler'];
+  const middleware: CallInfo[] = [];
+  options.properties.forEach(property => {
+    if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name) || !hooks.includes(property.name.text)) return;
+    const values = ts.isArrayLiteralExpression(property.initializer) ? [...property.initializer.elements] : [property.initializer];
+    values.forEach((value, index) => {
+      const ref = toHandlerRef(context, value, `${label} ${property.name.getText()} #${index + 1}`);
+      if (ref) middleware.push(ref);
+    });
+  });
+  return middleware;
+};
+
+const getStringProperty = (options: ts.ObjectLiteralExpression, name: string) => {
+  const property = options.properties.find(
+    (p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === name
+  );
+  return property && ts.isStringLiteralLike(property.initializer) ? property.initializer : undefined;
+};
+
+// Express, Koa router, Hono and Fastify shorthand:
+//   app.get('/a', auth, handler), router.route('/x').get(h).post(h2),
+//   app.use('/api', router), app.use(cors()), app.route('/api', sub) (Hono)
+const callStyleDetector: EndpointDetector = {
+  framework: 'express',
+  detect: (context) => {
+    const { sourceFile } = context;
+
+    // Variables bound to HTTP clients: const api = axios.create()
+    const clientVariables = new Set<string>();
+    const collectClients = (n: ts.Node) => {
+      if (ts.isVariableDeclaration(n) && ts.isIdentifier(n.name) && n.initializer && ts.isCallExpression(n.initializer)) {
+        const callee = n.initializer.expression;
+        if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && HTTP_CLIENTS.has(callee.expression.text)) {
+          clientVariables.add(n.name.text);
+        }
+      }
+      ts.forEachChild(n, collectClients);
+    };
+    collectClients(sourceFile);
+
+    const isRouterReceiver = (receiver: string) => !HTTP_CLIENTS.has(receiver) && !clientVariables.has(receiver);
+
+    const addRoute = (call: ts.CallExpression, method: string, pathArg: ts.StringLiteralLike, router: string, handlerArgs: ts.Expression[]) => {
+      const label = `${method.toUpperCase()} ${pathArg.text}`;
+      const refs: CallInfo[] = [];
+      const middleware: CallInfo[] = [];
+      handlerArgs.forEach((arg, index) => {
+        if (ts.isObjectLiteralExpression(arg)) {
+          // Fastify: app.get('/x', { preHandler: [auth] }, handler)
+          middleware.push(...getOptionMiddleware(context, arg, label));
+          return;
+        }
+        const isLast = index === handlerArgs.length - 1;
+        const ref = toHandlerRef(context, arg, isLast ? label : `${label} middleware #${index + 1}`);
+        if (ref) refs.push(ref);
+      });
+
+      const handler = refs.pop();
+      if (!handler) return;
+      context.addEndpoint({
+        method,
+        path: pathArg.text,
+        router,
+        handler: handler.name,
+        handlerReceiver: handler.receiver,
+        middleware: [...middleware, ...refs],
+        line: context.lineOf(pathArg),
+        anchor: pathArg.text,
+        framework: context.framework,
+        // The method name orders chained routes: route('/').get(a).post(b)
+        pos: (call.expression as ts.PropertyAccessExpression).name.getStart(),
+      });
+    };
+
+    const visit = (n: ts.Node) => {
+      if (ts.isCallExpression(n) && ts.isPropertyAccessExpression(n.expression)) {
+        const method = n.expression.name.text;
+        const object = n.expression.expression;
+        const [firstArg, ...restArgs] = n.arguments;
+
+        if (HTTP_METHODS.includes(method)) {
+          // router.route('/x').get(h).post(h2): find the route() call at the bottom of the chain
+          let chained: ts.Expression = object;
+          while (
+            ts.isCallExpression(chained) &&
+            ts.isPropertyAccessExpression(chained.expression) &&
+            HTTP_METHODS.includes(chained.expression.name.text)
+          ) {
+            chained = chained.expression.expression;
+          }
+          const routeCall = ts.isCallExpression(chained) &&
+            ts.isPropertyAccessExpression(chained.expression) &&
+            chained.expression.name.text === 'route' &&
+            chained.arguments.length === 1 &&
+            ts.isStringLiteralLike(chained.arguments[0])
+            ? chained
+            : null;
+
+          if (routeCall) {
+            const router = (routeCall.expression as ts.PropertyAccessExpression).expression.getText();
+            addRoute(n, method, routeCall.arguments[0] as ts.StringLiteralLike, router, [...n.arguments]);
+          } else if (
+            firstArg && ts.isStringLiteralLike(firstArg) && restArgs.length > 0 &&
+            /^[/*]/.test(firstArg.text) && isRouterReceiver(object.getText())
+          ) {
+            addRoute(n, method, firstArg, object.getText(), restArgs);
+          }
+        } else if ((method === 'use' || method === 'route') && firstArg && ts.isStringLiteralLike(firstArg) && restArgs.length > 0) {
+          // app.use('/api', auth, apiRouter), app.route('/api', sub) (Hono)
+          const target = restArgs[restArgs.length - 1];
+          if (ts.isIdentifier(target) || ts.isPropertyAccessExpression(target)) {
+            const middleware = restArgs.slice(0, -1)
+              .map((arg, index) => toHandlerRef(context, arg, `USE ${firstArg.text} middleware #${index + 1}`))
+              .filter((ref): ref is CallInfo => ref !== null);
+            context.addMount({
+              prefix: firstArg.text,
+              router: object.getText(),
+              target: target.getText(),
+              middleware,
+              line: context.lineOf(firstArg),
+            });
+          }
+        } else if (method === 'use' && n.arguments.length > 0 && isRouterReceiver(object.getText())) {
+          // app.use(cors(), auth): router-level middleware for routes declared after it
+          const middleware = n.arguments
+            .map((arg, index) => toHandlerRef(context, arg, `USE middleware #${index + 1}`))
+            .filter((ref): ref is CallInfo => ref !== null);
+          context.addRouterMiddleware(object.getText(), middleware, n.getStart());
+        }
+      }
+      ts.forEachChild(n, visit);
+    };
+    visit(sourceFile);
+  },
+};
+
+// Fastify: fastify.route({ method: ['GET', 'HEAD'], url: '/x', preHandler: auth, handler }),
+//          fastify.register(routes, { prefix: '/v1' })
+const fastifyDetector: EndpointDetector = {
+  framework: 'fastify',
+  detect: (context) => {
+    const visit = (n: ts.Node) => {
+      if (ts.isCallExpression(n) && ts.isPropertyAccessExpression(n.expression)) {
+        const method = n.expression.name.text;
+        const router = n.expression.expression.getText();
+        const [firstArg, secondArg] = n.arguments;
+
+        if (method === 'route' && firstArg && ts.isObjectLiteralExpression(firstArg)) {
+          const url = getStringProperty(firstArg, 'url') ?? getStringProperty(firstArg, 'path');
+          const methodProperty = firstArg.properties.find(
+            (p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === 'method'
+          );
+          const handlerProperty = firstArg.properties.find(p => p.name && ts.isIdentifier(p.name) && p.name.text === 'handler');
+
+          if (url && methodProperty && handlerProperty) {
+            const methods = ts.isArrayLiteralExpression(methodProperty.initializer)
+              ? methodProperty.initializer.elements.filter(ts.isStringLiteralLike).map(e => e.text)
+              : ts.isStringLiteralLike(methodProperty.initializer) ? [methodProperty.initializer.text] : [];
+            const label = `${methods.join('|')} ${url.text}`;
+
+            let handler: CallInfo | null = null;
+            if (ts.isMethodDeclaration(handlerProperty)) {
+              // handler(request, reply) { ... }
+              handler = { name: context.addInlineHandler(label, handlerProperty), line: context.lineOf(handlerProperty) };
+            } else if (ts.isPropertyAssignment(handlerProperty)) {
+              handler = toHandlerRef(context, handlerProperty.initializer, label);
+            } else if (ts.isShorthandPropertyAssignment(handlerProperty)) {
+              handler = { name: handlerProperty.name.text, line: context.lineOf(handlerProperty) };
+            }
+
+            if (handler) {
+              const middleware = getOptionMiddleware(context, firstArg, label);
+              methods.forEach(m => context.addEndpoint({
+                method: m.toLowerCase(),
+                path: url.text,
+                router,
+                handler: handler!.name,
+                handlerReceiver: handler!.receiver,
+                middleware,
+                line: context.lineOf(url),
+                anchor: url.text,
+                framework: 'fastify',
+                pos: n.getStart(),
+              }));
+            }
+          }
+        } else if (method === 'register' && firstArg && ts.isIdentifier(firstArg) && secondArg && ts.isObjectLiteralExpression(secondArg)) {
+          const prefix = getStringProperty(secondArg, 'prefix');
+          if (prefix) {
+            context.addMount({ prefix: prefix.text, router, target: firstArg.text, middleware: [], line: context.lineOf(prefix) });
+          }
+        }
+      }
+      ts.forEachChild(n, visit);
+    };
+    visit(context.sourceFile);
+  },
+};
+
+// NestJS: @Controller('users') class with @Get(':id') methods, guards via @UseGuards(AuthGuard)
+const nestDetector: EndpointDetector = {
+  framework: 'nestjs',
+  detect: (context) => {
+    const guardsOf = (node: ts.HasDecorators): CallInfo[] =>
+      (ts.getDecorators(node) || []).flatMap(decorator => {
+        const call = getDecoratorCall(decorator);
+        if (!call || !['UseGuards', 'UseInterceptors', 'UsePipes'].includes(call.name)) return [];
+        return call.args
+          .filter(ts.isIdentifier)
+          .map(arg => ({ name: arg.text, line: context.lineOf(arg) }));
+      });
+
+    const visit = (n: ts.Node) => {
+      if (ts.isClassDeclaration(n) && n.name) {
+        const controller = (ts.getDecorators(n) || []).map(getDecoratorCall).find(c => c?.name === 'Controller');
+        if (controller) {
+          const [prefixArg] = controller.args;
+          const prefix = prefixArg && ts.isStringLiteralLike(prefixArg)
+            ? prefixArg.text
+            : prefixArg && ts.isObjectLiteralExpression(prefixArg) ? getStringProperty(prefixArg, 'path')?.text ?? '' : '';
+          const classGuards = guardsOf(n);
+
+          n.members.forEach(member => {
+            if (!ts.isMethodDeclaration(member) || !ts.isIdentifier(member.name)) return;
+            (ts.getDecorators(member) || []).forEach(decorator => {
+              const call = getDecoratorCall(decorator);
+              if (!call || !HTTP_METHODS.includes(call.name.toLowerCase())) return;
+
+              const [pathArg] = call.args;
+              const routePath = pathArg && ts.isStringLiteralLike(pathArg) ? pathArg.text : '';
+              context.addEndpoint({
+                method: call.name.toLowerCase(),
+                path: joinRoute(prefix, routePath),
+                handler: (member.name as ts.Identifier).text,
+                handlerReceiver: n.name!.text,
+                middleware: [...classGuards, ...guardsOf(member)],
+                line: context.lineOf(decorator),
+                // Anchor on the route string, or the decorator name for @Get()
+                anchor: pathArg && ts.isStringLiteralLike(pathArg) ? pathArg.text : call.name,
+                framework: 'nestjs',
+                pos: decorator.getStart(),
+              });
+            });
+          });
+        }
+      }
+      ts.forEachChild(n, visit);
+    };
+    visit(context.sourceFile);
+  },
+};
+
+// Next.js file conventions: app/**/route.ts exports GET/POST/..., pages/api/** default-exports a handler
+const nextDetector: EndpointDetector = {
+  framework: 'nextjs',
+  detect: (context) => {
+    const appMatch = context.path.match(/(?:^|\/)app\/(.*?)\/?route\.[jt]sx?$/);
+    const pagesMatch = context.path.match(/(?:^|\/)pages\/(api(?:\/.*)?)\.[jt]sx?$/);
+    if (!appMatch && !pagesMatch) return;
+
+    const toRoute = (segments: string) => joinRoute(...segments.split('/')
+      .filter(segment => !/^\(.*\)$/.test(segment) && !segment.startsWith('@')) // Route groups and parallel routes
+      .map(segment => segment
+        .replace(/^\[\[\.\.\.(.+)\]\]$/, ':$1*')
+        .replace(/^\[\.\.\.(.+)\]$/, ':$1*')
+        .replace(/^\[(.+)\]$/, ':$1'))
+      .filter(segment => segment !== 'index'));
+
+    const routePath = appMatch ? toRoute(appMatch[1]) : toRoute(pagesMatch![1]);
+
+    context.sourceFile.statements.forEach(statement => {
+      const exported = ts.canHaveModifiers(statement) &&
+        ts.getModifiers(statement)?.some(m => m.kind === ts.SyntaxKind.ExportKeyword);
+      const isDefault = ts.canHaveModifiers(statement) &&
+        ts.getModifiers(statement)?.some(m => m.kind === ts.SyntaxKind.DefaultKeyword);
+
+      const add = (method: string, handler: string, anchorNode: ts.Node, anchor: string) => context.addEndpoint({
+        method,
+        path: routePath,
+        handler,
+        middleware: [],
+        line: context.lineOf(anchorNode),
+        anchor,
+        framework: 'nextjs',
+        pos: statement.getStart(),
+      });
+
+      if (appMatch && exported) {
+        if (ts.isFunctionDeclaration(statement) && statement.name && HTTP_METHODS.includes(statement.name.text.toLowerCase())) {
+          add(statement.name.text.toLowerCase(), statement.name.text, statement.name, statement.name.text);
+        } else if (ts.isVariableStatement(statement)) {
+          statement.declarationList.declarations.forEach(declaration => {
+            if (ts.isIdentifier(declaration.name) && HTTP_METHODS.includes(declaration.name.text.toLowerCase())) {
+              add(declaration.name.text.toLowerCase(), declaration.name.text, declaration.name, declaration.name.text);
+            }
+          });
+        }
+      } else if (pagesMatch) {
+        if (ts.isFunctionDeclaration(statement) && exported && isDefault && statement.name) {
+          add('all', statement.name.text, statement.name, statement.name.text);
+        } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+          add('all', statement.expression.text, statement.expression, statement.expression.text);
+        }
+      }
+    });
+  },
+};
+
+const endpointDetectors: EndpointDetector[] = [callStyleDetector, fastifyDetector, nestDetector, nextDetector];
+
+export const registerEndpointDetector = (detector: EndpointDetector) => {
+  endpointDetectors.push(detector);
+};
+
+// Which framework call-style routes most likely belong to, from the file's imports
+const guessFramework = (sourceFile: ts.SourceFile) => {
+  const modules = sourceFile.statements
+    .filter(ts.isImportDeclaration)
+    .map(i => (i.moduleSpecifier as ts.StringLiteral).text);
+  if (modules.includes('fastify')) return 'fastify';
+  if (modules.includes('hono')) return 'hono';
+  if (modules.some(m => m === 'koa-router' || m === '@koa/router')) return 'koa';
+  return 'express';
+};
+
+export const findEndpoints = (
+  sourceFile: ts.SourceFile,
+  path: string,
+  addInlineHandler: (name: string, fn: ts.FunctionLikeDeclaration) => void
+): { endpoints: EndpointInfo[]; mounts: RouteMount[]; routerMiddleware: RouterMiddleware[] } => {
+  const detected: DetectedEndpoint[] = [];
+  const mounts: RouteMount[] = [];
+  const routerMiddleware: Array<{ router: string; middleware: CallInfo[]; pos: number }> = [];
+  const seenHandlers = new Set<string>();
+
+  const context: DetectorContext = {
+    sourceFile,
+    path,
+    framework: guessFramework(sourceFile),
+    lineOf: (node) => sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1,
+    addEndpoint: (endpoint) => detected.push(endpoint),
+    addMount: (mount) => mounts.push(mount),
+    addRouterMiddleware: (router, middleware, pos) => routerMiddleware.push({ router, middleware, pos }),
+    addInlineHandler: (name, fn) => {
+      // The same inline function can be reached by more than one detector
+      const key = `${name}@${fn.getStart()}`;
+      if (!seenHandlers.has(key)) {
+        seenHandlers.add(key);
+        addInlineHandler(name, fn);
+      }
+      return name;
+    },
+  };
+
+  endpointDetectors.forEach(detector => detector.detect(context));
+
+  const mountPosition = (mount: RouteMount) =>
+    sourceFile.getPositionOfLineAndCharacter(mount.line - 1, 0);
+
+  // Prefix and middleware a router inherits from the routers it is mounted on within this file
+  const inherited = (router: string | undefined, pos: number, seen: Set<string> = new Set()): { prefix: string; middleware: CallInfo[] } => {
+    const own = routerMiddleware
+      .filter(m => m.router === router && m.pos < pos)
+      .flatMap(m => m.middleware);
+    const mount = router !== undefined ? mounts.find(m => m.target === router) : undefined;
+    if (!mount || seen.has(router!)) return { prefix: '', middleware: own };
+    seen.add(router!);
+
+    const parent = inherited(mount.router, mountPosition(mount), seen);
+    return {
+      prefix: joinRoute(parent.prefix, mount.prefix),
+      middleware: [...parent.middleware, ...mount.middleware, ...own],
+    };
+  };
+
+  const endpoints: EndpointInfo[] = detected.sort((a, b) => a.pos - b.pos).map(endpoint => {
+    const { prefix, middleware } = inherited(endpoint.router, endpoint.pos);
+    const localPath = joinRoute(prefix, endpoint.path);
+    return {
+      method: endpoint.method,
+      path: endpoint.path,
+      localPath,
+      fullPath: localPath,
+      handler: endpoint.handler,
+      handlerReceiver: endpoint.handlerReceiver,
+      middleware: [...middleware, ...endpoint.middleware],
+      line: endpoint.line,
+      anchor: endpoint.anchor,
+      framework: endpoint.framework,
+      router: endpoint.router,
+    };
+  });
+
+  // Kept for routers mounted here but declared in other files
+  const usedMiddleware = routerMiddleware.map(({ router, middleware, pos }): RouterMiddleware => ({
+    router,
+    middleware,
+    line: sourceFile.getLineAndCharacterOfPosition(pos).line + 1,
+  }));
+
+  return { endpoints, mounts, routerMiddleware: usedMiddleware };
+};
+
+// Identifies an endpoint within its file, e.g. "GET /api/users/:id"
+export const endpointLabel = (endpoint: EndpointInfo) => `${endpoint.method.toUpperCase()} ${endpoint.fullPath}`;
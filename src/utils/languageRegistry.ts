@@ -0,0 +1,44 @@
+import { FileAnalysis, analyzeCode } from './codeAnalyzer';
+import { analyzePython } from './pythonAnalyzer';
+
+export interface LanguageDefinition {
+  id: string; // Stored as FileStructure.language
+  extensions: string[]; // Lower-case, with the leading dot
+  grammar: string; // Key in Prism.languages, loaded by syntaxHighlight
+  analyze?: (path: string, content: string) => FileAnalysis; // Omitted for files the canvas only displays
+}
+
+export const PLAINTEXT = 'plaintext';
+
+// Checked in order; the first definition claiming an extension wins
+const languages: LanguageDefinition[] = [
+  { id: 'typescript', extensions: ['.ts', '.tsx', '.mts', '.cts'], grammar: 'typescript', analyze: analyzeCode },
+  { id: 'javascript', extensions: ['.js', '.jsx', '.mjs', '.cjs'], grammar: 'javascript', analyze: analyzeCode },
+  { id: 'python', extensions: ['.py'], grammar: 'python', analyze: analyzePython },
+  { id: 'css', extensions: ['.css'], grammar: 'css' },
+  { id: 'json', extensions: ['.json'], grammar: 'json' },
+  { id: 'html', extensions: ['.html', '.htm'], grammar: 'markup' },
+];
+
+// Later registrations take precedence for the extensions they claim
+export const registerLanguage = (definition: LanguageDefinition) => {
+  const index = languages.findIndex(l => l.id === definition.id);
+  if (index >= 0) languages.splice(index, 1);
+  languages.unshift(definition);
+};
+
+export const getLanguageDefinition = (language: string) => languages.find(l => l.id === language);
+
+// Language id for a file name or path
+export const getLanguage = (fileName: string) => {
+  const lower = fileName.toLowerCase();
+  return languages.find(l => l.extensions.some(ext => lower.endsWith(ext)))?.id ?? PLAINTEXT;
+};
+
+export const isAnalyzableLanguage = (language: string) => !!getLanguageDefinition(language)?.analyze;
+
+export const analyzeFile = (path: string, content: string, language: string): FileAnalysis => {
+  const analyze = getLanguageDefinition(language)?.analyze;
+  if (!analyze) throw new Error(`No analyzer registered for ${language}`);
+  return analyze(path, content);
+};
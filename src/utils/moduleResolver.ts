@@ -0,0 +1,451 @@
+import * as ts from 'typescript';
+import { FileStructure } from '../store/useFileStore';
+import { EndpointInfo, FileAnalysis, FunctionInfo, MountedMiddleware, RouteMount } from './codeAnalyzer';
+import { joinRoute } from './endpointDetectors';
+
+// Extensions tried, in order, when a specifier has none (or a .js one pointing at TS source)
+const PROBE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+interface TsConfigAliases {
+  dir: string; // Directory containing the tsconfig.json
+  baseUrl?: string; // Resolved against dir
+  paths: Record<string, string[]>;
+}
+
+export interface ModuleResolver {
+  resolve: (fromPath: string, moduleSpecifier: string) => string | undefined;
+}
+
+const dirname = (path: string) => {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+};
+
+// Join and normalise posix-style segments, collapsing "." and ".."
+const joinPath = (...parts: string[]) => {
+  const segments: string[] = [];
+  parts.join('/').split('/').forEach(segment => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  });
+  return segments.join('/');
+};
+
+const parseTsConfig = (file: FileStructure): TsConfigAliases | null => {
+  const { config, error } = ts.parseConfigFileTextToJson(file.path, file.content);
+  if (error || !config) return null;
+
+  const dir = dirname(file.path);
+  const options = config.compilerOptions || {};
+  return {
+    dir,
+    baseUrl: typeof options.baseUrl === 'string' ? joinPath(dir, options.baseUrl) : undefined,
+    paths: options.paths && typeof options.paths === 'object' ? options.paths : {},
+  };
+};
+
+// Build a resolver over the given files. Paths are matched exactly against FileStructure.path.
+// tsconfig/jsconfig aliases are read from configFiles, which may include files not on the canvas.
+export const createModuleResolver = (files: FileStructure[], configFiles: FileStructure[] = files): ModuleResolver => {
+  const knownPaths = new Set(files.map(f => f.path));
+  const tsConfigs = [...files, ...configFiles]
+    .filter((f, index, all) => all.findIndex(other => other.path === f.path) === index)
+    .filter(f => f.name === 'tsconfig.json' || f.name === 'jsconfig.json')
+    .map(parseTsConfig)
+    .filter((c): c is TsConfigAliases => c !== null)
+    // Deepest first so the nearest config wins
+    .sort((a, b) => b.dir.length - a.dir.length);
+
+  const probe = (basePath: string): string | undefined => {
+    if (knownPaths.has(basePath)) return basePath;
+
+    // ESM-style TS imports reference the emitted .js file: './foo.js' -> './foo.ts'
+    const jsMatch = basePath.match(/^(.*)\.(m|c)?jsx?$/);
+    const stem = jsMatch ? jsMatch[1] : basePath;
+
+    for (const ext of PROBE_EXTENSIONS) {
+      if (knownPaths.has(stem + ext)) return stem + ext;
+    }
+    for (const ext of PROBE_EXTENSIONS) {
+      const indexPath = joinPath(basePath, `index${ext}`);
+      if (knownPaths.has(indexPath)) return indexPath;
+    }
+    return undefined;
+  };
+
+  const nearestConfig = (fromPath: string) =>
+    tsConfigs.find(c => c.dir === '' || fromPath.startsWith(`${c.dir}/`));
+
+  const resolveAlias = (config: TsConfigAliases, specifier: string): string | undefined => {
+    const root = config.baseUrl ?? config.dir;
+
+    for (const [pattern, targets] of Object.entries(config.paths)) {
+      const starIndex = pattern.indexOf('*');
+      let wildcard: string | null = null;
+
+      if (starIndex === -1) {
+        if (pattern === specifier) wildcard = '';
+      } else {
+        const prefix = pattern.slice(0, starIndex);
+        const suffix = pattern.slice(starIndex + 1);
+        if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length) {
+          wildcard = specifier.slice(prefix.length, specifier.length - suffix.length);
+        }
+      }
+
+      if (wildcard === null) continue;
+      for (const target of targets) {
+        const resolved = probe(joinPath(root, target.replace('*', wildcard)));
+        if (resolved) return resolved;
+      }
+    }
+
+    // Bare specifiers are also looked up from baseUrl: import x from 'services/gemini'
+    return config.baseUrl !== undefined ? probe(joinPath(config.baseUrl, specifier)) : undefined;
+  };
+
+  // Python absolute imports are rooted at a source directory we don't know, so they are
+  // matched by path suffix; files are indexed by name to keep that cheap
+  const pythonModules = new Map<string, string[]>();
+  files.filter(f => f.path.endsWith('.py')).forEach(f => {
+    pythonModules.set(f.name, [...(pythonModules.get(f.name) || []), f.path]);
+  });
+
+  const sharedDepth = (a: string, b: string) => {
+    const left = a.split('/');
+    const right = b.split('/');
+    let depth = 0;
+    while (depth < left.length && left[depth] === right[depth]) depth++;
+    return depth;
+  };
+
+  // from .models import User / from ..core import db / import app.services.users
+  const resolvePython = (fromPath: string, moduleSpecifier: string) => {
+    const dots = moduleSpecifier.match(/^\.*/)![0].length;
+    const modulePath = moduleSpecifier.slice(dots).split('.').filter(Boolean).join('/');
+    const candidates = (base: string) => [`${base}.py`, joinPath(base, '__init__.py')];
+
+    if (dots > 0) {
+      // One dot is the importing file's package, each further dot one package up
+      const base = joinPath(dirname(fromPath), ...Array(dots - 1).fill('..'), modulePath);
+      return candidates(base).find(candidate => knownPaths.has(candidate));
+    }
+
+    // Several roots may match (src/app/x.py, tests/app/x.py): prefer the one nearest the importer
+    return candidates(modulePath)
+      .flatMap(candidate => (pythonModules.get(candidate.split('/').pop()!) || [])
+        .filter(path => path === candidate || path.endsWith(`/${candidate}`)))
+      .sort((a, b) => sharedDepth(b, fromPath) - sharedDepth(a, fromPath))[0];
+  };
+
+  const resolve = (fromPath: string, moduleSpecifier: string) => {
+    if (fromPath.endsWith('.py')) {
+      return resolvePython(fromPath, moduleSpecifier);
+    }
+    if (moduleSpecifier.startsWith('.')) {
+      return probe(joinPath(dirname(fromPath), moduleSpecifier));
+    }
+    if (moduleSpecifier.startsWith('/')) {
+      return probe(joinPath(moduleSpecifier));
+    }
+    const config = nearestConfig(fromPath);
+    return config ? resolveAlias(config, moduleSpecifier) : undefined;
+  };
+
+  return { resolve };
+};
+
+// Fill in ImportInfo.resolvedPath for every analysed file.
+// Files whose resolution did not change are returned as-is so downstream memoisation holds.
+// With changedPaths only those files are resolved again; that is enough after content edits,
+// since resolution depends on the set of paths and tsconfig files, not on other files' code.
+export const linkImports = (files: FileStructure[], configFiles?: FileStructure[], changedPaths?: Set<string>): FileStructure[] => {
+  const resolver = createModuleResolver(files, configFiles);
+
+  return files.map(file => {
+    if (!file.analysis || (changedPaths && !changedPaths.has(file.path))) return file;
+
+    let changed = false;
+    const imports = file.analysis.imports.map(importInfo => {
+      const resolvedPath = resolver.resolve(file.path, importInfo.moduleSpecifier);
+      if (resolvedPath === importInfo.resolvedPath) return importInfo;
+      changed = true;
+      return { ...importInfo, resolvedPath };
+    });
+
+    if (!changed) return file;
+    const analysis: FileAnalysis = { ...file.analysis, imports };
+    return { ...file, analysis };
+  });
+};
+
+interface RouterMountChain {
+  prefix: string;
+  middleware: MountedMiddleware[];
+}
+
+// Apply prefixes and middleware from routers mounted in other files:
+// app.use('/api', auth, usersRouter) with usersRouter imported from routes/users.ts.
+// Must run after linkImports. Unchanged files are returned as-is.
+export const linkEndpoints = (files: FileStructure[]): FileStructure[] => {
+  const chains = new Map<string, RouterMountChain>();
+
+  // app.use(cors()) before the mount on line
+  const usedBefore = (file: FileStructure, router: string, line: number): MountedMiddleware[] =>
+    (file.analysis?.routerMiddleware || [])
+      .filter(m => m.router === router && m.line < line)
+      .flatMap(m => m.middleware.map(ref => ({ ...ref, file: file.path })));
+
+  // Prefix and middleware a router inherits from mounts in the same file
+  const inFileChain = (file: FileStructure, router: string, seen: Set<string> = new Set()): RouterMountChain => {
+    const mount = file.analysis?.mounts?.find(m => m.target === router);
+    if (!mount || seen.has(router)) return { prefix: '', middleware: [] };
+    seen.add(router);
+    const parent = inFileChain(file, mount.router, seen);
+    return {
+      prefix: joinRoute(parent.prefix, mount.prefix),
+      middleware: [
+        ...parent.middleware,
+        ...usedBefore(file, mount.router, mount.line),
+        ...mount.middleware.map(m => ({ ...m, file: file.path })),
+      ],
+    };
+  };
+
+  const isMountOf = (file: FileStructure, mount: RouteMount, path: string) =>
+    (file.analysis?.imports || []).some(i =>
+      i.kind !== 'reexport' &&
+      i.resolvedPath === path &&
+      (i.defaultImport === mount.target || i.namedImports.includes(mount.target) ||
+        // app.include_router(users.router) with users a namespace import of the router's module
+        (!!i.namespaceImport && mount.target.startsWith(`${i.namespaceImport}.`)))
+    );
+
+  // A router file mounted more than once keeps its first mount
+  const chainFor = (path: string, visiting: Set<string> = new Set()): RouterMountChain => {
+    const cached = chains.get(path);
+    if (cached) return cached;
+    if (visiting.has(path)) return { prefix: '', middleware: [] };
+    visiting.add(path);
+
+    let chain: RouterMountChain = { prefix: '', middleware: [] };
+    for (const file of files) {
+      const mount = file.path !== path ? file.analysis?.mounts?.find(m => isMountOf(file, m, path)) : undefined;
+      if (!mount) continue;
+      const outer = chainFor(file.path, visiting);
+      const local = inFileChain(file, mount.router);
+      chain = {
+        prefix: joinRoute(outer.prefix, local.prefix, mount.prefix),
+        middleware: [
+          ...outer.middleware,
+          ...local.middleware,
+          ...usedBefore(file, mount.router, mount.line),
+          ...mount.middleware.map(m => ({ ...m, file: file.path })),
+        ],
+      };
+      break;
+    }
+    chains.set(path, chain);
+    return chain;
+  };
+
+  return files.map(file => {
+    if (!file.analysis?.endpoints?.length) return file;
+
+    const chain = chainFor(file.path);
+    let changed = false;
+    const endpoints = file.analysis.endpoints.map((endpoint): EndpointInfo => {
+      // Only call-style routes are mounted; decorator and file-based routes carry their full path
+      const applies = endpoint.router !== undefined;
+      const fullPath = applies ? joinRoute(chain.prefix, endpoint.localPath) : endpoint.localPath;
+      const mountedMiddleware = applies && chain.middleware.length > 0 ? chain.middleware : undefined;
+      if (
+        fullPath === endpoint.fullPath &&
+        JSON.stringify(mountedMiddleware) === JSON.stringify(endpoint.mountedMiddleware)
+      ) {
+        return endpoint;
+      }
+      changed = true;
+      return { ...endpoint, fullPath, mountedMiddleware };
+    });
+
+    if (!changed) return file;
+    const analysis: FileAnalysis = { ...file.analysis, endpoints };
+    return { ...file, analysis };
+  });
+};
+
+export interface SymbolLocation {
+  file: string;
+  func: string;
+  line?: number; // Start line, telling same-named methods of one file apart (constructor, run, render)
+}
+
+// The function called name that starts at line, or the first called name when no line is given
+// (or the file changed since). name may be qualified by its class or object: "Cache.get".
+export const findFunction = (functions: FunctionInfo[], name: string, line?: number): FunctionInfo | undefined => {
+  const dot = name.lastIndexOf('.');
+  const owner = dot > 0 ? name.slice(0, dot) : undefined;
+  const bare = dot > 0 ? name.slice(dot + 1) : name;
+  const named = functions.filter(f => f.name === bare && (owner === undefined || f.owner === owner));
+  return named.find(f => f.startLine === line) ?? named[0];
+};
+
+const locationOf = (file: string, func: FunctionInfo): SymbolLocation => ({ file, func: func.name, line: func.startLine });
+
+// Plain calls only reach functions outside classes and object literals
+const topLevel = (functions: FunctionInfo[] = []) => functions.filter(f => !f.owner);
+
+// Receivers meaning the object a method runs on
+const SELF_RECEIVERS = new Set(['this', 'self', 'cls']);
+
+type SymbolSpace = 'function' | 'type';
+
+const isDefinedIn = (analysis: FileAnalysis, name: string, space: SymbolSpace) =>
+  space === 'type'
+    ? (analysis.types || []).some(t => t.name === name)
+    : topLevel(analysis.functions).some(f => f.name === name);
+
+// Find the function (or type) a module exports under exportedName, following re-exports through barrels.
+// localName is the importer's binding, used as a hint for default exports.
+const findExport = (
+  files: FileStructure[],
+  path: string,
+  exportedName: string,
+  localName: string,
+  visited: Set<string> = new Set(),
+  space: SymbolSpace = 'function'
+): SymbolLocation | null => {
+  const key = `${path}:${exportedName}`;
+  if (visited.has(key)) return null;
+  visited.add(key);
+
+  const file = files.find(f => f.path === path);
+  if (!file?.analysis) return null;
+
+  // export default foo / export { foo as bar } point at a differently named local. Only exported
+  // names count, except in Python modules without __all__, where every top-level name is importable.
+  const exportEntry = file.analysis.exports?.find(e => e.name === exportedName && e.kind !== 'reexport');
+  const isImplicitlyExported = path.endsWith('.py') && file.analysis.exports.length === 0;
+  const lookupName = exportEntry
+    ? exportEntry.localName ?? (exportedName === 'default' ? localName : exportedName)
+    : isImplicitlyExported ? exportedName : undefined;
+  if (lookupName !== undefined && isDefinedIn(file.analysis, lookupName, space)) {
+    const func = space === 'function' ? findFunction(topLevel(file.analysis.functions), lookupName) : undefined;
+    return func ? locationOf(path, func) : { file: path, func: lookupName };
+  }
+
+  // export { x } from './x' names its source; export * from only covers what nothing names
+  const reexports = file.analysis.imports.filter(i => i.kind === 'reexport' && i.resolvedPath);
+  const named = reexports.find(i => i.namedImports.includes(exportedName));
+  if (named) {
+    const original = named.aliases?.[exportedName] ?? exportedName;
+    return findExport(files, named.resolvedPath!, original, localName, visited, space);
+  }
+  if (exportedName === 'default') return null;
+  for (const reexport of reexports.filter(i => i.reexportAll)) {
+    const found = findExport(files, reexport.resolvedPath!, exportedName, localName, visited, space);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Resolve a name called from currentFile to its definition.
+// receiver is the object of a member call (ns.fn(), this.save()), and callerOwner the class the call
+// is made from. Receivers aren't typed, so methods are only linked through this/self or a receiver
+// naming their class or object: Cache.clear(), usersController.list -> UsersController.
+export const resolveSymbol = (
+  files: FileStructure[],
+  currentFile: FileStructure,
+  name: string,
+  receiver?: string,
+  callerOwner?: string
+): SymbolLocation | null => {
+  const imports = (currentFile.analysis?.imports || []).filter(i => i.kind !== 'reexport');
+
+  if (receiver) {
+    const namespaceImport = imports.find(i => i.namespaceImport === receiver);
+    if (namespaceImport) {
+      return namespaceImport.resolvedPath
+        ? findExport(files, namespaceImport.resolvedPath, name, name)
+        : null;
+    }
+
+    const functions = currentFile.analysis?.functions || [];
+    if (SELF_RECEIVERS.has(receiver)) {
+      const method = functions.find(f => f.name === name && f.owner && (!callerOwner || f.owner === callerOwner));
+      return method ? locationOf(currentFile.path, method) : null;
+    }
+
+    const owners = [receiver, receiver.charAt(0).toUpperCase() + receiver.slice(1)];
+    const isOwned = (f: FunctionInfo) => f.name === name && f.owner !== undefined && owners.includes(f.owner);
+    const owned = functions.find(isOwned);
+    if (owned) return locationOf(currentFile.path, owned);
+    for (const file of files) {
+      const method = file.analysis?.functions.find(isOwned);
+      if (method) return locationOf(file.path, method);
+    }
+    return null;
+  }
+
+  // Check local functions
+  const local = findFunction(topLevel(currentFile.analysis?.functions), name);
+  if (local) return locationOf(currentFile.path, local);
+
+  // Check imports. Imported names only link to the module they came from;
+  // unresolved specifiers are external packages that aren't loaded.
+  const importInfo = imports.find(i => i.namedImports.includes(name) || i.defaultImport === name);
+  if (importInfo) {
+    if (!importInfo.resolvedPath) return null;
+    const exportedName = importInfo.namedImports.includes(name)
+      ? importInfo.aliases?.[name] ?? name
+      : 'default';
+    return findExport(files, importInfo.resolvedPath, exportedName, name);
+  }
+
+  // Not imported: globals defined in another loaded file
+  for (const file of files) {
+    const func = findFunction(topLevel(file.analysis?.functions), name);
+    if (func) return locationOf(file.path, func);
+  }
+  return null;
+};
+
+export interface TypeLocation {
+  file: string;
+  name: string;
+}
+
+// Resolve a type name used in currentFile to its declaration, the same way resolveSymbol does for functions
+export const resolveTypeSymbol = (
+  files: FileStructure[],
+  currentFile: FileStructure,
+  name: string
+): TypeLocation | null => {
+  if (currentFile.analysis && isDefinedIn(currentFile.analysis, name, 'type')) {
+    return { file: currentFile.path, name };
+  }
+
+  const imports = (currentFile.analysis?.imports || []).filter(i => i.kind !== 'reexport');
+  const importInfo = imports.find(i => i.namedImports.includes(name) || i.defaultImport === name);
+  if (importInfo) {
+    if (!importInfo.resolvedPath) return null;
+    const exportedName = importInfo.namedImports.includes(name)
+      ? importInfo.aliases?.[name] ?? name
+      : 'default';
+    const found = findExport(files, importInfo.resolvedPath, exportedName, name, new Set(), 'type');
+    return found ? { file: found.file, name: found.func } : null;
+  }
+
+  // Ambient declarations (.d.ts, global interfaces) aren't imported
+  const targetFile = files.find(f => f.analysis && isDefinedIn(f.analysis, name, 'type'));
+  return targetFile ? { file: targetFile.path, name } : null;
+};
+
+// Every cross-file pass, in dependency order
+export const linkFiles = (files: FileStructure[], configFiles?: FileStructure[], changedPaths?: Set<string>): FileStructure[] =>
+  linkEndpoints(linkImports(files, configFiles, changedPaths));
@@ -0,0 +1,862 @@
+import {
+  CallInfo,
+  ControlFlowBranch,
+  ControlFlowNode,
+  EndpointInfo,
+  ExportInfo,
+  FileAnalysis,
+  FunctionInfo,
+  FunctionKind,
+  ImportInfo,
+  RouteMount,
+  TypeInfo,
+  TypeKind,
+  TypeMemberInfo,
+} from './codeAnalyzer';
+import { HTTP_METHODS, joinRoute } from './endpointDetectors';
+
+// Hand-written Python front end. The source is tokenised into logical lines and blocks are
+// recovered from indentation, which is enough for defs, classes, imports, calls, returns and
+// Flask/FastAPI routes without a full grammar.
+
+interface Token {
+  kind: 'name' | 'string' | 'number' | 'op';
+  text: string;
+  line: number;
+  value?: string; // Contents of string literals, without prefix and quotes
+}
+
+interface LogicalLine {
+  indent: number;
+  line: number;
+  endLine: number;
+  tokens: Token[];
+}
+
+const KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+  'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+]);
+
+const OPERATORS = [
+  '**=', '//=', '>>=', '<<=', '...', '->', ':=', '==', '!=', '<=', '>=', '**', '//', '<<', '>>',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=',
+];
+
+const STRING_START = /([rRbBuUfF]{0,2})('''|"""|'|")/y;
+const NAME = /[A-Za-z_À-￿][\wÀ-￿]*/y;
+const NUMBER = /(?:\d|\.\d)[\w.]*/y;
+
+const matchAt = (pattern: RegExp, text: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+
+const tokenize = (content: string): LogicalLine[] => {
+  const lines: LogicalLine[] = [];
+  let tokens: Token[] = [];
+  let depth = 0; // Open brackets; newlines inside them don't end the statement
+  let line = 1;
+  let indent = 0;
+  let atLineStart = true;
+  let i = 0;
+
+  const endLogicalLine = () => {
+    if (tokens.length > 0) lines.push({ indent, line: tokens[0].line, endLine: line, tokens });
+    tokens = [];
+    depth = 0;
+  };
+
+  while (i < content.length) {
+    if (atLineStart) {
+      let width = 0;
+      while (content[i] === ' ' || content[i] === '\t' || content[i] === '\f') {
+        width = content[i] === '\t' ? width + 8 - (width % 8) : width + 1;
+        i++;
+      }
+      if (tokens.length === 0) indent = width;
+      atLineStart = false;
+      continue;
+    }
+
+    const ch = content[i];
+    if (ch === '\n') {
+      if (depth === 0) endLogicalLine();
+      line++;
+      i++;
+      atLineStart = true;
+      continue;
+    }
+    if (ch === '\\' && content[i + 1] === '\n') {
+      line++;
+      i += 2;
+      continue;
+    }
+    if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\f') {
+      i++;
+      continue;
+    }
+    if (ch === '#') {
+      while (i < content.length && content[i] !== '\n') i++;
+      continue;
+    }
+
+    const stringStart = matchAt(STRING_START, content, i);
+    if (stringStart) {
+      const quote = stringStart[2];
+      const startLine = line;
+      let j = i + stringStart[0].length;
+      while (j < content.length && !content.startsWith(quote, j)) {
+        if (content[j] === '\\') j++;
+        else if (content[j] === '\n' && quote.length === 1) break; // Unterminated
+        if (content[j] === '\n') line++;
+        j++;
+      }
+      const value = content.slice(i + stringStart[0].length, j);
+      j = Math.min(content.length, j + (content.startsWith(quote, j) ? quote.length : 0));
+      tokens.push({ kind: 'string', text: content.slice(i, j), line: startLine, value });
+      i = j;
+      continue;
+    }
+
+    const name = matchAt(NAME, content, i);
+    if (name) {
+      tokens.push({ kind: 'name', text: name[0], line });
+      i += name[0].length;
+      continue;
+    }
+
+    const number = matchAt(NUMBER, content, i);
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], line });
+      i += number[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => content.startsWith(op, i)) ?? ch;
+    if ('([{'.includes(operator)) depth++;
+    if (')]}'.includes(operator)) depth = Math.max(0, depth - 1);
+    tokens.push({ kind: 'op', text: operator, line });
+    i += operator.length;
+  }
+  endLogicalLine();
+
+  return lines;
+};
+
+// Index of the bracket closing the one at openIndex
+const findClosing = (tokens: Token[], openIndex: number) => {
+  let depth = 0;
+  for (let i = openIndex; i < tokens.length; i++) {
+    if ('([{'.includes(tokens[i].text)) depth++;
+    if (')]}'.includes(tokens[i].text) && --depth === 0) return i;
+  }
+  return tokens.length;
+};
+
+// Index of the first token with this text outside brackets, from start
+const findTopLevel = (tokens: Token[], text: string, start = 0) => {
+  let depth = 0;
+  for (let i = start; i < tokens.length; i++) {
+    if (depth === 0 && tokens[i].text === text) return i;
+    if ('([{'.includes(tokens[i].text)) depth++;
+    if (')]}'.includes(tokens[i].text)) depth--;
+  }
+  return -1;
+};
+
+// Split a token run on commas that aren't nested in brackets
+const splitTopLevel = (tokens: Token[]) => {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  tokens.forEach(token => {
+    if ('([{'.includes(token.text)) depth++;
+    if (')]}'.includes(token.text)) depth--;
+    if (token.text === ',' && depth === 0) parts.push([]);
+    else parts[parts.length - 1].push(token);
+  });
+  return parts.filter(part => part.length > 0);
+};
+
+interface Argument {
+  keyword?: string;
+  tokens: Token[];
+}
+
+// Arguments of the call whose '(' is at openIndex
+const parseArguments = (tokens: Token[], openIndex: number): Argument[] =>
+  splitTopLevel(tokens.slice(openIndex + 1, findClosing(tokens, openIndex))).map(part =>
+    part.length > 2 && part[0].kind === 'name' && part[1].text === '='
+      ? { keyword: part[0].text, tokens: part.slice(2) }
+      : { tokens: part }
+  );
+
+// Value of an argument made of (implicitly concatenated) string literals
+const stringValue = (tokens: Token[] | undefined) =>
+  tokens && tokens.length > 0 && tokens.every(t => t.kind === 'string')
+    ? tokens.map(t => t.value).join('')
+    : undefined;
+
+// Dotted name starting at index: a.b.c -> ['a', 'b', 'c']
+// Name a call or subscript result hangs off, from its closing bracket: Service(1, 2) -> 'Service',
+// items[0] -> 'items', get()[1] -> 'get'. Undefined when the brackets open on another line or follow no name.
+const calleeBefore = (tokens: Token[], close: number): string | undefined => {
+  let depth = 0;
+  for (let j = close; j >= 0; j--) {
+    const text = tokens[j].text;
+    if (text === ')' || text === ']') depth++;
+    else if (text === '(' || text === '[') depth--;
+    if (depth > 0) continue;
+    const before = tokens[j - 1];
+    if (before?.text === ')' || before?.text === ']') continue;
+    return before?.kind === 'name' ? before.text : undefined;
+  }
+  return undefined;
+};
+
+const readDottedName = (tokens: Token[], index: number) => {
+  const parts: string[] = [];
+  let i = index;
+  while (tokens[i]?.kind === 'name') {
+    parts.push(tokens[i].text);
+    if (tokens[i + 1]?.text !== '.') break;
+    i += 2;
+  }
+  return { parts, next: i + 1 };
+};
+
+// Readable source text for a token run, for signatures and annotations
+const tokensText = (tokens: Token[]) =>
+  tokens.reduce((text, token, index) => {
+    const prev = tokens[index - 1];
+    const tight = !prev ||
+      ['.', '(', '[', '{', '*', '**'].includes(prev.text) ||
+      ['.', ',', ')', ']', '}', ':'].includes(token.text) ||
+      (['(', '['].includes(token.text) && (prev.kind === 'name' || [')', ']'].includes(prev.text)));
+    return text + (tight ? '' : ' ') + token.text;
+  }, '');
+
+const MAX_TYPE_TEXT = 80;
+const compact = (text: string) => (text.length > MAX_TYPE_TEXT ? `${text.slice(0, MAX_TYPE_TEXT - 1)}…` : text);
+
+// Flask <int:id> and FastAPI {id} parameters become :id, as in Express routes
+const normalizeRoute = (path: string) =>
+  path.replace(/<(?:[^:<>]+:)?([^<>]+)>/g, ':$1').replace(/\{([^}:]+)(?::[^}]*)?\}/g, ':$1');
+
+// FastAPI Depends(get_user) / Security(auth) inside a token run
+const findDependencies = (tokens: Token[]): CallInfo[] => {
+  const dependencies: CallInfo[] = [];
+  tokens.forEach((token, i) => {
+    if ((token.text === 'Depends' || token.text === 'Security') && tokens[i + 1]?.text === '(') {
+      const { parts } = readDottedName(tokens, i + 2);
+      if (parts.length === 0) return;
+      dependencies.push({
+        name: parts[parts.length - 1],
+        line: tokens[i + 2].line,
+        receiver: parts.length > 1 ? parts.slice(0, -1).join('.') : undefined,
+      });
+    }
+  });
+  return dependencies;
+};
+
+interface Decorator {
+  parts: string[]; // @app.route -> ['app', 'route']
+  args?: Argument[];
+  line: number;
+  tokens: Token[];
+}
+
+const parseDecorator = (line: LogicalLine): Decorator => {
+  const { parts, next } = readDottedName(line.tokens, 1);
+  const args = line.tokens[next]?.text === '(' ? parseArguments(line.tokens, next) : undefined;
+  return { parts, args, line: line.line, tokens: line.tokens };
+};
+
+interface Scope {
+  kind: 'def' | 'class';
+  name: string;
+  nameToken: Token;
+  indent: number;
+  header: LogicalLine;
+  decorators: Decorator[];
+  parent?: Scope;
+  start: number; // Index of the header among logical lines
+  end: number; // Index of the last logical line in the body
+  endLine: number;
+  ownLines: LogicalLine[]; // Body lines not inside a nested def or class
+}
+
+const DECISION_KEYWORDS = new Set(['if', 'elif', 'for', 'while', 'except', 'and', 'or']);
+const NESTING_KEYWORDS = new Set(['if', 'elif', 'else', 'for', 'while', 'try', 'except', 'finally', 'match']);
+
+const firstKeyword = (line: LogicalLine) =>
+  line.tokens[0]?.text === 'async' ? line.tokens[1]?.text : line.tokens[0]?.text;
+
+// Statement that opens a block: if x:, for a in b:, try:
+const isBlockHeader = (line: LogicalLine) => {
+  const keyword = firstKeyword(line);
+  if (!keyword || !NESTING_KEYWORDS.has(keyword)) return false;
+  // match/case are soft keywords: match(x) is an ordinary call
+  return keyword !== 'match' || line.tokens.some(t => t.text === ':');
+};
+
+const measureFunction = (scope: Scope, isMethod: boolean) => {
+  let cyclomatic = 1;
+  let nesting = 0;
+  const open: number[] = []; // Indents of enclosing block headers
+
+  scope.ownLines.forEach(line => {
+    line.tokens.forEach(token => {
+      if (token.kind === 'name' && DECISION_KEYWORDS.has(token.text)) cyclomatic++;
+    });
+    if (line.tokens[0]?.text === 'case' && line.tokens.some(t => t.text === ':')) cyclomatic++;
+
+    // elif/else/except close their sibling block and open one at the same depth
+    while (open.length > 0 && open[open.length - 1] >= line.indent) open.pop();
+    if (isBlockHeader(line)) {
+      open.push(line.indent);
+      nesting = Math.max(nesting, open.length);
+    }
+  });
+
+  const openIndex = scope.header.tokens.findIndex(t => t.text === '(');
+  const params = openIndex === -1
+    ? []
+    : splitTopLevel(scope.header.tokens.slice(openIndex + 1, findClosing(scope.header.tokens, openIndex)))
+      .filter(p => !(p.length === 1 && (p[0].text === '*' || p[0].text === '/')));
+  const receiverParam = isMethod && (params[0]?.[0]?.text === 'self' || params[0]?.[0]?.text === 'cls') ? 1 : 0;
+
+  return {
+    cyclomatic,
+    nesting,
+    params: params.length - receiverParam,
+    lines: scope.endLine - scope.nameToken.line + 1,
+  };
+};
+
+const JUMP_KEYWORDS: Record<string, 'return' | 'throw' | 'break' | 'continue'> = {
+  return: 'return',
+  raise: 'throw',
+  break: 'break',
+  continue: 'continue',
+};
+
+// Control-flow structure of a def's own lines, recovered from indentation like the blocks themselves
+const findControlFlow = (lines: LogicalLine[]): ControlFlowNode[] => {
+  // Index just past the lines indented under the header at index
+  const blockEnd = (index: number, end: number) => {
+    let i = index + 1;
+    while (i < end && lines[i].indent > lines[index].indent) i++;
+    return i;
+  };
+
+  const jumpAt = (tokens: Token[], index: number): ControlFlowNode | undefined => {
+    const kind = tokens[index]?.kind === 'name' ? JUMP_KEYWORDS[tokens[index].text] : undefined;
+    return kind && { kind, line: tokens[index].line };
+  };
+
+  // A clause header and its body; a body on the header line (if not user: return) can only hold a jump we care about
+  const clauseAt = (index: number, end: number) => {
+    const header = lines[index];
+    const next = blockEnd(index, end);
+    const colon = findTopLevel(header.tokens, ':');
+    const inline = colon === -1 ? undefined : jumpAt(header.tokens, colon + 1);
+    const branch: ControlFlowBranch = {
+      label: compact(tokensText(colon === -1 ? header.tokens : header.tokens.slice(0, colon))),
+      startLine: header.line,
+      endLine: lines[next - 1].endLine,
+      children: [...(inline ? [inline] : []), ...parse(index + 1, next)],
+    };
+    return { branch, next };
+  };
+
+  const parse = (start: number, end: number): ControlFlowNode[] => {
+    const nodes: ControlFlowNode[] = [];
+    let i = start;
+    while (i < end) {
+      const line = lines[i];
+      const keyword = firstKeyword(line);
+      const clauseFollows = (index: number, ...keywords: string[]) =>
+        index < end && lines[index].indent === line.indent && keywords.includes(firstKeyword(lines[index]) ?? '');
+
+      if (keyword === 'if') {
+        let clause = clauseAt(i, end);
+        const branches = [clause.branch];
+        let hasElse = false;
+        while (!hasElse && clauseFollows(clause.next, 'elif', 'else')) {
+          hasElse = firstKeyword(lines[clause.next]) === 'else';
+          clause = clauseAt(clause.next, end);
+          branches.push(clause.branch);
+        }
+        nodes.push({ kind: 'if', line: line.line, endLine: clause.branch.endLine, branches, hasElse });
+        i = clause.next;
+      } else if (keyword === 'for' || keyword === 'while') {
+        const body = clauseAt(i, end);
+        const orElse = clauseFollows(body.next, 'else') ? clauseAt(body.next, end) : undefined;
+        const last = orElse ?? body;
+        nodes.push({ kind: 'loop', line: line.line, endLine: last.branch.endLine, body: body.branch, orElse: orElse?.branch });
+        i = last.next;
+      } else if (keyword === 'try') {
+        let last = clauseAt(i, end);
+        const body = last.branch;
+        const handlers: ControlFlowBranch[] = [];
+        while (clauseFollows(last.next, 'except')) {
+          last = clauseAt(last.next, end);
+          handlers.push(last.branch);
+        }
+        let orElse: ControlFlowBranch | undefined;
+        if (clauseFollows(last.next, 'else')) {
+          last = clauseAt(last.next, end);
+          orElse = last.branch;
+        }
+        let finalizer: ControlFlowBranch | undefined;
+        if (clauseFollows(last.next, 'finally')) {
+          last = clauseAt(last.next, end);
+          finalizer = last.branch;
+        }
+        nodes.push({ kind: 'try', line: line.line, endLine: last.branch.endLine, body, handlers, orElse, finalizer });
+        i = last.next;
+      } else if (keyword === 'match' && isBlockHeader(line)) {
+        // Cases don't fall through, so a match flows like an if/elif chain
+        const next = blockEnd(i, end);
+        const branches: ControlFlowBranch[] = [];
+        let j = i + 1;
+        while (j < next) {
+          if (firstKeyword(lines[j]) !== 'case') {
+            j++;
+            continue;
+          }
+          const clause = clauseAt(j, next);
+          branches.push(clause.branch);
+          j = clause.next;
+        }
+        const hasElse = branches.some(b => b.label === 'case _');
+        nodes.push({ kind: 'if', line: line.line, endLine: lines[next - 1].endLine, branches, hasElse });
+        i = next;
+      } else {
+        const jump = jumpAt(line.tokens, 0);
+        if (jump) nodes.push(jump);
+        i++;
+      }
+    }
+    return nodes;
+  };
+
+  return parse(0, lines.length);
+};
+
+// Names used in an annotation, including quoted forward references
+const annotationReferences = (tokens: Token[]) => [...new Set(
+  tokens.flatMap(t => {
+    if (t.kind === 'name' && !KEYWORDS.has(t.text)) return [t.text];
+    if (t.kind === 'string' && t.value && /^[A-Za-z_][\w.]*$/.test(t.value)) return [t.value.split('.').pop()!];
+    return [];
+  })
+)];
+
+// Framework app and router constructors: app = Flask(__name__), router = APIRouter(prefix='/users')
+const ROUTER_FACTORIES: Record<string, { framework: string; prefixArg?: string }> = {
+  Flask: { framework: 'flask' },
+  Blueprint: { framework: 'flask', prefixArg: 'url_prefix' },
+  FastAPI: { framework: 'fastapi' },
+  APIRouter: { framework: 'fastapi', prefixArg: 'prefix' },
+};
+
+interface RouterInfo {
+  framework: string;
+  prefix: string;
+  middleware: CallInfo[];
+}
+
+const ROUTE_METHODS = HTTP_METHODS.filter(m => m !== 'all');
+
+export const analyzePython = (path: string, content: string): FileAnalysis => {
+  const lines = tokenize(content);
+  const functions: FunctionInfo[] = [];
+  const imports: ImportInfo[] = [];
+  const exports: ExportInfo[] = [];
+  const types: TypeInfo[] = [];
+  const endpoints: EndpointInfo[] = [];
+  const mounts: RouteMount[] = [];
+  const routers = new Map<string, RouterInfo>();
+  const scopes: Scope[] = [];
+
+  // Imports in a package's __init__.py re-export the names to importers of the package
+  const importKind = path === '__init__.py' || path.endsWith('/__init__.py') ? 'reexport' : 'import';
+
+  // Pass 1: block structure, imports and module-level declarations
+  const stack: Scope[] = [];
+  let decorators: Decorator[] = [];
+
+  lines.forEach((line, index) => {
+    while (stack.length > 0 && line.indent <= stack[stack.length - 1].indent) stack.pop();
+    stack.forEach(scope => {
+      scope.end = index;
+      scope.endLine = Math.max(scope.endLine, line.endLine);
+    });
+    const owner = stack[stack.length - 1];
+    owner?.ownLines.push(line);
+
+    const tokens = line.tokens;
+    if (tokens[0].text === '@') {
+      decorators.push(parseDecorator(line));
+      return;
+    }
+
+    const keywordIndex = tokens[0].text === 'async' ? 1 : 0;
+    const keyword = tokens[keywordIndex]?.text;
+    if ((keyword === 'def' || keyword === 'class') && tokens[keywordIndex + 1]?.kind === 'name') {
+      const scope: Scope = {
+        kind: keyword,
+        name: tokens[keywordIndex + 1].text,
+        nameToken: tokens[keywordIndex + 1],
+        indent: line.indent,
+        header: line,
+        decorators,
+        parent: owner,
+        start: index,
+        end: index,
+        endLine: line.endLine,
+        ownLines: [],
+      };
+      scopes.push(scope);
+      stack.push(scope);
+      decorators = [];
+      return;
+    }
+    decorators = [];
+
+    // import a.b as c, d
+    if (tokens[0].text === 'import') {
+      splitTopLevel(tokens.slice(1)).forEach(part => {
+        const { parts, next } = readDottedName(part, 0);
+        if (parts.length === 0) return;
+        const alias = part[next]?.text === 'as' ? part[next + 1]?.text : undefined;
+        imports.push({
+          moduleSpecifier: parts.join('.'),
+          kind: importKind,
+          line: line.line,
+          namespaceImport: alias ?? parts.join('.'),
+          namedImports: [],
+        });
+      });
+    }
+    // from .models import User, Role as R / from . import views
+    else if (tokens[0].text === 'from') {
+      let i = 1;
+      let dots = '';
+      while (tokens[i]?.text === '.' || tokens[i]?.text === '...') dots += tokens[i++].text;
+      const { parts, next } = readDottedName(tokens, i);
+      const moduleSpecifier = dots + parts.join('.');
+      if (tokens[next]?.text !== 'import') return;
+
+      const names = splitTopLevel(tokens.slice(next + 1).filter(t => t.text !== '(' && t.text !== ')'));
+      if (names.length === 1 && names[0][0].text === '*') {
+        imports.push({ moduleSpecifier, kind: importKind, line: line.line, namedImports: [], reexportAll: importKind === 'reexport' || undefined });
+        return;
+      }
+
+      // from . import views: the names are sibling modules, used like namespaces
+      if (parts.length === 0) {
+        names.forEach(name => {
+          const localName = name[2]?.text ?? name[0].text;
+          imports.push({
+            moduleSpecifier: `${dots}${name[0].text}`,
+            kind: importKind,
+            line: line.line,
+            namespaceImport: localName,
+            namedImports: [],
+          });
+        });
+        return;
+      }
+
+      const importInfo: ImportInfo = { moduleSpecifier, kind: importKind, line: line.line, namedImports: [] };
+      const submodules: ImportInfo[] = [];
+      names.forEach(name => {
+        const exported = name[0].text;
+        const localName = name[1]?.text === 'as' && name[2] ? name[2].text : exported;
+        importInfo.namedImports.push(localName);
+        if (localName !== exported) importInfo.aliases = { ...importInfo.aliases, [localName]: exported };
+        // from .routers import users may name a module rather than a function; lowercase names
+        // get a namespace entry too, which only resolves if routers/users.py is loaded
+        if (/^[a-z]/.test(exported)) {
+          submodules.push({
+            moduleSpecifier: `${moduleSpecifier}.${exported}`,
+            kind: importKind,
+            line: line.line,
+            namespaceImport: localName,
+            namedImports: [],
+          });
+        }
+      });
+      imports.push(importInfo, ...submodules);
+    }
+    // router = APIRouter(prefix='/users', dependencies=[Depends(auth)])
+    else if (tokens[0].kind === 'name' && tokens[1]?.text === '=') {
+      const { parts, next } = readDottedName(tokens, 2);
+      const factory = ROUTER_FACTORIES[parts[parts.length - 1]];
+      if (factory && tokens[next]?.text === '(') {
+        const args = parseArguments(tokens, next);
+        const dependencies = args.find(a => a.keyword === 'dependencies');
+        routers.set(tokens[0].text, {
+          framework: factory.framework,
+          prefix: (factory.prefixArg && stringValue(args.find(a => a.keyword === factory.prefixArg)?.tokens)) || '',
+          middleware: dependencies ? findDependencies(dependencies.tokens) : [],
+        });
+      }
+    }
+
+    // app.include_router(users.router, prefix='/api') / app.register_blueprint(bp, url_prefix='/api')
+    tokens.forEach((token, i) => {
+      if (
+        (token.text !== 'include_router' && token.text !== 'register_blueprint') ||
+        tokens[i - 1]?.text !== '.' || tokens[i - 2]?.kind !== 'name' || tokens[i + 1]?.text !== '('
+      ) {
+        return;
+      }
+      const args = parseArguments(tokens, i + 1);
+      const target = args.find(a => !a.keyword);
+      if (!target) return;
+      const dependencies = args.find(a => a.keyword === 'dependencies');
+      mounts.push({
+        prefix: stringValue(args.find(a => a.keyword === 'prefix' || a.keyword === 'url_prefix')?.tokens) ?? '',
+        router: tokens[i - 2].text,
+        target: tokensText(target.tokens),
+        middleware: dependencies ? findDependencies(dependencies.tokens) : [],
+        line: line.line,
+      });
+    });
+  });
+
+  // A nested def's header is listed among its parent's lines, but its body isn't the parent's
+  const headers = new Set(scopes.map(scope => scope.header));
+  scopes.forEach(scope => {
+    scope.ownLines = scope.ownLines.filter(line => !headers.has(line));
+  });
+
+  // Pass 2: functions
+  scopes.filter(scope => scope.kind === 'def').forEach(scope => {
+    const classOwner = scope.parent?.kind === 'class' ? scope.parent : undefined;
+    const decoratorNames = scope.decorators.map(d => d.parts.join('.'));
+    const isStatic = decoratorNames.includes('staticmethod') || decoratorNames.includes('classmethod');
+
+    let kind: FunctionKind = 'function';
+    if (classOwner) {
+      kind = scope.name === '__init__'
+        ? 'constructor'
+        : decoratorNames.some(n => n === 'property' || n.endsWith('.getter'))
+          ? 'getter'
+          : decoratorNames.some(n => n.endsWith('.setter')) ? 'setter' : 'method';
+    }
+
+    const calls: CallInfo[] = [];
+    lines.slice(scope.start, scope.end + 1).forEach(line => {
+      const tokens = line.tokens;
+      tokens.forEach((token, i) => {
+        if (token.kind !== 'name' || tokens[i + 1]?.text !== '(' || KEYWORDS.has(token.text)) return;
+        const prev = tokens[i - 1];
+        if (prev?.text === 'def' || prev?.text === 'class') return;
+        // await foo() / await self.repo.get()
+        let start = i;
+        while (tokens[start - 1]?.text === '.' && tokens[start - 2]?.kind === 'name') start -= 2;
+        // What the method was called on: self.repo.get() -> 'self.repo', Service(1, 2).run() -> 'Service'
+        const before = tokens[i - 2];
+        const receiver = prev?.text !== '.' ? undefined
+          : start < i ? tokens.slice(start, i - 1).map(t => t.text).join('')
+            : before?.text === ')' || before?.text === ']' ? calleeBefore(tokens, i - 2)
+              : before?.text;
+        const mode = tokens[start - 1]?.text === 'await' ? 'await' : undefined;
+        calls.push({ name: token.text, line: token.line, receiver, mode });
+      });
+    });
+
+    const returns = [...new Set(
+      scope.ownLines.flatMap(line => line.tokens.filter(t => t.text === 'return' && t.kind === 'name').map(t => t.line))
+    )];
+
+    functions.push({
+      name: scope.name,
+      kind,
+      owner: classOwner?.name,
+      isStatic: classOwner ? isStatic : undefined,
+      startLine: scope.nameToken.line,
+      endLine: scope.endLine,
+      calls,
+      returns,
+      metrics: measureFunction(scope, !!classOwner && !decoratorNames.includes('staticmethod')),
+      controlFlow: findControlFlow(scope.ownLines),
+    });
+  });
+
+  // Pass 3: classes as types
+  scopes.filter(scope => scope.kind === 'class').forEach(scope => {
+    const header = scope.header.tokens;
+    const openIndex = header.findIndex(t => t.text === '(');
+    const bases = openIndex === -1
+      ? []
+      : parseArguments(header, openIndex)
+        .filter(arg => !arg.keyword && arg.tokens[0]?.kind === 'name')
+        .map(arg => readDottedName(arg.tokens, 0).parts.pop()!)
+        .filter(name => name !== 'object');
+
+    const isEnum = bases.some(b => /^(Int|Str)?(Enum|Flag)$/.test(b));
+    const kind: TypeKind = isEnum ? 'enum' : bases.includes('Protocol') ? 'interface' : 'class';
+    const members: TypeMemberInfo[] = [];
+    const addField = (name: string, annotation: Token[] | undefined, value: Token[] | undefined, line: number) => {
+      if (members.some(m => m.name === name)) return;
+      const annotationText = annotation ? tokensText(annotation) : undefined;
+      members.push({
+        name,
+        kind: 'field',
+        type: compact(annotationText ?? (value ? (isEnum ? tokensText(value) : `= ${tokensText(value)}`) : 'Any')),
+        optional: annotationText && (/^Optional\[/.test(annotationText) || /\|\s*None\b/.test(annotationText)) ? true : undefined,
+        line,
+        references: annotation ? annotationReferences(annotation) : [],
+      });
+    };
+
+    scope.ownLines.forEach(line => {
+      const tokens = line.tokens;
+      if (tokens[0].kind !== 'name' || KEYWORDS.has(tokens[0].text)) return;
+      // name: Annotation = value / NAME = value
+      if (tokens[1]?.text === ':') {
+        const equals = tokens.findIndex(t => t.text === '=');
+        addField(tokens[0].text, tokens.slice(2, equals === -1 ? undefined : equals), equals === -1 ? undefined : tokens.slice(equals + 1), line.line);
+      } else if (tokens[1]?.text === '=') {
+        addField(tokens[0].text, undefined, tokens.slice(2), line.line);
+      }
+    });
+
+    scopes.filter(s => s.parent === scope && s.kind === 'def').forEach(method => {
+      const tokens = method.header.tokens;
+      const open = tokens.findIndex(t => t.text === '(');
+      const close = findClosing(tokens, open);
+      const arrow = findTopLevel(tokens, '->', close);
+      const returnType = arrow === -1 ? [] : tokens.slice(arrow + 1, findTopLevel(tokens, ':', arrow));
+      const parameters = tokens.slice(open + 1, close);
+      // user: User = None -> User
+      const parameterAnnotations = splitTopLevel(parameters).flatMap(parameter => {
+        const colon = findTopLevel(parameter, ':');
+        if (colon === -1) return [];
+        const equals = findTopLevel(parameter, '=', colon);
+        return parameter.slice(colon + 1, equals === -1 ? undefined : equals);
+      });
+      members.push({
+        name: method.name,
+        kind: 'method',
+        type: compact(`(${tokensText(parameters)})${returnType.length ? ` -> ${tokensText(returnType)}` : ''}`),
+        line: method.nameToken.line,
+        references: annotationReferences([...parameterAnnotations, ...returnType]),
+      });
+
+      // Attributes assigned in __init__: self.repo: UserRepo = repo
+      if (method.name !== '__init__') return;
+      method.ownLines.forEach(line => {
+        const t = line.tokens;
+        if (t[0]?.text !== 'self' || t[1]?.text !== '.' || t[2]?.kind !== 'name') return;
+        if (t[3]?.text === ':') {
+          const equals = t.findIndex(token => token.text === '=');
+          addField(t[2].text, t.slice(4, equals === -1 ? undefined : equals), undefined, line.line);
+        } else if (t[3]?.text === '=') {
+          addField(t[2].text, undefined, t.slice(4), line.line);
+        }
+      });
+    });
+
+    types.push({
+      name: scope.name,
+      kind,
+      line: scope.nameToken.line,
+      endLine: scope.endLine,
+      extends: isEnum ? [] : bases.filter(b => b !== 'Protocol'),
+      implements: [],
+      members,
+      references: [...new Set(members.flatMap(m => m.references))],
+    });
+  });
+
+  // Pass 4: routes declared with decorators
+  const hasImport = (module: string) => imports.some(i => i.moduleSpecifier === module || i.moduleSpecifier.startsWith(`${module}.`));
+  const defaultFramework = hasImport('fastapi') ? 'fastapi' : hasImport('flask') ? 'flask' : undefined;
+
+  // Prefix and middleware a router inherits from mounts in this file
+  const inFileChain = (router: string, seen: Set<string> = new Set()): { prefix: string; middleware: CallInfo[] } => {
+    const mount = mounts.find(m => m.target === router);
+    if (!mount || seen.has(router)) return { prefix: '', middleware: [] };
+    seen.add(router);
+    const parent = inFileChain(mount.router, seen);
+    return { prefix: joinRoute(parent.prefix, mount.prefix), middleware: [...parent.middleware, ...mount.middleware] };
+  };
+
+  scopes.filter(scope => scope.kind === 'def' && scope.parent?.kind !== 'class').forEach(scope => {
+    const parameterDependencies = findDependencies(scope.header.tokens);
+
+    scope.decorators.forEach((decorator, index) => {
+      if (decorator.parts.length !== 2 || !decorator.args) return;
+      const [router, method] = decorator.parts;
+      const isRoute = method === 'route' || method === 'api_route';
+      if (!isRoute && !ROUTE_METHODS.includes(method)) return;
+
+      const routerInfo = routers.get(router);
+      const framework = routerInfo?.framework ?? (method === 'route' ? 'flask' : defaultFramework);
+      if (!framework) return;
+
+      const args = decorator.args;
+      const pathArg = args.find(a => !a.keyword) ?? args.find(a => a.keyword === 'path' || a.keyword === 'rule');
+      const routePath = stringValue(pathArg?.tokens) ?? '';
+      const methodsArg = args.find(a => a.keyword === 'methods');
+      const methods = isRoute
+        ? (methodsArg?.tokens.filter(t => t.kind === 'string').map(t => t.value!.toLowerCase()) ?? ['get'])
+        : [method];
+      const dependencies = args.find(a => a.keyword === 'dependencies');
+
+      // Decorators below the route wrap the handler, so they run first: @app.route(...) @login_required
+      const wrappers: CallInfo[] = scope.decorators.slice(index + 1)
+        .filter(d => d.parts.length > 0 && !(d.parts.length === 2 && (ROUTE_METHODS.includes(d.parts[1]) || d.parts[1] === 'route' || d.parts[1] === 'api_route')))
+        .map(d => ({ name: d.parts[d.parts.length - 1], line: d.line, receiver: d.parts.length > 1 ? d.parts.slice(0, -1).join('.') : undefined }));
+
+      const chain = inFileChain(router);
+      const stringToken = pathArg?.tokens[0];
+      methods.forEach(httpMethod => {
+        endpoints.push({
+          method: httpMethod,
+          path: routePath,
+          localPath: joinRoute(chain.prefix, routerInfo?.prefix ?? '', normalizeRoute(routePath)),
+          fullPath: joinRoute(chain.prefix, routerInfo?.prefix ?? '', normalizeRoute(routePath)),
+          handler: scope.name,
+          middleware: [
+            ...chain.middleware,
+            ...(routerInfo?.middleware ?? []),
+            ...(dependencies ? findDependencies(dependencies.tokens) : []),
+            ...wrappers,
+            ...parameterDependencies,
+          ],
+          line: stringToken?.line ?? decorator.line,
+          anchor: stringToken?.kind === 'string' && routePath ? routePath : method,
+          framework,
+          router,
+        });
+      });
+    });
+  });
+
+  // __all__ lists the public names; without it, nothing is treated as exported
+  lines.forEach(line => {
+    const tokens = line.tokens;
+    if (line.indent !== 0 || tokens[0].text !== '__all__' || !['=', '+='].includes(tokens[1]?.text)) return;
+    tokens.filter(t => t.kind === 'string').forEach(t => {
+      const name = t.value!;
+      const declaration = scopes.find(s => !s.parent && s.name === name);
+      exports.push({
+        name,
+        kind: declaration ? (declaration.kind === 'def' ? 'function' : 'class') : 'value',
+        line: declaration?.nameToken.line ?? t.line,
+      });
+    });
+  });
+
+  return { path, functions, imports, exports, endpoints, mounts, requests: [], socketHandlers: [], listeners: [], types };
+};
@@ -0,0 +1,25 @@
+import { FileStructure } from '../store/useFileStore';
+
+const segmentsOf = (location: string) =>
+  location.replace(/^file:\/\//, '').replace(/\\/g, '/').split(/[?#]/)[0].split('/').filter(Boolean);
+
+// Paths recorded by tools are absolute (file:///home/me/app/src/server.ts); the loaded file sharing
+// the longest run of trailing path segments with one is taken to be it. A shared file name alone
+// (index.ts) says little, so at least one directory must match too, unless the paths are equal.
+export const matchRecordedPath = (files: FileStructure[], location: string): { file: FileStructure; length: number } | undefined => {
+  const wanted = segmentsOf(location);
+  let best: { file: FileStructure; length: number } | undefined;
+  files.forEach(file => {
+    const segments = segmentsOf(file.path);
+    let length = 0;
+    while (
+      length < segments.length && length < wanted.length &&
+      segments[segments.length - 1 - length] === wanted[wanted.length - 1 - length]
+    ) length++;
+    const isSamePath = length === segments.length && length === wanted.length;
+    if ((length >= 2 || isSamePath) && length > (best?.length ?? 0)) best = { file, length };
+  });
+  return best;
+};
+
+export const matchRecordedFile = (files: FileStructure[], location: string) => matchRecordedPath(files, location)?.file;
@@ -0,0 +1,22 @@
+import Prism from 'prismjs';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-javascript';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-tsx';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-css';
+import 'prismjs/components/prism-python';
+import { getLanguageDefinition } from './languageRegistry';
+
+// Prism grammars are loaded here rather than in languageRegistry so the analysis worker doesn't bundle Prism.
+// A new language's grammar component is imported above.
+export const getGrammar = (language: string) => {
+  const name = getLanguageDefinition(language)?.grammar;
+  const grammar = name ? Prism.languages[name] : undefined;
+  return grammar ? { name: name as string, grammar } : { name: 'javascript', grammar: Prism.languages.javascript };
+};
+
+export const highlight = (code: string, language: string) => {
+  const { name, grammar } = getGrammar(language);
+  return Prism.highlight(code, grammar, name);
+};
@@ -0,0 +1,187 @@
+import * as ts from 'typescript';
+import { TypeInfo, TypeMemberInfo } from './codeAnalyzer';
+
+// Longer annotations are cut so type nodes stay readable
+const MAX_TYPE_TEXT = 80;
+
+const truncate = (text: string) => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TYPE_TEXT ? `${singleLine.slice(0, MAX_TYPE_TEXT - 1)}…` : singleLine;
+};
+
+// Type names referenced inside a node: Map<string, GitCommit[]> -> ['Map', 'GitCommit']
+const collectTypeReferences = (node: ts.Node | undefined): string[] => {
+  const names = new Set<string>();
+  const visit = (n: ts.Node) => {
+    if (ts.isTypeReferenceNode(n)) {
+      names.add(ts.isQualifiedName(n.typeName) ? n.typeName.right.text : n.typeName.text);
+    } else if (ts.isExpressionWithTypeArguments(n)) {
+      // Heritage clauses inside type literals: { x: Foo } & Bar
+      const expression = n.expression;
+      if (ts.isIdentifier(expression)) names.add(expression.text);
+      else if (ts.isPropertyAccessExpression(expression)) names.add(expression.name.text);
+    } else if (ts.isTypeQueryNode(n)) {
+      return; // typeof value, not a type declaration
+    }
+    ts.forEachChild(n, visit);
+  };
+  if (node) visit(node);
+  return [...names];
+};
+
+// React.Component<Props> -> 'Component'
+const heritageName = (type: ts.ExpressionWithTypeArguments) =>
+  ts.isPropertyAccessExpression(type.expression) ? type.expression.name.text : type.expression.getText();
+
+const getMemberName = (name: ts.PropertyName | ts.BindingName | undefined) => {
+  if (!name) return undefined;
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+    return name.text;
+  }
+  return name.getText();
+};
+
+const signatureText = (member: ts.SignatureDeclarationBase) => {
+  const parameters = member.parameters.map(p => p.getText()).join(', ');
+  return truncate(`(${parameters})${member.type ? ` => ${member.type.getText()}` : ''}`);
+};
+
+export const findTypes = (sourceFile: ts.SourceFile): TypeInfo[] => {
+  const types: TypeInfo[] = [];
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+
+  const toMember = (member: ts.Node): TypeMemberInfo | null => {
+    if (ts.isPropertySignature(member) || ts.isPropertyDeclaration(member)) {
+      const name = getMemberName(member.name);
+      if (!name) return null;
+      const type = member.type?.getText() ?? (ts.isPropertyDeclaration(member) && member.initializer ? `= ${member.initializer.getText()}` : 'any');
+      return {
+        name,
+        kind: 'field',
+        type: truncate(type),
+        optional: !!member.questionToken || undefined,
+        line: lineOf(member.name),
+        references: collectTypeReferences(member.type),
+      };
+    }
+    if (ts.isMethodSignature(member) || ts.isMethodDeclaration(member)) {
+      const name = getMemberName(member.name);
+      if (!name) return null;
+      return {
+        name,
+        kind: 'method',
+        type: signatureText(member),
+        optional: !!member.questionToken || undefined,
+        line: lineOf(member.name),
+        references: [...member.parameters.flatMap(p => collectTypeReferences(p.type)), ...collectTypeReferences(member.type)],
+      };
+    }
+    if (ts.isGetAccessorDeclaration(member)) {
+      const name = getMemberName(member.name);
+      if (!name) return null;
+      return {
+        name,
+        kind: 'field',
+        type: truncate(member.type?.getText() ?? 'any'),
+        line: lineOf(member.name),
+        references: collectTypeReferences(member.type),
+      };
+    }
+    if (ts.isIndexSignatureDeclaration(member)) {
+      return {
+        name: `[${member.parameters.map(p => p.getText()).join(', ')}]`,
+        kind: 'field',
+        type: truncate(member.type.getText()),
+        line: lineOf(member),
+        references: collectTypeReferences(member.type),
+      };
+    }
+    return null;
+  };
+
+  // constructor(private readonly api: ApiClient) declares a field too
+  const parameterProperties = (member: ts.ClassElement): TypeMemberInfo[] => {
+    if (!ts.isConstructorDeclaration(member)) return [];
+    return member.parameters
+      .filter(p => ts.getModifiers(p)?.some(m =>
+        m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.PublicKeyword ||
+        m.kind === ts.SyntaxKind.ProtectedKeyword || m.kind === ts.SyntaxKind.ReadonlyKeyword
+      ))
+      .map(p => ({
+        name: getMemberName(p.name) ?? p.name.getText(),
+        kind: 'field' as const,
+        type: truncate(p.type?.getText() ?? 'any'),
+        optional: !!p.questionToken || undefined,
+        line: lineOf(p.name),
+        references: collectTypeReferences(p.type),
+      }));
+  };
+
+  const heritage = (clauses: ts.NodeArray<ts.HeritageClause> | undefined, token: ts.SyntaxKind) =>
+    (clauses || []).filter(c => c.token === token).flatMap(c => c.types.map(heritageName));
+
+  const visit = (node: ts.Node) => {
+    if (ts.isClassDeclaration(node) && node.name) {
+      const members = node.members.flatMap(member => [...parameterProperties(member), toMember(member)])
+        .filter((m): m is TypeMemberInfo => m !== null);
+      types.push({
+        name: node.name.text,
+        kind: 'class',
+        line: lineOf(node.name),
+        endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+        extends: heritage(node.heritageClauses, ts.SyntaxKind.ExtendsKeyword),
+        implements: heritage(node.heritageClauses, ts.SyntaxKind.ImplementsKeyword),
+        members,
+        references: [...new Set(members.flatMap(m => m.references))],
+      });
+    } else if (ts.isInterfaceDeclaration(node)) {
+      const members = node.members.map(toMember).filter((m): m is TypeMemberInfo => m !== null);
+      types.push({
+        name: node.name.text,
+        kind: 'interface',
+        line: lineOf(node.name),
+        endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+        extends: heritage(node.heritageClauses, ts.SyntaxKind.ExtendsKeyword),
+        implements: [],
+        members,
+        references: [...new Set(members.flatMap(m => m.references))],
+      });
+    } else if (ts.isTypeAliasDeclaration(node)) {
+      const isObject = ts.isTypeLiteralNode(node.type);
+      types.push({
+        name: node.name.text,
+        kind: 'type',
+        line: lineOf(node.name),
+        endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+        extends: [],
+        implements: [],
+        members: isObject
+          ? (node.type as ts.TypeLiteralNode).members.map(toMember).filter((m): m is TypeMemberInfo => m !== null)
+          : [],
+        aliasOf: isObject ? undefined : truncate(node.type.getText()),
+        references: collectTypeReferences(node.type),
+      });
+    } else if (ts.isEnumDeclaration(node)) {
+      types.push({
+        name: node.name.text,
+        kind: 'enum',
+        line: lineOf(node.name),
+        endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+        extends: [],
+        implements: [],
+        members: node.members.map(member => ({
+          name: getMemberName(member.name) ?? member.name.getText(),
+          kind: 'field' as const,
+          type: member.initializer ? truncate(member.initializer.getText()) : '',
+          line: lineOf(member.name),
+          references: [],
+        })),
+        references: [],
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return types;
+};